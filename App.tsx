@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   StyleSheet,
   View,
@@ -7,31 +7,177 @@ import {
   ScrollView,
 } from 'react-native';
 import { useNavigation } from './src/hooks/useNavigation';
+import { useVoiceGuidance } from './src/hooks/useVoiceGuidance';
+import { useHapticGuidance } from './src/hooks/useHapticGuidance';
+import { usePermissions } from './src/hooks/usePermissions';
+import { useSimulation } from './src/hooks/useSimulation';
+import { AppError, PermissionStatus } from './src/types';
 import { Arrow3D } from './src/components/Arrow3D';
 import { NavigationInfo } from './src/components/NavigationInfo ';
 import { ErrorDisplay } from './src/components/ErrorDisplay';
+import { ErrorBanner } from './src/components/ErrorBanner';
 import { LoadingScreen } from './src/components/LoadingScreen';
+import { DestinationsScreen } from './src/components/DestinationsScreen';
+import { RoutesScreen } from './src/components/RoutesScreen';
+import { SettingsScreen } from './src/components/SettingsScreen';
+import { CalibrationScreen } from './src/components/CalibrationScreen';
+import { TracksScreen } from './src/components/TracksScreen';
+import { ImportScreen } from './src/components/ImportScreen';
+import { ArrivalScreen } from './src/components/ArrivalScreen';
+import { DevMenuScreen } from './src/components/DevMenuScreen';
+import { RecordingsScreen } from './src/components/RecordingsScreen';
+import { OnboardingScreen } from './src/components/OnboardingScreen';
+import { createAppError } from './src/utils/errors';
+
+type Screen =
+  | 'navigation'
+  | 'destinations'
+  | 'routes'
+  | 'import'
+  | 'settings'
+  | 'calibration'
+  | 'tracks'
+  | 'recordings'
+  | 'devmenu';
 
 export default function App() {
-  const { navigationData, isLocationPermissionGranted, isSensorActive, error } =
-    useNavigation();
+  const {
+    navigationData,
+    tripStats,
+    resetTrip,
+    arrival,
+    dismissArrival,
+    recover,
+    isLocationPermissionGranted,
+    isSensorActive,
+    error,
+  } = useNavigation();
+  useVoiceGuidance(navigationData);
+  useHapticGuidance(navigationData);
+  const { permissions, isChecked } = usePermissions();
+  const { source } = useSimulation();
+  const [screen, setScreen] = useState<Screen>('navigation');
+  const [arrowError, setArrowError] = useState<AppError | null>(null);
+  const [arrowKey, setArrowKey] = useState(0);
+  const [dismissedError, setDismissedError] = useState<AppError | null>(null);
+
+  // Lets a simulator without GPS or sensors reach the data source switch
+  const openDevMenu = __DEV__ ? () => setScreen('devmenu') : undefined;
 
-  // Show loading screen while initializing
-  if (!isLocationPermissionGranted || !isSensorActive) {
-    if (error) {
-      return <ErrorDisplay message={error} />;
+  const handleErrorAction = (appError: AppError) => {
+    if (appError.severity === 'warning') {
+      setDismissedError(appError);
     }
-    return <LoadingScreen message="Initializing sensors and location..." />;
+    if (appError.code === 'gl-context-failed') {
+      // A fresh GL view gets a fresh context
+      setArrowError(null);
+      setArrowKey((key) => key + 1);
+    } else {
+      recover(appError);
+    }
+  };
+
+  // Non-fatal errors show over the working UI until acted on or dismissed
+  const warning = error?.severity === 'warning' ? error : arrowError;
+  const banner =
+    warning && warning !== dismissedError ? (
+      <ErrorBanner
+        error={warning}
+        onAction={handleErrorAction}
+        onDismiss={() => setDismissedError(warning)}
+      />
+    ) : null;
+
+  if (screen === 'destinations') {
+    return (
+      <DestinationsScreen
+        onClose={() => setScreen('navigation')}
+        onShowRoutes={() => setScreen('routes')}
+        onShowImport={() => setScreen('import')}
+      />
+    );
+  }
+
+  if (screen === 'routes') {
+    return <RoutesScreen onClose={() => setScreen('navigation')} />;
+  }
+
+  if (screen === 'import') {
+    return <ImportScreen onClose={() => setScreen('destinations')} />;
+  }
+
+  if (screen === 'settings') {
+    return (
+      <SettingsScreen
+        onClose={() => setScreen('navigation')}
+        onOpenCalibration={() => setScreen('calibration')}
+        onOpenRecordings={() => setScreen('recordings')}
+        onOpenDevMenu={() => setScreen('devmenu')}
+      />
+    );
+  }
+
+  if (screen === 'calibration') {
+    return <CalibrationScreen onClose={() => setScreen('settings')} />;
+  }
+
+  if (screen === 'tracks') {
+    return <TracksScreen onClose={() => setScreen('navigation')} />;
   }
 
-  // Show error if something went wrong
-  if (error) {
-    return <ErrorDisplay message={error} />;
+  if (screen === 'recordings') {
+    return <RecordingsScreen onClose={() => setScreen('settings')} />;
+  }
+
+  if (screen === 'devmenu') {
+    return <DevMenuScreen onClose={() => setScreen('navigation')} />;
+  }
+
+  // Explain permissions before the system asks; simulated sources need none.
+  // Motion only has to be answered, since the GPS course can stand in for it.
+  const needsOnboarding =
+    source === 'device' &&
+    (permissions.location !== PermissionStatus.GRANTED ||
+      permissions.motion === PermissionStatus.UNDETERMINED ||
+      permissions.motion === PermissionStatus.PENDING);
+  if (needsOnboarding) {
+    if (!isChecked) {
+      return <LoadingScreen message="Checking permissions..." onOpenDevMenu={openDevMenu} />;
+    }
+    return <OnboardingScreen onOpenDevMenu={openDevMenu} />;
+  }
+
+  // Only fatal errors replace the whole UI
+  if (error?.severity === 'fatal') {
+    return <ErrorDisplay error={error} onAction={handleErrorAction} onOpenDevMenu={openDevMenu} />;
+  }
+
+  // Show loading screen while initializing; a sensor warning means going on without them
+  if (!isLocationPermissionGranted || (!isSensorActive && !error)) {
+    return (
+      <LoadingScreen message="Initializing sensors and location..." onOpenDevMenu={openDevMenu} />
+    );
   }
 
   // Show loading if we don't have location yet
   if (!navigationData.userLocation) {
-    return <LoadingScreen message="Acquiring location..." />;
+    return (
+      <View style={styles.container}>
+        <LoadingScreen message="Acquiring location..." onOpenDevMenu={openDevMenu} />
+        {banner}
+      </View>
+    );
+  }
+
+  if (arrival) {
+    return (
+      <ArrivalScreen
+        arrival={arrival}
+        navigationData={navigationData}
+        tripStats={tripStats}
+        onDismiss={dismissArrival}
+      />
+    );
   }
 
   return (
@@ -42,16 +188,30 @@ export default function App() {
         {/* 3D Arrow Visualization */}
         <View style={styles.arrowContainer}>
           <Arrow3D
+            key={arrowKey}
             relativeAngle={navigationData.relativeAngle}
             distance={navigationData.distance}
+            headingUncertainty={
+              navigationData.headingSource === 'course' ? null : navigationData.headingUncertainty
+            }
+            onError={(err) => setArrowError(createAppError('gl-context-failed', err))}
           />
         </View>
 
         {/* Navigation Information */}
         <ScrollView style={styles.infoContainer}>
-          <NavigationInfo navigationData={navigationData} />
+          <NavigationInfo
+            navigationData={navigationData}
+            tripStats={tripStats}
+            onResetTrip={resetTrip}
+            onChangeDestination={() => setScreen('destinations')}
+            onOpenSettings={() => setScreen('settings')}
+            onOpenTracks={() => setScreen('tracks')}
+          />
         </ScrollView>
       </View>
+
+      {banner}
     </View>
   );
 }
@@ -0,0 +1,113 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { NavigationData, ProximityEvent, TripStats } from '../types';
+import { useSettings } from '../hooks/useSettings';
+import { formatDistance, formatDuration } from '../utils/units';
+
+interface ArrivalScreenProps {
+  arrival: ProximityEvent;
+  navigationData: NavigationData;
+  tripStats?: TripStats;
+  onDismiss: () => void;
+}
+
+export function ArrivalScreen({
+  arrival,
+  navigationData,
+  tripStats,
+  onDismiss,
+}: ArrivalScreenProps) {
+  const { settings } = useSettings();
+  const { destination, route } = navigationData;
+  const name = route ? route.name : (destination?.name ?? 'your destination');
+  const icon = route ? '🏁' : (destination?.icon ?? '🎯');
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.icon}>{icon}</Text>
+      <Text style={styles.title}>You have arrived</Text>
+      <Text style={styles.name}>{name}</Text>
+      <Text style={styles.detail}>
+        Within {formatDistance(arrival.radius, settings.distanceUnits)} ·{' '}
+        {new Date(arrival.timestamp).toLocaleTimeString()}
+      </Text>
+
+      {tripStats && (
+        <View style={styles.card}>
+          <Text style={styles.label}>Trip</Text>
+          <Text style={styles.value}>
+            {formatDistance(tripStats.distanceTraveled, settings.distanceUnits)}
+          </Text>
+          <Text style={styles.detail}>in {formatDuration(tripStats.elapsedTime)}</Text>
+        </View>
+      )}
+
+      <TouchableOpacity style={styles.button} onPress={onDismiss}>
+        <Text style={styles.buttonText}>Done</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#1a1a2e',
+    padding: 20,
+    gap: 12,
+  },
+  icon: {
+    fontSize: 64,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#00ff88',
+  },
+  name: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#00d4ff',
+    textAlign: 'center',
+  },
+  detail: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  card: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    marginTop: 12,
+  },
+  label: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginBottom: 4,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  value: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  button: {
+    backgroundColor: '#00d4ff',
+    paddingHorizontal: 48,
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 12,
+  },
+  buttonText: {
+    color: '#1a1a2e',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
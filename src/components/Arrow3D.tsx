@@ -1,30 +1,55 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import { GLView } from 'expo-gl';
 import { Renderer, THREE } from 'expo-three';
-import { StyleSheet } from 'react-native';
+import { StyleSheet, Text, View } from 'react-native';
 
 interface Arrow3DProps {
   relativeAngle: number | null;
   distance: number | null;
+  headingUncertainty?: number | null; // one-sigma degrees
+  onError?: (error: unknown) => void; // the GL context or scene failed to start
 }
 
-export function Arrow3D({ relativeAngle, distance }: Arrow3DProps) {
+// Cone covers ±2 sigma (~95%) of the heading uncertainty
+const CONE_SIGMAS = 2;
+const CONE_RADIUS = 2.6;
+
+export function Arrow3D({
+  relativeAngle,
+  distance,
+  headingUncertainty = null,
+  onError,
+}: Arrow3DProps) {
   const rendererRef = useRef<any>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const arrowRef = useRef<THREE.Group | null>(null);
   const animationFrameRef = useRef<number | null>(null);
+  const [failed, setFailed] = useState(false);
 
 
   const relativeAngleRef = useRef(relativeAngle);
   const distanceRef = useRef(distance);
+  const uncertaintyRef = useRef(headingUncertainty);
 
   useEffect(() => {
     relativeAngleRef.current = relativeAngle;
     distanceRef.current = distance;
-  }, [relativeAngle, distance]);
+    uncertaintyRef.current = headingUncertainty;
+  }, [relativeAngle, distance, headingUncertainty]);
 
+  // A scene that fails to start leaves a flat arrow in its place
   const onContextCreate = async (gl: any) => {
+    try {
+      await createScene(gl);
+    } catch (error) {
+      console.error('Error creating 3D arrow:', error);
+      setFailed(true);
+      onError?.(error);
+    }
+  };
+
+  const createScene = async (gl: any) => {
     // Create renderer
     const renderer = new Renderer({ gl });
     renderer.setSize(gl.drawingBufferWidth, gl.drawingBufferHeight);
@@ -91,6 +116,19 @@ export function Arrow3D({ relativeAngle, distance }: Arrow3DProps) {
     base.rotation.x = -Math.PI / 2;
     arrowGroup.add(base);
 
+    // Create heading-uncertainty cone (flat wedge around the arrow)
+    const coneMaterial = new THREE.MeshBasicMaterial({
+      color: 0x00d4ff,
+      transparent: true,
+      opacity: 0.15,
+      side: THREE.DoubleSide,
+    });
+    const cone = new THREE.Mesh(new THREE.BufferGeometry(), coneMaterial);
+    cone.position.z = -0.01;
+    cone.visible = false;
+    arrowGroup.add(cone);
+    let coneHalfAngle = -1;
+
     // Rotate arrow to point upward initially
     arrowGroup.rotation.z = 0;
 
@@ -116,6 +154,26 @@ export function Arrow3D({ relativeAngle, distance }: Arrow3DProps) {
         arrowRef.current.rotation.z += adjustedDiff * 0.1; // Smooth interpolation
       }
 
+      // Resize the uncertainty cone when the estimate changes noticeably
+      const uncertainty = uncertaintyRef.current;
+      if (uncertainty === null || uncertainty === undefined) {
+        cone.visible = false;
+      } else {
+        const halfAngle = Math.min(90, CONE_SIGMAS * uncertainty);
+        if (Math.abs(halfAngle - coneHalfAngle) > 0.5) {
+          const halfRad = (halfAngle * Math.PI) / 180;
+          cone.geometry.dispose();
+          cone.geometry = new THREE.CircleGeometry(
+            CONE_RADIUS,
+            32,
+            Math.PI / 2 - halfRad,
+            2 * halfRad
+          );
+          coneHalfAngle = halfAngle;
+        }
+        cone.visible = true;
+      }
+
       // Pulse effect based on distance
       if (arrowRef.current && distanceRef.current !== null) {
         const scale = 1 + Math.sin(Date.now() * 0.003) * 0.05;
@@ -138,6 +196,18 @@ export function Arrow3D({ relativeAngle, distance }: Arrow3DProps) {
     };
   }, []);
 
+  if (failed) {
+    return (
+      <View style={styles.fallback}>
+        <Text
+          style={[styles.fallbackArrow, { transform: [{ rotate: `${relativeAngle ?? 0}deg` }] }]}
+        >
+          ↑
+        </Text>
+      </View>
+    );
+  }
+
   return (
     <GLView
       style={styles.glView}
@@ -152,4 +222,14 @@ const styles = StyleSheet.create({
     width: '100%',
     height: '100%',
   },
+  fallback: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  fallbackArrow: {
+    fontSize: 160,
+    fontWeight: 'bold',
+    color: '#00d4ff',
+  },
 });
@@ -0,0 +1,275 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { CalibrationProgress, MagnetometerCalibration } from '../types';
+import { CalibrationService } from '../services/CalibrationService';
+import { SensorService } from '../services/SensorService';
+import { COVERAGE_BANDS, COVERAGE_SECTORS } from '../utils/magnetometerCalibration';
+
+interface CalibrationScreenProps {
+  onClose: () => void;
+}
+
+function qualityLabel(quality: number): string {
+  if (quality >= 80) return 'Good';
+  if (quality >= 50) return 'Fair';
+  return 'Poor';
+}
+
+export function CalibrationScreen({ onClose }: CalibrationScreenProps) {
+  const calibrationService = CalibrationService.getInstance();
+  const [progress, setProgress] = useState<CalibrationProgress | null>(null);
+  const [result, setResult] = useState<MagnetometerCalibration | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [current, setCurrent] = useState(() =>
+    SensorService.getInstance().getMagnetometerCalibration()
+  );
+
+  useEffect(() => {
+    const unsubscribe = calibrationService.addListener(setProgress);
+
+    // Never leave the magnetometer capturing after leaving the screen
+    return () => {
+      unsubscribe();
+      calibrationService.stopCollection();
+    };
+  }, [calibrationService]);
+
+  const start = () => {
+    setResult(null);
+    setFailed(false);
+    calibrationService.startCollection();
+  };
+
+  const finish = () => {
+    const calibration = calibrationService.finishCollection();
+    setProgress(null);
+    setResult(calibration);
+    setFailed(calibration === null);
+  };
+
+  const save = async () => {
+    if (!result) return;
+    await calibrationService.saveCalibration(result);
+    setCurrent(result);
+    setResult(null);
+  };
+
+  const clear = async () => {
+    await calibrationService.clearCalibration();
+    setCurrent(null);
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.row}>
+        <Text style={styles.heading}>Compass Calibration</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.linkText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.label}>Current Calibration</Text>
+        {current ? (
+          <>
+            <Text style={styles.value}>
+              {qualityLabel(current.quality)} ({current.quality}/100)
+            </Text>
+            <Text style={styles.subValue}>
+              Saved {new Date(current.createdAt).toLocaleDateString()}
+            </Text>
+            <TouchableOpacity onPress={clear}>
+              <Text style={styles.deleteText}>Remove calibration</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <Text style={styles.subValue}>Not calibrated</Text>
+        )}
+      </View>
+
+      {progress ? (
+        <View style={styles.card}>
+          <Text style={styles.label}>Rotate your phone in a figure-8</Text>
+          <Text style={styles.subValue}>
+            Tilt and turn it so the top, sides and screen face every direction.
+          </Text>
+
+          <View style={styles.grid}>
+            {Array.from({ length: COVERAGE_BANDS }, (_, band) => (
+              <View key={band} style={styles.gridRow}>
+                {Array.from({ length: COVERAGE_SECTORS }, (_, sector) => (
+                  <View
+                    key={sector}
+                    style={[
+                      styles.gridCell,
+                      progress.coverage[band * COVERAGE_SECTORS + sector] &&
+                        styles.gridCellHit,
+                    ]}
+                  />
+                ))}
+              </View>
+            ))}
+          </View>
+
+          <Text style={styles.subValue}>
+            {progress.sampleCount} samples,{' '}
+            {Math.round(
+              (100 * progress.coverage.filter(Boolean).length) / progress.coverage.length
+            )}
+            % coverage
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.primaryButton, !progress.canFinish && styles.buttonDisabled]}
+            onPress={finish}
+            disabled={!progress.canFinish}
+          >
+            <Text style={styles.primaryButtonText}>Finish</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <TouchableOpacity style={styles.primaryButton} onPress={start}>
+          <Text style={styles.primaryButtonText}>Start Calibration</Text>
+        </TouchableOpacity>
+      )}
+
+      {result && (
+        <View style={styles.card}>
+          <Text style={styles.label}>Result</Text>
+          <Text style={styles.value}>
+            {qualityLabel(result.quality)} ({result.quality}/100)
+          </Text>
+          <Text style={styles.subValue}>
+            Fit error {(result.residual * 100).toFixed(1)}%, coverage{' '}
+            {Math.round(result.coverage * 100)}%
+          </Text>
+          <Text style={styles.subValue}>
+            Hard-iron bias ({result.hardIron.x.toFixed(1)}, {result.hardIron.y.toFixed(1)},{' '}
+            {result.hardIron.z.toFixed(1)}) µT
+          </Text>
+          <View style={styles.row}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => setResult(null)}>
+              <Text style={styles.secondaryButtonText}>Discard</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.primaryButton} onPress={save}>
+              <Text style={styles.primaryButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {failed && (
+        <Text style={styles.errorText}>
+          Calibration failed. Keep away from metal objects and try again with wider movements.
+        </Text>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a2e',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+    gap: 12,
+  },
+  heading: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    gap: 6,
+  },
+  label: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  value: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  subValue: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+  grid: {
+    alignSelf: 'center',
+    gap: 3,
+    marginVertical: 8,
+  },
+  gridRow: {
+    flexDirection: 'row',
+    gap: 3,
+  },
+  gridCell: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  gridCellHit: {
+    backgroundColor: '#00ff88',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ff4444',
+  },
+  linkText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#00d4ff',
+  },
+  deleteText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ff4444',
+    marginTop: 4,
+  },
+  primaryButton: {
+    backgroundColor: '#00d4ff',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#1a1a2e',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  secondaryButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  secondaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
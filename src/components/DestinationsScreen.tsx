@@ -0,0 +1,323 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { Coordinates, Destination, DestinationInput } from '../types';
+import { useDestinations } from '../hooks/useDestinations';
+import { useSettings } from '../hooks/useSettings';
+import { LocationService } from '../services/LocationService';
+import { formatCoordinates, parseCoordinates } from '../utils/coordinates';
+
+interface DestinationsScreenProps {
+  onClose: () => void;
+  onShowRoutes: () => void;
+  onShowImport: () => void;
+}
+
+interface DestinationForm {
+  name: string;
+  description: string;
+  coordinates: string;
+  icon: string;
+}
+
+const EMPTY_FORM: DestinationForm = {
+  name: '',
+  description: '',
+  coordinates: '',
+  icon: '📍',
+};
+
+/**
+ * Validate the edit form and convert it to a destination
+ * @param reference Current location, used to resolve short Plus Codes
+ * @returns The destination input, or an error message
+ */
+function parseForm(form: DestinationForm, reference?: Coordinates): DestinationInput | string {
+  if (!form.name.trim()) {
+    return 'Name is required';
+  }
+
+  const coordinates = parseCoordinates(form.coordinates, undefined, reference);
+  if (typeof coordinates === 'string') {
+    return coordinates;
+  }
+
+  return {
+    name: form.name.trim(),
+    description: form.description.trim(),
+    coordinates,
+    icon: form.icon.trim() || EMPTY_FORM.icon,
+  };
+}
+
+export function DestinationsScreen({
+  onClose,
+  onShowRoutes,
+  onShowImport,
+}: DestinationsScreenProps) {
+  const {
+    destinations,
+    activeDestination,
+    addDestination,
+    updateDestination,
+    removeDestination,
+    selectDestination,
+  } = useDestinations();
+  const { settings } = useSettings();
+
+  // null = list view, 'new' = adding, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<DestinationForm>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const startEditing = (destination: Destination | null) => {
+    setFormError(null);
+    if (destination) {
+      setEditingId(destination.id);
+      setForm({
+        name: destination.name,
+        description: destination.description,
+        // Full precision so saving without changes does not move the destination
+        coordinates: `${destination.coordinates.latitude}, ${destination.coordinates.longitude}`,
+        icon: destination.icon,
+      });
+    } else {
+      setEditingId('new');
+      setForm(EMPTY_FORM);
+    }
+  };
+
+  const saveForm = async () => {
+    const result = parseForm(
+      form,
+      LocationService.getInstance().getLastKnownLocation() ?? undefined
+    );
+    if (typeof result === 'string') {
+      setFormError(result);
+      return;
+    }
+
+    if (editingId === 'new') {
+      await addDestination(result);
+    } else if (editingId) {
+      await updateDestination(editingId, result);
+    }
+    setEditingId(null);
+  };
+
+  const selectAndClose = async (id: string) => {
+    await selectDestination(id);
+    onClose();
+  };
+
+  if (editingId) {
+    const fields: { key: keyof DestinationForm; label: string; placeholder?: string }[] = [
+      { key: 'icon', label: 'Icon' },
+      { key: 'name', label: 'Name' },
+      { key: 'description', label: 'Description' },
+      {
+        key: 'coordinates',
+        label: 'Coordinates',
+        placeholder: 'Lat/lon, DMS, UTM, MGRS, geohash or Plus Code',
+      },
+    ];
+
+    return (
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        <Text style={styles.heading}>
+          {editingId === 'new' ? 'New Destination' : 'Edit Destination'}
+        </Text>
+
+        {fields.map(({ key, label, placeholder }) => (
+          <View key={key} style={styles.field}>
+            <Text style={styles.label}>{label}</Text>
+            <TextInput
+              style={styles.input}
+              value={form[key]}
+              onChangeText={(text) => setForm((prev) => ({ ...prev, [key]: text }))}
+              placeholder={placeholder}
+              autoCapitalize={key === 'coordinates' ? 'characters' : 'sentences'}
+              autoCorrect={key !== 'coordinates'}
+              placeholderTextColor="rgba(255, 255, 255, 0.3)"
+            />
+          </View>
+        ))}
+
+        {formError && <Text style={styles.errorText}>{formError}</Text>}
+
+        <View style={styles.row}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => setEditingId(null)}>
+            <Text style={styles.secondaryButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.primaryButton} onPress={saveForm}>
+            <Text style={styles.primaryButtonText}>Save</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.row}>
+        <Text style={styles.heading}>Destinations</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.linkText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+
+      {destinations.map((destination) => {
+        const isActive = destination.id === activeDestination?.id;
+        return (
+          <TouchableOpacity
+            key={destination.id}
+            style={[styles.card, isActive && styles.cardActive]}
+            onPress={() => selectAndClose(destination.id)}
+          >
+            <Text style={styles.title}>
+              {destination.icon} {destination.name}
+            </Text>
+            {!!destination.description && (
+              <Text style={styles.subtitle}>{destination.description}</Text>
+            )}
+            <Text style={styles.coordinates}>
+              {formatCoordinates(destination.coordinates, settings.coordinateFormat)}
+            </Text>
+            <View style={styles.row}>
+              <TouchableOpacity onPress={() => startEditing(destination)}>
+                <Text style={styles.linkText}>Edit</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => removeDestination(destination.id)}>
+                <Text style={styles.deleteText}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+
+      <TouchableOpacity style={styles.primaryButton} onPress={() => startEditing(null)}>
+        <Text style={styles.primaryButtonText}>+ Add Destination</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.secondaryButton} onPress={onShowRoutes}>
+        <Text style={styles.secondaryButtonText}>Multi-stop routes</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.secondaryButton} onPress={onShowImport}>
+        <Text style={styles.secondaryButtonText}>Import GPX / KML / GeoJSON</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a2e',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+    gap: 12,
+  },
+  heading: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  cardActive: {
+    borderColor: '#00d4ff',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#00d4ff',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  coordinates: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: 4,
+  },
+  field: {
+    gap: 4,
+  },
+  label: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  input: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#ffffff',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ff4444',
+  },
+  linkText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#00d4ff',
+  },
+  deleteText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ff4444',
+  },
+  primaryButton: {
+    backgroundColor: '#00d4ff',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#1a1a2e',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  secondaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
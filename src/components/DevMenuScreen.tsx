@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Switch } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { DataSourceKind } from '../types';
+import { useSimulation } from '../hooks/useSimulation';
+import { OptionRow } from './OptionRow';
+import { formatDuration } from '../utils/units';
+
+// Walking, jogging, cycling and driving speeds in m/s
+const WALK_SPEED_PRESETS = [
+  { value: '1.4', label: 'Walk' },
+  { value: '3', label: 'Jog' },
+  { value: '6', label: 'Cycle' },
+  { value: '15', label: 'Drive' },
+];
+
+// Position sigma in meters and heading sigma in degrees
+const NOISE_PRESETS = [
+  { label: 'None', positionNoise: 0, headingNoise: 0 },
+  { label: 'Low', positionNoise: 3, headingNoise: 5 },
+  { label: 'High', positionNoise: 10, headingNoise: 15 },
+];
+
+interface DevMenuScreenProps {
+  onClose: () => void;
+}
+
+export function DevMenuScreen({ onClose }: DevMenuScreenProps) {
+  const { source, session, options, setSource, loadSession, updateOptions } = useSimulation();
+  const [error, setError] = useState<string | null>(null);
+
+  const chooseSource = async (kind: DataSourceKind) => {
+    setError(await setSource(kind));
+  };
+
+  const chooseSession = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+
+      const asset = result.assets[0];
+      const content = await new File(asset.uri).text();
+      const loaded = loadSession(content, asset.name);
+      setError(typeof loaded === 'string' ? loaded : null);
+    } catch (err) {
+      console.error('Error reading session file:', err);
+      setError('Could not read the file');
+    }
+  };
+
+  const noise =
+    NOISE_PRESETS.find(
+      (preset) =>
+        preset.positionNoise === options.positionNoise &&
+        preset.headingNoise === options.headingNoise
+    )?.label ?? 'Custom';
+
+  const sessionDuration = session
+    ? Math.max(
+        session.fixes[session.fixes.length - 1]?.timestamp ?? 0,
+        session.orientation[session.orientation.length - 1]?.timestamp ?? 0
+      ) -
+      Math.min(
+        session.fixes[0]?.timestamp ?? Infinity,
+        session.orientation[0]?.timestamp ?? Infinity
+      )
+    : 0;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.row}>
+        <Text style={styles.heading}>Developer</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.linkText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+
+      <OptionRow
+        label="Data Source"
+        description="Where location and compass heading come from. Everything downstream (filters, guidance, alerts) runs as usual."
+        options={[
+          { value: 'device', label: 'Device' },
+          { value: 'replay', label: 'Replay' },
+          { value: 'walk', label: 'Scripted Walk' },
+        ]}
+        value={source}
+        onChange={chooseSource}
+      />
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <Text style={styles.sectionTitle}>Replay</Text>
+
+      <View style={styles.card}>
+        <Text style={styles.label}>Session</Text>
+        {session ? (
+          <>
+            <Text style={styles.title}>{session.name}</Text>
+            <Text style={styles.description}>
+              {session.fixes.length} fixes · {session.orientation.length} orientation samples ·{' '}
+              {formatDuration(sessionDuration / 1000)}
+            </Text>
+          </>
+        ) : (
+          <Text style={styles.description}>
+            A JSON or CSV recording with location fixes and orientation samples.
+          </Text>
+        )}
+        <TouchableOpacity style={styles.secondaryButton} onPress={chooseSession}>
+          <Text style={styles.secondaryButtonText}>
+            {session ? 'Choose Another Session' : 'Choose Session'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <OptionRow
+        label="Playback Speed"
+        options={[
+          { value: '1', label: '1×' },
+          { value: '2', label: '2×' },
+          { value: '5', label: '5×' },
+          { value: '10', label: '10×' },
+        ]}
+        value={String(options.playbackSpeed)}
+        onChange={(value) => updateOptions({ playbackSpeed: Number(value) })}
+      />
+
+      <View style={[styles.card, styles.row]}>
+        <Text style={styles.label}>Loop</Text>
+        <Switch value={options.loop} onValueChange={(loop) => updateOptions({ loop })} />
+      </View>
+
+      <Text style={styles.sectionTitle}>Scripted Walk</Text>
+
+      <OptionRow
+        label="Speed"
+        description="Walks from the current position (or 500 m away) through the active route or to the destination."
+        options={WALK_SPEED_PRESETS}
+        value={String(options.walkSpeed)}
+        onChange={(value) => updateOptions({ walkSpeed: Number(value) })}
+      />
+
+      <OptionRow
+        label="Noise"
+        description={`GPS ±${options.positionNoise} m, compass ±${options.headingNoise}° (one sigma).`}
+        options={NOISE_PRESETS.map((preset) => ({ value: preset.label, label: preset.label }))}
+        value={noise}
+        onChange={(value) => {
+          const preset = NOISE_PRESETS.find((candidate) => candidate.label === value);
+          if (preset) {
+            updateOptions({
+              positionNoise: preset.positionNoise,
+              headingNoise: preset.headingNoise,
+            });
+          }
+        }}
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a2e',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+    gap: 12,
+  },
+  heading: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginTop: 8,
+  },
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  label: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginBottom: 4,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  description: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginBottom: 8,
+  },
+  secondaryButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  secondaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ff4444',
+  },
+  linkText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#00d4ff',
+  },
+});
@@ -0,0 +1,63 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { AppError } from '../types';
+
+interface ErrorBannerProps {
+  error: AppError;
+  onAction: (error: AppError) => void; // carries out error.action
+  onDismiss: () => void;
+}
+
+/**
+ * Shows a non-fatal error across the top of a screen that keeps working underneath
+ */
+export function ErrorBanner({ error, onAction, onDismiss }: ErrorBannerProps) {
+  return (
+    <View style={styles.banner}>
+      <Text style={styles.message}>⚠️ {error.message}</Text>
+      <View style={styles.actions}>
+        <TouchableOpacity onPress={() => onAction(error)}>
+          <Text style={styles.actionText}>{error.actionLabel}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onDismiss}>
+          <Text style={styles.dismissText}>Dismiss</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    position: 'absolute',
+    top: 50,
+    left: 12,
+    right: 12,
+    backgroundColor: 'rgba(40, 30, 10, 0.95)',
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#ffaa00',
+  },
+  message: {
+    fontSize: 14,
+    color: '#ffffff',
+    lineHeight: 20,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 20,
+    marginTop: 8,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffaa00',
+  },
+  dismissText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+});
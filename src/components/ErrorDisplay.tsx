@@ -1,21 +1,29 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { AppError } from '../types';
 
 interface ErrorDisplayProps {
-  message: string;
-  onRetry?: () => void;
+  error: AppError;
+  onAction?: (error: AppError) => void; // carries out error.action
+  onOpenDevMenu?: () => void;
 }
 
-export function ErrorDisplay({ message, onRetry }: ErrorDisplayProps) {
+export function ErrorDisplay({ error, onAction, onOpenDevMenu }: ErrorDisplayProps) {
   return (
     <View style={styles.container}>
       <View style={styles.card}>
         <Text style={styles.icon}>⚠️</Text>
         <Text style={styles.title}>Error</Text>
-        <Text style={styles.message}>{message}</Text>
-        {onRetry && (
-          <TouchableOpacity style={styles.button} onPress={onRetry}>
-            <Text style={styles.buttonText}>Retry</Text>
+        <Text style={styles.message}>{error.message}</Text>
+        {error.detail && <Text style={styles.detail}>{error.detail}</Text>}
+        {onAction && (
+          <TouchableOpacity style={styles.button} onPress={() => onAction(error)}>
+            <Text style={styles.buttonText}>{error.actionLabel}</Text>
+          </TouchableOpacity>
+        )}
+        {onOpenDevMenu && (
+          <TouchableOpacity style={styles.devMenu} onPress={onOpenDevMenu}>
+            <Text style={styles.linkText}>Developer Menu</Text>
           </TouchableOpacity>
         )}
       </View>
@@ -56,6 +64,12 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     lineHeight: 20,
   },
+  detail: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
   button: {
     backgroundColor: '#ff4444',
     paddingHorizontal: 24,
@@ -68,4 +82,12 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  devMenu: {
+    marginTop: 16,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#00d4ff',
+  },
 });
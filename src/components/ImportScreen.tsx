@@ -0,0 +1,254 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { ImportPreview } from '../types';
+import { useDestinations } from '../hooks/useDestinations';
+import { useSettings } from '../hooks/useSettings';
+import { formatCoordinates } from '../utils/coordinates';
+import { parseImportFile } from '../utils/importers';
+
+const FORMAT_LABELS: Record<ImportPreview['format'], string> = {
+  gpx: 'GPX',
+  kml: 'KML',
+  geojson: 'GeoJSON',
+};
+
+interface ImportScreenProps {
+  onClose: () => void;
+}
+
+export function ImportScreen({ onClose }: ImportScreenProps) {
+  const { importItems } = useDestinations();
+  const { settings } = useSettings();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const chooseFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+
+      const asset = result.assets[0];
+      const content = await new File(asset.uri).text();
+      const parsed = parseImportFile(content, asset.name);
+
+      setFileName(asset.name);
+      if (typeof parsed === 'string') {
+        setPreview(null);
+        setError(parsed);
+      } else {
+        setPreview(parsed);
+        setError(null);
+      }
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setPreview(null);
+      setError('Could not read the file');
+    }
+  };
+
+  const itemCount = preview ? preview.destinations.length + preview.routes.length : 0;
+
+  const confirmImport = async () => {
+    if (!preview || itemCount === 0) return;
+
+    setIsImporting(true);
+    await importItems(preview.destinations, preview.routes);
+    setIsImporting(false);
+    onClose();
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.row}>
+        <Text style={styles.heading}>Import</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.linkText}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.subtitle}>
+        Add waypoints and routes from a GPX, KML or GeoJSON file. You can review
+        everything before it is saved.
+      </Text>
+
+      <TouchableOpacity style={styles.secondaryButton} onPress={chooseFile}>
+        <Text style={styles.secondaryButtonText}>
+          {fileName ? 'Choose Another File' : 'Choose File'}
+        </Text>
+      </TouchableOpacity>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {preview && (
+        <>
+          <Text style={styles.label}>
+            {fileName} · {FORMAT_LABELS[preview.format]}
+          </Text>
+
+          {preview.destinations.length > 0 && (
+            <Text style={styles.sectionTitle}>Destinations ({preview.destinations.length})</Text>
+          )}
+          {preview.destinations.map((destination, index) => (
+            <View key={`destination-${index}`} style={styles.card}>
+              <Text style={styles.title}>
+                {destination.icon} {destination.name}
+              </Text>
+              {destination.description !== '' && (
+                <Text style={styles.subtitle}>{destination.description}</Text>
+              )}
+              <Text style={styles.meta}>
+                {formatCoordinates(destination.coordinates, settings.coordinateFormat)}
+              </Text>
+            </View>
+          ))}
+
+          {preview.routes.length > 0 && (
+            <Text style={styles.sectionTitle}>Routes ({preview.routes.length})</Text>
+          )}
+          {preview.routes.map((route, index) => (
+            <View key={`route-${index}`} style={styles.card}>
+              <Text style={styles.title}>{route.name}</Text>
+              <Text style={styles.subtitle}>
+                {route.waypoints.length} waypoints: {route.waypoints[0].name} →{' '}
+                {route.waypoints[route.waypoints.length - 1].name}
+              </Text>
+            </View>
+          ))}
+
+          {preview.issues.length > 0 && (
+            <View style={[styles.card, styles.cardWarning]}>
+              <Text style={styles.warningTitle}>
+                {preview.issues.length === 1 ? '1 problem' : `${preview.issues.length} problems`}
+              </Text>
+              {preview.issues.map((issue, index) => (
+                <Text key={index} style={styles.subtitle}>
+                  {issue.feature}: {issue.message}
+                </Text>
+              ))}
+            </View>
+          )}
+
+          {itemCount === 0 ? (
+            <Text style={styles.subtitle}>Nothing in this file can be imported.</Text>
+          ) : (
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={confirmImport}
+              disabled={isImporting}
+            >
+              <Text style={styles.primaryButtonText}>
+                {itemCount === 1 ? 'Import 1 item' : `Import ${itemCount} items`}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a2e',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+    gap: 12,
+  },
+  heading: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginTop: 8,
+  },
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  cardWarning: {
+    borderColor: '#ffaa00',
+    gap: 4,
+  },
+  label: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#00d4ff',
+    marginBottom: 4,
+  },
+  warningTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffaa00',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  meta: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: 4,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ff4444',
+  },
+  linkText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#00d4ff',
+  },
+  primaryButton: {
+    backgroundColor: '#00d4ff',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#1a1a2e',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  secondaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,15 +1,21 @@
 import React from 'react';
-import { View, Text, ActivityIndicator, StyleSheet } from 'react-native';
+import { View, Text, ActivityIndicator, StyleSheet, TouchableOpacity } from 'react-native';
 
 interface LoadingScreenProps {
   message?: string;
+  onOpenDevMenu?: () => void;
 }
 
-export function LoadingScreen({ message = 'Initializing...' }: LoadingScreenProps) {
+export function LoadingScreen({ message = 'Initializing...', onOpenDevMenu }: LoadingScreenProps) {
   return (
     <View style={styles.container}>
       <ActivityIndicator size="large" color="#00d4ff" />
       <Text style={styles.text}>{message}</Text>
+      {onOpenDevMenu && (
+        <TouchableOpacity style={styles.devMenu} onPress={onOpenDevMenu}>
+          <Text style={styles.linkText}>Developer Menu</Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 }
@@ -26,4 +32,12 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: 'rgba(255, 255, 255, 0.7)',
   },
+  devMenu: {
+    marginTop: 32,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#00d4ff',
+  },
 });
@@ -1,14 +1,73 @@
 import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
-import { NavigationData } from '../types';
-import { formatDistance } from '../utils/geolocation';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { HeadingSource, NavigationData, TripStats } from '../types';
+import {
+  formatAngle,
+  formatDistance,
+  formatDistanceExact,
+  formatDuration,
+  formatSpeed,
+} from '../utils/units';
+import { COORDINATE_FORMAT_LABELS, formatCoordinates } from '../utils/coordinates';
+import { useSettings } from '../hooks/useSettings';
+import { useBreadcrumbs } from '../hooks/useBreadcrumbs';
+
+/**
+ * Describe how old a location fix is
+ */
+function formatFixAge(ageMs: number): string {
+  const seconds = Math.max(0, Math.round(ageMs / 1000));
+  if (seconds < 2) return 'just now';
+  if (seconds < 60) return `${seconds}s ago`;
+  return `${Math.round(seconds / 60)}min ago`;
+}
+
+const HEADING_SOURCE_LABELS: Record<HeadingSource, string> = {
+  sensor: 'Compass',
+  course: 'GPS course',
+  blended: 'Compass + GPS course',
+};
 
 interface NavigationInfoProps {
   navigationData: NavigationData;
+  tripStats?: TripStats;
+  onResetTrip?: () => void;
+  onChangeDestination?: () => void;
+  onOpenSettings?: () => void;
+  onOpenTracks?: () => void;
 }
 
-export function NavigationInfo({ navigationData }: NavigationInfoProps) {
-  const { distance, bearing, deviceHeading, relativeAngle } = navigationData;
+export function NavigationInfo({
+  navigationData,
+  tripStats,
+  onResetTrip,
+  onChangeDestination,
+  onOpenSettings,
+  onOpenTracks,
+}: NavigationInfoProps) {
+  const {
+    userLocation,
+    destination,
+    route,
+    currentLegIndex,
+    targetLocation,
+    distance,
+    remainingRouteDistance,
+    bearing,
+    deviceHeading,
+    headingSource,
+    headingUncertainty,
+    relativeAngle,
+    declination,
+    northReference,
+    guidanceMode,
+  } = navigationData;
+  const { settings } = useSettings();
+  const { distanceUnits, angleUnits } = settings;
+  const breadcrumbs = useBreadcrumbs();
+  const referenceLabel = northReference === 'true' ? 'True' : 'Magnetic';
+  const currentWaypoint =
+    route && currentLegIndex !== null ? route.waypoints[currentLegIndex] : null;
 
   // Debug: Log values to console
   // React.useEffect(() => {
@@ -22,30 +81,146 @@ export function NavigationInfo({ navigationData }: NavigationInfoProps) {
 
   return (
     <View style={styles.container}>
-      <View style={styles.card}>
-        <Text style={styles.title}>Digantara Industries</Text>
-        <Text style={styles.subtitle}>Bengaluru, India</Text>
-      </View>
+      <TouchableOpacity
+        style={styles.card}
+        onPress={onChangeDestination}
+        disabled={!onChangeDestination}
+      >
+        {route ? (
+          <>
+            <Text style={styles.title}>🧭 {route.name}</Text>
+            <Text style={styles.subtitle}>
+              Next: {currentWaypoint ? currentWaypoint.name : '—'}
+            </Text>
+          </>
+        ) : (
+          <>
+            <Text style={styles.title}>
+              {destination ? `${destination.icon} ${destination.name}` : 'No destination'}
+            </Text>
+            <Text style={styles.subtitle}>
+              {destination ? destination.description : 'Add a destination to start navigating'}
+            </Text>
+          </>
+        )}
+        {onChangeDestination && (
+          <Text style={styles.changeHint}>Tap to change destination</Text>
+        )}
+      </TouchableOpacity>
+
+      {route && currentLegIndex !== null && (
+        <View style={styles.card}>
+          <Text style={styles.label}>Route Progress</Text>
+          <Text style={styles.value}>
+            Leg {currentLegIndex + 1} of {route.waypoints.length}
+          </Text>
+          <View style={styles.legTrack}>
+            {route.waypoints.map((waypoint, index) => (
+              <View
+                key={index}
+                style={[
+                  styles.legDot,
+                  index < currentLegIndex && styles.legDotDone,
+                  index === currentLegIndex && styles.legDotActive,
+                ]}
+              />
+            ))}
+          </View>
+          {remainingRouteDistance !== null && (
+            <Text style={styles.subValue}>
+              {formatDistance(remainingRouteDistance, distanceUnits)} remaining on route
+            </Text>
+          )}
+        </View>
+      )}
 
       {distance !== null && (
         <View style={styles.card}>
-          <Text style={styles.label}>Distance</Text>
-          <Text style={styles.value}>{formatDistance(distance)}</Text>
-          <Text style={styles.subValue}>({Math.round(distance)} meters)</Text>
+          <Text style={styles.label}>{route ? 'Distance to Waypoint' : 'Distance'}</Text>
+          <Text style={styles.value}>{formatDistance(distance, distanceUnits)}</Text>
+          <Text style={styles.subValue}>({formatDistanceExact(distance, distanceUnits)})</Text>
+          {userLocation && (
+            <Text style={styles.gpsHint}>
+              {userLocation.accuracy !== null
+                ? `GPS ±${formatDistance(userLocation.accuracy, distanceUnits)}`
+                : 'GPS accuracy unknown'}
+              {' · '}
+              {formatFixAge(Date.now() - userLocation.timestamp)}
+            </Text>
+          )}
+        </View>
+      )}
+
+      {(userLocation || targetLocation) && (
+        <View style={styles.card}>
+          <Text style={styles.label}>
+            Position ({COORDINATE_FORMAT_LABELS[settings.coordinateFormat]})
+          </Text>
+          {userLocation && (
+            <Text style={styles.coordinateText}>
+              You: {formatCoordinates(userLocation, settings.coordinateFormat)}
+            </Text>
+          )}
+          {targetLocation && (
+            <Text style={styles.coordinateText}>
+              Target: {formatCoordinates(targetLocation, settings.coordinateFormat)}
+            </Text>
+          )}
+        </View>
+      )}
+
+      {tripStats && (
+        <View style={styles.cardRow}>
+          <View style={[styles.card, styles.cardHalf]}>
+            <Text style={styles.label}>Speed</Text>
+            <Text style={styles.value}>
+              {tripStats.currentSpeed !== null ? formatSpeed(tripStats.currentSpeed, distanceUnits) : '--'}
+            </Text>
+            {tripStats.averageSpeed !== null && (
+              <Text style={styles.subValue}>Avg {formatSpeed(tripStats.averageSpeed, distanceUnits)}</Text>
+            )}
+          </View>
+          <View style={[styles.card, styles.cardHalf]}>
+            <Text style={styles.label}>ETA</Text>
+            <Text style={styles.value}>
+              {tripStats.eta !== null ? formatDuration(tripStats.eta) : '--'}
+            </Text>
+            {tripStats.closingSpeed !== null && (
+              <Text style={styles.subValue}>
+                {tripStats.closingSpeed >= 0 ? 'Closing' : 'Receding'}{' '}
+                {formatSpeed(Math.abs(tripStats.closingSpeed), distanceUnits)}
+              </Text>
+            )}
+          </View>
         </View>
       )}
 
       {bearing !== null && (
         <View style={styles.card}>
-          <Text style={styles.label}>Bearing to Target</Text>
-          <Text style={styles.value}>{Math.round(bearing)}°</Text>
+          <Text style={styles.label}>Bearing to Target ({referenceLabel})</Text>
+          <Text style={styles.value}>{formatAngle(bearing, angleUnits)}</Text>
+          <Text style={styles.subValue}>
+            {guidanceMode === 'rhumb' ? 'Constant bearing (rhumb line)' : 'Great circle'}
+          </Text>
         </View>
       )}
 
       {deviceHeading !== null && (
         <View style={styles.card}>
-          <Text style={styles.label}>Device Heading</Text>
-          <Text style={styles.value}>{Math.round(deviceHeading)}°</Text>
+          <Text style={styles.label}>Device Heading ({referenceLabel})</Text>
+          <Text style={styles.value}>
+            {formatAngle(deviceHeading, angleUnits)}
+            {headingUncertainty !== null && headingSource !== 'course' && (
+              <Text style={styles.subValue}> ±{formatAngle(headingUncertainty, angleUnits)}</Text>
+            )}
+          </Text>
+          <Text style={styles.subValue}>Source: {HEADING_SOURCE_LABELS[headingSource]}</Text>
+          {declination !== null && (
+            <Text style={styles.subValue}>
+              Declination {formatAngle(Math.abs(declination), angleUnits, 1)}
+              {declination >= 0 ? 'E' : 'W'}
+            </Text>
+          )}
         </View>
       )}
 
@@ -56,7 +231,7 @@ export function NavigationInfo({ navigationData }: NavigationInfoProps) {
             styles.value,
             Math.abs(relativeAngle) < 10 && styles.valueSuccess
           ]}>
-            {Math.round(relativeAngle)}°
+            {formatAngle(relativeAngle, angleUnits)}
           </Text>
           {Math.abs(relativeAngle) < 10 && (
             <Text style={styles.successText}>You're pointing at the target!</Text>
@@ -75,6 +250,91 @@ export function NavigationInfo({ navigationData }: NavigationInfoProps) {
           </Text>
         )}
       </View>
+
+      {tripStats && (
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.label}>Trip</Text>
+            {onResetTrip && (
+              <TouchableOpacity onPress={onResetTrip}>
+                <Text style={styles.linkText}>Reset</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <Text style={styles.value}>{formatDistance(tripStats.distanceTraveled, distanceUnits)}</Text>
+          <Text style={styles.subValue}>
+            traveled in {formatDuration(tripStats.elapsedTime)}
+          </Text>
+          {tripStats.closestApproach !== null && (
+            <Text style={styles.subValue}>
+              Closest approach {formatDistance(tripStats.closestApproach, distanceUnits)}
+            </Text>
+          )}
+        </View>
+      )}
+
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.label}>Breadcrumbs</Text>
+          {(breadcrumbs.mode === 'dropping' || breadcrumbs.mode === 'returning') && (
+            <TouchableOpacity onPress={breadcrumbs.clear}>
+              <Text style={styles.linkText}>Clear</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {breadcrumbs.mode === 'off' && (
+          <>
+            <Text style={styles.subValue}>Drop a trail on the way out to retrace it later</Text>
+            <TouchableOpacity onPress={breadcrumbs.startDropping}>
+              <Text style={styles.actionText}>Start dropping</Text>
+            </TouchableOpacity>
+          </>
+        )}
+        {breadcrumbs.mode === 'dropping' && (
+          <>
+            <Text style={styles.value}>{breadcrumbs.trail.length} dropped</Text>
+            <TouchableOpacity
+              onPress={breadcrumbs.startReturn}
+              disabled={breadcrumbs.trail.length === 0}
+            >
+              <Text style={styles.actionText}>↩ Return along trail</Text>
+            </TouchableOpacity>
+          </>
+        )}
+        {breadcrumbs.mode === 'returning' && (
+          <>
+            <Text style={styles.value}>
+              {breadcrumbs.targetIndex === 0
+                ? 'Heading to start'
+                : `${(breadcrumbs.targetIndex ?? 0) + 1} to go`}
+            </Text>
+            <TouchableOpacity onPress={breadcrumbs.resumeDropping}>
+              <Text style={styles.actionText}>Stop returning</Text>
+            </TouchableOpacity>
+          </>
+        )}
+        {breadcrumbs.mode === 'arrived' && (
+          <>
+            <Text style={styles.value}>🏁 Back at the start</Text>
+            <Text style={styles.subValue}>Retraced {breadcrumbs.trail.length} breadcrumbs</Text>
+            <TouchableOpacity onPress={breadcrumbs.clear}>
+              <Text style={styles.actionText}>Done</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+
+      {onOpenTracks && (
+        <TouchableOpacity style={styles.settingsButton} onPress={onOpenTracks}>
+          <Text style={styles.settingsButtonText}>🛤️ Tracks</Text>
+        </TouchableOpacity>
+      )}
+
+      {onOpenSettings && (
+        <TouchableOpacity style={styles.settingsButton} onPress={onOpenSettings}>
+          <Text style={styles.settingsButtonText}>⚙️ Settings</Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 }
@@ -91,6 +351,29 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(255, 255, 255, 0.2)',
   },
+  cardRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cardHalf: {
+    flex: 1,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#00d4ff',
+  },
+  actionText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#00d4ff',
+    marginTop: 8,
+  },
   title: {
     fontSize: 20,
     fontWeight: 'bold',
@@ -101,6 +384,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: 'rgba(255, 255, 255, 0.7)',
   },
+  changeHint: {
+    fontSize: 11,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: 6,
+  },
   label: {
     fontSize: 12,
     color: 'rgba(255, 255, 255, 0.6)',
@@ -118,12 +406,36 @@ const styles = StyleSheet.create({
     color: 'rgba(255, 255, 255, 0.6)',
     marginTop: 4,
   },
+  coordinateText: {
+    fontSize: 15,
+    color: '#ffffff',
+    fontFamily: 'monospace',
+    marginTop: 2,
+  },
   gpsHint: {
     fontSize: 11,
     color: 'rgba(0, 212, 255, 0.8)',
     marginTop: 6,
     fontStyle: 'italic',
   },
+  legTrack: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
+  legDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  legDotDone: {
+    backgroundColor: '#00ff88',
+  },
+  legDotActive: {
+    backgroundColor: '#00d4ff',
+  },
   valueSuccess: {
     color: '#00ff88',
   },
@@ -146,4 +458,15 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#00d4ff',
   },
+  settingsButton: {
+    borderRadius: 12,
+    padding: 14,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  settingsButtonText: {
+    fontSize: 16,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
 });
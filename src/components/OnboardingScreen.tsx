@@ -0,0 +1,77 @@
+import React from 'react';
+import { Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { PermissionKind } from '../types';
+import { usePermissions } from '../hooks/usePermissions';
+import { PermissionCard } from './PermissionCard';
+
+// Background location is asked for later, from the haptic guidance setting
+const ONBOARDING_PERMISSIONS: PermissionKind[] = ['location', 'motion'];
+
+interface OnboardingScreenProps {
+  onOpenDevMenu?: () => void;
+}
+
+/**
+ * Explains what each permission is for before the system asks, and leads to
+ * the system settings once a permission can no longer be asked for
+ */
+export function OnboardingScreen({ onOpenDevMenu }: OnboardingScreenProps) {
+  const { permissions, requestPermission, openSettings } = usePermissions();
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.heading}>Before You Start</Text>
+      <Text style={styles.subtitle}>
+        Compass Navigate points you toward a destination using GPS and the phone's sensors. It
+        needs two permissions to do that.
+      </Text>
+
+      {ONBOARDING_PERMISSIONS.map((kind) => (
+        <PermissionCard
+          key={kind}
+          kind={kind}
+          status={permissions[kind]}
+          onRequest={requestPermission}
+          onOpenSettings={openSettings}
+        />
+      ))}
+
+      {onOpenDevMenu && (
+        <TouchableOpacity style={styles.devMenu} onPress={onOpenDevMenu}>
+          <Text style={styles.linkText}>Developer Menu</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a2e',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+    gap: 12,
+  },
+  heading: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.7)',
+    lineHeight: 20,
+  },
+  devMenu: {
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#00d4ff',
+  },
+});
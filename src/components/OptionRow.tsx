@@ -0,0 +1,87 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+
+interface OptionRowProps<T extends string> {
+  label: string;
+  description?: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+export function OptionRow<T extends string>({
+  label,
+  description,
+  options,
+  value,
+  onChange,
+}: OptionRowProps<T>) {
+  return (
+    <View style={styles.card}>
+      <Text style={styles.label}>{label}</Text>
+      {description && <Text style={styles.description}>{description}</Text>}
+      <View style={styles.segmented}>
+        {options.map((option) => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.segment, option.value === value && styles.segmentActive]}
+            onPress={() => onChange(option.value)}
+          >
+            <Text
+              style={[styles.segmentText, option.value === value && styles.segmentTextActive]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  label: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginBottom: 4,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  description: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginBottom: 8,
+  },
+  segmented: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 4,
+  },
+  segment: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  segmentActive: {
+    backgroundColor: '#00d4ff',
+    borderColor: '#00d4ff',
+  },
+  segmentText: {
+    fontSize: 14,
+    color: '#ffffff',
+  },
+  segmentTextActive: {
+    color: '#1a1a2e',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,145 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { PermissionKind, PermissionStatus } from '../types';
+
+const PERMISSION_INFO: Record<PermissionKind, { icon: string; title: string; reason: string }> = {
+  location: {
+    icon: '📍',
+    title: 'Location',
+    reason:
+      'Needed to know where you are, so the arrow can point at your destination and show the distance left.',
+  },
+  motion: {
+    icon: '🧭',
+    title: 'Motion & Orientation',
+    reason:
+      'Used to tell which way the phone is pointing. Without it the app can only follow your direction of travel while you move.',
+  },
+  backgroundLocation: {
+    icon: '📳',
+    title: 'Location While in Background',
+    reason:
+      'Keeps haptic guidance going with the screen off or another app open, following your direction of travel while GPS Course Heading is on. A notification shows while it runs.',
+  },
+};
+
+const STATUS_LABELS: Record<PermissionStatus, string> = {
+  [PermissionStatus.UNDETERMINED]: 'Not asked yet',
+  [PermissionStatus.PENDING]: 'Waiting for your answer…',
+  [PermissionStatus.GRANTED]: '✓ Allowed',
+  [PermissionStatus.DENIED]: 'Not allowed',
+  [PermissionStatus.DENIED_PERMANENTLY]: 'Turned off in Settings',
+};
+
+interface PermissionCardProps {
+  kind: PermissionKind;
+  status: PermissionStatus;
+  onRequest: (kind: PermissionKind) => void;
+  onOpenSettings: () => void;
+}
+
+/**
+ * Explains what a permission is for and offers the next step: asking for it,
+ * or the system settings once it can no longer be asked for
+ */
+export function PermissionCard({ kind, status, onRequest, onOpenSettings }: PermissionCardProps) {
+  const info = PERMISSION_INFO[kind];
+  const isGranted = status === PermissionStatus.GRANTED;
+
+  return (
+    <View style={[styles.card, isGranted && styles.cardGranted]}>
+      <View style={styles.row}>
+        <Text style={styles.title}>
+          {info.icon} {info.title}
+        </Text>
+        <Text style={[styles.status, isGranted && styles.statusGranted]}>
+          {STATUS_LABELS[status]}
+        </Text>
+      </View>
+      <Text style={styles.description}>{info.reason}</Text>
+
+      {status === PermissionStatus.PENDING && <ActivityIndicator color="#00d4ff" />}
+
+      {(status === PermissionStatus.UNDETERMINED || status === PermissionStatus.DENIED) && (
+        <TouchableOpacity style={styles.primaryButton} onPress={() => onRequest(kind)}>
+          <Text style={styles.primaryButtonText}>
+            {status === PermissionStatus.DENIED ? 'Ask Again' : 'Allow'}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {status === PermissionStatus.DENIED_PERMANENTLY && (
+        <>
+          <Text style={styles.description}>
+            The system won't ask again. Turn it on in Settings, then come back here.
+          </Text>
+          <TouchableOpacity style={styles.secondaryButton} onPress={onOpenSettings}>
+            <Text style={styles.secondaryButtonText}>Open Settings</Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  cardGranted: {
+    borderColor: '#00d4ff',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  status: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+  statusGranted: {
+    color: '#00d4ff',
+  },
+  description: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginBottom: 12,
+    lineHeight: 18,
+  },
+  primaryButton: {
+    backgroundColor: '#00d4ff',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#1a1a2e',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  secondaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
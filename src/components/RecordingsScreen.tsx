@@ -0,0 +1,186 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { useSessionRecorder } from '../hooks/useSessionRecorder';
+import { useSimulation } from '../hooks/useSimulation';
+import { formatDuration } from '../utils/units';
+import { toSessionJson } from '../utils/sessionRecording';
+
+interface RecordingsScreenProps {
+  onClose: () => void;
+}
+
+export function RecordingsScreen({ onClose }: RecordingsScreenProps) {
+  const {
+    recording,
+    recordings,
+    startRecording,
+    stopRecording,
+    getRecording,
+    removeRecording,
+    exportRecording,
+  } = useSessionRecorder();
+  const { loadSession, setSource } = useSimulation();
+
+  const replay = async (id: string) => {
+    const saved = await getRecording(id);
+    if (!saved) return;
+
+    const loaded = loadSession(toSessionJson(saved), saved.name);
+    if (typeof loaded !== 'string') {
+      await setSource('replay');
+      onClose();
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.row}>
+        <Text style={styles.heading}>Sensor Recordings</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.linkText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.subtitle}>
+        Captures raw compass and GPS readings alongside the smoothed values and calibration
+        offset. Share a recording with a bug report about heading or position problems.
+      </Text>
+
+      {recording ? (
+        <View style={[styles.card, styles.cardActive]}>
+          <Text style={styles.label}>● Recording</Text>
+          <Text style={styles.title}>{recording.name}</Text>
+          <Text style={styles.subtitle}>
+            {formatDuration(recording.duration)} · {recording.sampleCount} samples ·{' '}
+            {recording.fixCount} fixes
+          </Text>
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={styles.primaryButton} onPress={() => stopRecording()}>
+              <Text style={styles.primaryButtonText}>Stop & Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity style={styles.primaryButton} onPress={() => startRecording()}>
+          <Text style={styles.primaryButtonText}>● Start Recording</Text>
+        </TouchableOpacity>
+      )}
+
+      {recordings.length === 0 && !recording && (
+        <Text style={styles.subtitle}>No saved recordings yet.</Text>
+      )}
+
+      {recordings.map((saved) => (
+        <View key={saved.id} style={styles.card}>
+          <Text style={styles.title}>{saved.name}</Text>
+          <Text style={styles.subtitle}>
+            {formatDuration(saved.duration)} · {saved.sampleCount} samples · {saved.fixCount}{' '}
+            fixes
+          </Text>
+          {saved.dropped > 0 && (
+            <Text style={styles.meta}>Oldest {saved.dropped} entries dropped to save space</Text>
+          )}
+          <View style={styles.row}>
+            <TouchableOpacity onPress={() => exportRecording(saved.id, 'json')}>
+              <Text style={styles.linkText}>Share JSON</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => exportRecording(saved.id, 'csv')}>
+              <Text style={styles.linkText}>Share CSV</Text>
+            </TouchableOpacity>
+            {__DEV__ && (
+              <TouchableOpacity onPress={() => replay(saved.id)}>
+                <Text style={styles.linkText}>Replay</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={() => removeRecording(saved.id)}>
+              <Text style={styles.deleteText}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a2e',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+    gap: 12,
+  },
+  heading: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  cardActive: {
+    borderColor: '#ff4444',
+  },
+  label: {
+    fontSize: 12,
+    color: '#ff4444',
+    marginBottom: 4,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#00d4ff',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  meta: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: 4,
+  },
+  linkText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#00d4ff',
+  },
+  deleteText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ff4444',
+  },
+  primaryButton: {
+    backgroundColor: '#00d4ff',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#1a1a2e',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,330 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { Route, Waypoint } from '../types';
+import { useDestinations } from '../hooks/useDestinations';
+import { DEFAULT_ARRIVAL_RADIUS } from '../utils/route';
+
+interface RoutesScreenProps {
+  onClose: () => void;
+}
+
+interface WaypointForm {
+  waypoint: Waypoint;
+  arrivalRadius: string;
+}
+
+export function RoutesScreen({ onClose }: RoutesScreenProps) {
+  const {
+    destinations,
+    routes,
+    activeRoute,
+    addRoute,
+    updateRoute,
+    removeRoute,
+    selectRoute,
+    clearRoute,
+  } = useDestinations();
+
+  // null = list view, 'new' = adding, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [waypoints, setWaypoints] = useState<WaypointForm[]>([]);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const startEditing = (route: Route | null) => {
+    setFormError(null);
+    setEditingId(route ? route.id : 'new');
+    setName(route ? route.name : '');
+    setWaypoints(
+      route
+        ? route.waypoints.map((waypoint) => ({
+            waypoint,
+            arrivalRadius: waypoint.arrivalRadius.toString(),
+          }))
+        : []
+    );
+  };
+
+  const moveWaypoint = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= waypoints.length) return;
+
+    const next = [...waypoints];
+    [next[index], next[target]] = [next[target], next[index]];
+    setWaypoints(next);
+  };
+
+  const saveForm = async () => {
+    if (!name.trim()) {
+      setFormError('Name is required');
+      return;
+    }
+    if (waypoints.length === 0) {
+      setFormError('Add at least one waypoint');
+      return;
+    }
+
+    const parsed: Waypoint[] = [];
+    for (const { waypoint, arrivalRadius } of waypoints) {
+      const radius = parseFloat(arrivalRadius);
+      if (isNaN(radius) || radius <= 0) {
+        setFormError(`Arrival radius for ${waypoint.name} must be a positive number`);
+        return;
+      }
+      parsed.push({ ...waypoint, arrivalRadius: radius });
+    }
+
+    if (editingId === 'new') {
+      await addRoute({ name: name.trim(), waypoints: parsed });
+    } else if (editingId) {
+      await updateRoute(editingId, { name: name.trim(), waypoints: parsed });
+    }
+    setEditingId(null);
+  };
+
+  const selectAndClose = async (id: string) => {
+    await selectRoute(id);
+    onClose();
+  };
+
+  if (editingId) {
+    return (
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        <Text style={styles.heading}>{editingId === 'new' ? 'New Route' : 'Edit Route'}</Text>
+
+        <View style={styles.field}>
+          <Text style={styles.label}>Name</Text>
+          <TextInput style={styles.input} value={name} onChangeText={setName} />
+        </View>
+
+        <Text style={styles.label}>Waypoints (in order)</Text>
+        {waypoints.map(({ waypoint, arrivalRadius }, index) => (
+          <View key={index} style={styles.card}>
+            <Text style={styles.title}>
+              {index + 1}. {waypoint.name}
+            </Text>
+            <View style={styles.row}>
+              <Text style={styles.subtitle}>Arrival radius (m)</Text>
+              <TextInput
+                style={[styles.input, styles.radiusInput]}
+                value={arrivalRadius}
+                keyboardType="numeric"
+                onChangeText={(text) =>
+                  setWaypoints((prev) =>
+                    prev.map((w, i) => (i === index ? { ...w, arrivalRadius: text } : w))
+                  )
+                }
+              />
+            </View>
+            <View style={styles.row}>
+              <TouchableOpacity onPress={() => moveWaypoint(index, -1)}>
+                <Text style={styles.linkText}>↑ Up</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => moveWaypoint(index, 1)}>
+                <Text style={styles.linkText}>↓ Down</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => setWaypoints((prev) => prev.filter((_, i) => i !== index))}
+              >
+                <Text style={styles.deleteText}>Remove</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+
+        <Text style={styles.label}>Add from saved destinations</Text>
+        {destinations.map((destination) => (
+          <TouchableOpacity
+            key={destination.id}
+            style={styles.card}
+            onPress={() =>
+              setWaypoints((prev) => [
+                ...prev,
+                {
+                  waypoint: {
+                    name: destination.name,
+                    coordinates: destination.coordinates,
+                    arrivalRadius: DEFAULT_ARRIVAL_RADIUS,
+                  },
+                  arrivalRadius: DEFAULT_ARRIVAL_RADIUS.toString(),
+                },
+              ])
+            }
+          >
+            <Text style={styles.subtitle}>
+              + {destination.icon} {destination.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+
+        {formError && <Text style={styles.errorText}>{formError}</Text>}
+
+        <View style={styles.row}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => setEditingId(null)}>
+            <Text style={styles.secondaryButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.primaryButton} onPress={saveForm}>
+            <Text style={styles.primaryButtonText}>Save</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.row}>
+        <Text style={styles.heading}>Routes</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.linkText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+
+      {activeRoute && (
+        <TouchableOpacity style={styles.secondaryButton} onPress={clearRoute}>
+          <Text style={styles.secondaryButtonText}>Stop route navigation</Text>
+        </TouchableOpacity>
+      )}
+
+      {routes.map((route) => {
+        const isActive = route.id === activeRoute?.id;
+        return (
+          <TouchableOpacity
+            key={route.id}
+            style={[styles.card, isActive && styles.cardActive]}
+            onPress={() => selectAndClose(route.id)}
+          >
+            <Text style={styles.title}>🧭 {route.name}</Text>
+            <Text style={styles.subtitle}>
+              {route.waypoints.map((w) => w.name).join(' → ')}
+            </Text>
+            <View style={styles.row}>
+              <TouchableOpacity onPress={() => startEditing(route)}>
+                <Text style={styles.linkText}>Edit</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => removeRoute(route.id)}>
+                <Text style={styles.deleteText}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+
+      <TouchableOpacity style={styles.primaryButton} onPress={() => startEditing(null)}>
+        <Text style={styles.primaryButtonText}>+ New Route</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a2e',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+    gap: 12,
+  },
+  heading: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  cardActive: {
+    borderColor: '#00d4ff',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#00d4ff',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  field: {
+    gap: 4,
+  },
+  label: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  input: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#ffffff',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  radiusInput: {
+    width: 90,
+    textAlign: 'right',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ff4444',
+  },
+  linkText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#00d4ff',
+  },
+  deleteText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ff4444',
+  },
+  primaryButton: {
+    backgroundColor: '#00d4ff',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#1a1a2e',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  secondaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
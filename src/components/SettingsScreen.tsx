@@ -0,0 +1,297 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Platform } from 'react-native';
+import { CoordinateFormat } from '../types';
+import { useSettings } from '../hooks/useSettings';
+import { usePermissions } from '../hooks/usePermissions';
+import { OptionRow } from './OptionRow';
+import { PermissionCard } from './PermissionCard';
+import { COORDINATE_FORMAT_LABELS } from '../utils/coordinates';
+import { formatDistance } from '../utils/units';
+
+interface SettingsScreenProps {
+  onClose: () => void;
+  onOpenCalibration: () => void;
+  onOpenRecordings: () => void;
+  onOpenDevMenu: () => void;
+}
+
+// Ring radii in meters, largest first
+const PROXIMITY_RING_PRESETS = [
+  { label: 'Close', rings: [200, 50, 5] },
+  { label: 'Walking', rings: [500, 100, 10] },
+  { label: 'Driving', rings: [2000, 500, 50] },
+];
+
+export function SettingsScreen({
+  onClose,
+  onOpenCalibration,
+  onOpenRecordings,
+  onOpenDevMenu,
+}: SettingsScreenProps) {
+  const { settings, updateSettings } = useSettings();
+  const { permissions, requestPermission, openSettings } = usePermissions();
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.row}>
+        <Text style={styles.heading}>Settings</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.linkText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+
+      <OptionRow
+        label="North Reference"
+        description="Magnetic declination is computed offline from the World Magnetic Model."
+        options={[
+          { value: 'true', label: 'True North' },
+          { value: 'magnetic', label: 'Magnetic North' },
+        ]}
+        value={settings.northReference}
+        onChange={(northReference) => updateSettings({ northReference })}
+      />
+
+      <OptionRow
+        label="Guidance"
+        description="Great circle is the shortest path on the WGS-84 ellipsoid; rhumb line keeps one constant bearing all the way."
+        options={[
+          { value: 'greatCircle', label: 'Great Circle' },
+          { value: 'rhumb', label: 'Rhumb Line' },
+        ]}
+        value={settings.guidanceMode}
+        onChange={(guidanceMode) => updateSettings({ guidanceMode })}
+      />
+
+      <OptionRow
+        label="Units"
+        options={[
+          { value: 'metric', label: 'Metric' },
+          { value: 'imperial', label: 'Imperial' },
+          { value: 'nautical', label: 'Nautical' },
+        ]}
+        value={settings.distanceUnits}
+        onChange={(distanceUnits) => updateSettings({ distanceUnits })}
+      />
+
+      <OptionRow
+        label="Angles"
+        description="Mils divide the circle into 6400, as on military compasses."
+        options={[
+          { value: 'degrees', label: 'Degrees' },
+          { value: 'mils', label: 'Mils' },
+        ]}
+        value={settings.angleUnits}
+        onChange={(angleUnits) => updateSettings({ angleUnits })}
+      />
+
+      <OptionRow
+        label="Coordinate Format"
+        description="How positions are shown. Coordinates can be entered in any of these formats."
+        options={(Object.keys(COORDINATE_FORMAT_LABELS) as CoordinateFormat[]).map((value) => ({
+          value,
+          label: COORDINATE_FORMAT_LABELS[value],
+        }))}
+        value={settings.coordinateFormat}
+        onChange={(coordinateFormat) => updateSettings({ coordinateFormat })}
+      />
+
+      <OptionRow
+        label="Heading Source"
+        description="Gyro fusion keeps the arrow steady while walking; the Kalman filter also shows how certain the heading is."
+        options={[
+          { value: 'filtered', label: 'Smoothed Compass' },
+          { value: 'fused', label: 'Gyro Fusion' },
+          { value: 'kalman', label: 'Kalman Filter' },
+        ]}
+        value={settings.headingMode}
+        onChange={(headingMode) => updateSettings({ headingMode })}
+      />
+
+      <OptionRow
+        label="GPS Smoothing"
+        description="Weights each fix by its accuracy and rejects jumps. Turn off to compare with the raw track."
+        options={[
+          { value: 'on', label: 'Smoothed' },
+          { value: 'off', label: 'Raw' },
+        ]}
+        value={settings.positionSmoothing ? 'on' : 'off'}
+        onChange={(value) => updateSettings({ positionSmoothing: value === 'on' })}
+      />
+
+      <OptionRow
+        label="GPS Course Heading"
+        description="While moving, follow the GPS course instead of the compass. Useful near vehicles and steel structures."
+        options={[
+          { value: 'off', label: 'Off' },
+          { value: '1.5', label: 'Walking' },
+          { value: '3', label: 'Cycling' },
+          { value: '6', label: 'Driving' },
+        ]}
+        value={settings.courseHeading ? String(settings.courseSpeedThreshold) : 'off'}
+        onChange={(value) =>
+          updateSettings(
+            value === 'off'
+              ? { courseHeading: false }
+              : { courseHeading: true, courseSpeedThreshold: Number(value) }
+          )
+        }
+      />
+
+      <OptionRow
+        label="Proximity Alerts"
+        description={
+          settings.proximityAlerts
+            ? `Vibrate and notify at ${settings.proximityRings
+                .map((radius) => formatDistance(radius, settings.distanceUnits))
+                .join(', ')} from the target.`
+            : 'Vibrate and notify when getting close to the target.'
+        }
+        options={[
+          { value: 'off', label: 'Off' },
+          ...PROXIMITY_RING_PRESETS.map((preset) => ({
+            value: preset.rings.join(','),
+            label: preset.label,
+          })),
+        ]}
+        value={settings.proximityAlerts ? settings.proximityRings.join(',') : 'off'}
+        onChange={(value) =>
+          updateSettings(
+            value === 'off'
+              ? { proximityAlerts: false }
+              : { proximityAlerts: true, proximityRings: value.split(',').map(Number) }
+          )
+        }
+      />
+
+      <OptionRow
+        label="Voice Guidance"
+        description="Speaks the direction as a clock position, distance milestones and arrival, so the phone can stay in a pocket."
+        options={[
+          { value: 'off', label: 'Off' },
+          { value: 'minimal', label: 'Minimal' },
+          { value: 'normal', label: 'Normal' },
+          { value: 'detailed', label: 'Detailed' },
+        ]}
+        value={settings.voiceGuidance}
+        onChange={(voiceGuidance) => updateSettings({ voiceGuidance })}
+      />
+
+      <OptionRow
+        label="Haptic Guidance"
+        description="Vibrates toward the target, faster as you turn closer, with a buzz once you face it."
+        options={[
+          { value: 'off', label: 'Off' },
+          { value: 'taps', label: 'Taps' },
+          { value: 'length', label: 'Short / Long' },
+        ]}
+        value={settings.hapticGuidance}
+        onChange={(hapticGuidance) => updateSettings({ hapticGuidance })}
+      />
+
+      {settings.hapticGuidance !== 'off' && (
+        <OptionRow
+          label="Alignment Cone"
+          description={
+            settings.hapticGuidance === 'taps'
+              ? 'Two taps: turn left. One tap: turn right.'
+              : 'Short buzz: turn left. Long buzz: turn right.'
+          }
+          options={[
+            { value: '5', label: '±5°' },
+            { value: '10', label: '±10°' },
+            { value: '20', label: '±20°' },
+          ]}
+          value={String(settings.alignmentCone)}
+          onChange={(value) => updateSettings({ alignmentCone: Number(value) })}
+        />
+      )}
+
+      {/* iOS plays no haptics for apps in the background, so only Android keeps guiding */}
+      {settings.hapticGuidance !== 'off' &&
+        (Platform.OS === 'android' ? (
+          <PermissionCard
+            kind="backgroundLocation"
+            status={permissions.backgroundLocation}
+            onRequest={requestPermission}
+            onOpenSettings={openSettings}
+          />
+        ) : (
+          <Text style={styles.description}>
+            On iPhone, vibration pauses while the screen is off or another app is open.
+          </Text>
+        ))}
+
+      <TouchableOpacity style={styles.card} onPress={onOpenCalibration}>
+        <Text style={styles.label}>Compass Calibration</Text>
+        <Text style={styles.description}>
+          Correct hard-iron and soft-iron distortion of the magnetometer.
+        </Text>
+        <Text style={styles.linkText}>Calibrate →</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.card} onPress={onOpenRecordings}>
+        <Text style={styles.label}>Sensor Recordings</Text>
+        <Text style={styles.description}>
+          Record raw compass and GPS readings to share with a bug report.
+        </Text>
+        <Text style={styles.linkText}>Recordings →</Text>
+      </TouchableOpacity>
+
+      {__DEV__ && (
+        <TouchableOpacity style={styles.card} onPress={onOpenDevMenu}>
+          <Text style={styles.label}>Developer</Text>
+          <Text style={styles.description}>
+            Replay a recorded session or simulate a walk instead of using the GPS and sensors.
+          </Text>
+          <Text style={styles.linkText}>Data Source →</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a2e',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+    gap: 12,
+  },
+  heading: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  label: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginBottom: 4,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  description: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginBottom: 8,
+  },
+  linkText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#00d4ff',
+  },
+});
@@ -0,0 +1,197 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { useTracks } from '../hooks/useTracks';
+import { useSettings } from '../hooks/useSettings';
+import { formatDistance, formatDuration } from '../utils/units';
+
+interface TracksScreenProps {
+  onClose: () => void;
+}
+
+export function TracksScreen({ onClose }: TracksScreenProps) {
+  const {
+    status,
+    recording,
+    tracks,
+    startRecording,
+    pauseRecording,
+    resumeRecording,
+    splitSegment,
+    stopRecording,
+    removeTrack,
+    exportTrack,
+  } = useTracks();
+  const { settings } = useSettings();
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.row}>
+        <Text style={styles.heading}>Tracks</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.linkText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+
+      {recording ? (
+        <View style={[styles.card, styles.cardActive]}>
+          <Text style={styles.label}>
+            {status === 'recording' ? '● Recording' : 'Paused'}
+          </Text>
+          <Text style={styles.title}>{recording.name}</Text>
+          <Text style={styles.subtitle}>
+            {formatDistance(recording.distance, settings.distanceUnits)} ·{' '}
+            {formatDuration(recording.duration)} · {recording.pointCount} points
+          </Text>
+
+          <View style={styles.buttonRow}>
+            {status === 'recording' ? (
+              <>
+                <TouchableOpacity style={styles.secondaryButton} onPress={pauseRecording}>
+                  <Text style={styles.secondaryButtonText}>Pause</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.secondaryButton} onPress={splitSegment}>
+                  <Text style={styles.secondaryButtonText}>New Segment</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <TouchableOpacity style={styles.secondaryButton} onPress={resumeRecording}>
+                <Text style={styles.secondaryButtonText}>Resume</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.primaryButton} onPress={() => stopRecording()}>
+              <Text style={styles.primaryButtonText}>Stop & Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity style={styles.primaryButton} onPress={() => startRecording()}>
+          <Text style={styles.primaryButtonText}>● Start Recording</Text>
+        </TouchableOpacity>
+      )}
+
+      {tracks.length === 0 && !recording && (
+        <Text style={styles.subtitle}>No saved tracks yet.</Text>
+      )}
+
+      {tracks.map((track) => (
+        <View key={track.id} style={styles.card}>
+          <Text style={styles.title}>{track.name}</Text>
+          <Text style={styles.subtitle}>
+            {formatDistance(track.distance, settings.distanceUnits)} ·{' '}
+            {formatDuration(track.duration)}
+          </Text>
+          <Text style={styles.meta}>
+            {new Date(track.createdAt).toLocaleDateString()} · {track.pointCount} points
+          </Text>
+          <View style={styles.row}>
+            <TouchableOpacity onPress={() => exportTrack(track.id, 'gpx')}>
+              <Text style={styles.linkText}>Share GPX</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => exportTrack(track.id, 'geojson')}>
+              <Text style={styles.linkText}>Share GeoJSON</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => removeTrack(track.id)}>
+              <Text style={styles.deleteText}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a2e',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 60,
+    gap: 12,
+  },
+  heading: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  cardActive: {
+    borderColor: '#ff4444',
+  },
+  label: {
+    fontSize: 12,
+    color: '#ff4444',
+    marginBottom: 4,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#00d4ff',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  meta: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: 4,
+  },
+  linkText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#00d4ff',
+  },
+  deleteText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ff4444',
+  },
+  primaryButton: {
+    backgroundColor: '#00d4ff',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#1a1a2e',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  secondaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,42 @@
+import { useState, useEffect, useMemo } from 'react';
+import { BreadcrumbState } from '../types';
+import { BreadcrumbService } from '../services/BreadcrumbService';
+import { toReturnRoute } from '../utils/breadcrumbs';
+
+export function useBreadcrumbs() {
+  const breadcrumbService = BreadcrumbService.getInstance();
+  const [state, setState] = useState<BreadcrumbState>(() => breadcrumbService.getState());
+
+  useEffect(() => {
+    const unsubscribe = breadcrumbService.addListener(setState);
+
+    // Pick up anything that loaded before we subscribed
+    breadcrumbService.load().then(() => {
+      setState(breadcrumbService.getState());
+    });
+
+    return unsubscribe;
+  }, [breadcrumbService]);
+
+  // The trail only changes while dropping, so the route stays stable during a return
+  const returnRoute = useMemo(
+    () => (state.mode === 'returning' ? toReturnRoute(state.trail) : null),
+    [state.mode, state.trail]
+  );
+
+  // Waypoints run newest first, so the leg index counts back from the end of the trail
+  const returnLegIndex =
+    returnRoute && state.targetIndex !== null ? state.trail.length - 1 - state.targetIndex : null;
+
+  return {
+    mode: state.mode,
+    trail: state.trail,
+    targetIndex: state.targetIndex,
+    returnRoute,
+    returnLegIndex,
+    startDropping: breadcrumbService.startDropping.bind(breadcrumbService),
+    startReturn: breadcrumbService.startReturn.bind(breadcrumbService),
+    resumeDropping: breadcrumbService.resumeDropping.bind(breadcrumbService),
+    clear: breadcrumbService.clear.bind(breadcrumbService),
+  };
+}
@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+import { DestinationState } from '../types';
+import { DestinationService } from '../services/DestinationService';
+
+export function useDestinations() {
+  const destinationService = DestinationService.getInstance();
+  const [state, setState] = useState<DestinationState>(() =>
+    destinationService.getState()
+  );
+
+  useEffect(() => {
+    const unsubscribe = destinationService.addListener(setState);
+
+    // Pick up anything that loaded before we subscribed
+    destinationService.load().then(() => {
+      setState(destinationService.getState());
+    });
+
+    return unsubscribe;
+  }, [destinationService]);
+
+  const activeDestination =
+    state.destinations.find((d) => d.id === state.activeDestinationId) ?? null;
+  const activeRoute = state.routes.find((r) => r.id === state.activeRouteId) ?? null;
+
+  return {
+    destinations: state.destinations,
+    activeDestination,
+    routes: state.routes,
+    activeRoute,
+    addDestination: destinationService.addDestination.bind(destinationService),
+    updateDestination: destinationService.updateDestination.bind(destinationService),
+    removeDestination: destinationService.removeDestination.bind(destinationService),
+    selectDestination: destinationService.selectDestination.bind(destinationService),
+    addRoute: destinationService.addRoute.bind(destinationService),
+    updateRoute: destinationService.updateRoute.bind(destinationService),
+    removeRoute: destinationService.removeRoute.bind(destinationService),
+    selectRoute: destinationService.selectRoute.bind(destinationService),
+    clearRoute: destinationService.clearRoute.bind(destinationService),
+    importItems: destinationService.importItems.bind(destinationService),
+  };
+}
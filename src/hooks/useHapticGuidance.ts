@@ -0,0 +1,71 @@
+import { useEffect, useRef } from 'react';
+import { NavigationData, PermissionStatus } from '../types';
+import { HapticGuidanceService } from '../services/HapticGuidanceService';
+import { BackgroundGuidanceService } from '../services/BackgroundGuidanceService';
+import { HapticGuidance } from '../utils/hapticGuidance';
+import { useSettings } from './useSettings';
+import { usePermissions } from './usePermissions';
+
+// How often to check whether a pulse is due, ms
+const TICK_INTERVAL = 50;
+
+/**
+ * Vibrate direction cues for the relative angle to the target.
+ * While on, and once background location is allowed, a background location
+ * session keeps it going with the screen off (Android only), steering by the
+ * GPS course there since the sensors pause.
+ * @param navigationData Current navigation data
+ */
+export function useHapticGuidance(navigationData: NavigationData) {
+  const { settings } = useSettings();
+  const { hapticGuidance, alignmentCone } = settings;
+  const { permissions } = usePermissions();
+  const guidanceRef = useRef<HapticGuidance | null>(null);
+  if (!guidanceRef.current) {
+    guidanceRef.current = new HapticGuidance();
+  }
+  const relativeAngleRef = useRef<number | null>(navigationData.relativeAngle);
+
+  relativeAngleRef.current = navigationData.relativeAngle;
+
+  useEffect(() => {
+    guidanceRef.current!.setCone(alignmentCone);
+  }, [alignmentCone]);
+
+  // A new target starts with a fresh confirmation
+  useEffect(() => {
+    guidanceRef.current!.reset();
+  }, [navigationData.targetLocation]);
+
+  // Pulses follow their own rhythm, so poll on a timer rather than per sensor update
+  useEffect(() => {
+    if (hapticGuidance === 'off') return;
+
+    const hapticService = HapticGuidanceService.getInstance();
+    guidanceRef.current!.reset();
+
+    // A heading the sensors stopped updating reaches here as a null angle, which stops the cues
+    const timer = setInterval(() => {
+      const cue = guidanceRef.current!.update(relativeAngleRef.current);
+      if (cue) hapticService.play(cue, hapticGuidance);
+    }, TICK_INTERVAL);
+
+    return () => {
+      clearInterval(timer);
+      hapticService.cancel();
+    };
+  }, [hapticGuidance]);
+
+  const isOn = hapticGuidance !== 'off';
+  const isBackgroundGranted = permissions.backgroundLocation === PermissionStatus.GRANTED;
+
+  useEffect(() => {
+    if (!isOn || !isBackgroundGranted) return;
+
+    const backgroundService = BackgroundGuidanceService.getInstance();
+    backgroundService.start();
+    return () => {
+      backgroundService.stop();
+    };
+  }, [isOn, isBackgroundGranted]);
+}
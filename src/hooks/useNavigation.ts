@@ -1,173 +1,203 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Coordinates, NavigationData } from '../types';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { AppState } from 'react-native';
+import { AppError, PermissionStatus, ProximityEvent } from '../types';
 import { LocationService } from '../services/LocationService';
 import { SensorService } from '../services/SensorService';
-import {
-  calculateDistance,
-  calculateBearing,
-  angleDifference,
-  normalizeAngle,
-} from '../utils/geolocation';
-
-// Digantara Industries coordinates
-const TARGET_LOCATION: Coordinates = {
-  latitude: 13.0453132,
-  longitude: 77.5733936,
-};
-
+import { CalibrationService } from '../services/CalibrationService';
+import { ProximityAlertService } from '../services/ProximityAlertService';
+import { PermissionService } from '../services/PermissionService';
+import { useDestinations } from './useDestinations';
+import { useSettings } from './useSettings';
+import { useBreadcrumbs } from './useBreadcrumbs';
+import { useSimulation } from './useSimulation';
+import { usePermissions } from './usePermissions';
+import { NavigationEngine } from '../utils/navigationEngine';
+
+/**
+ * Runs a NavigationEngine on the app's location and sensor services and keeps
+ * it pointed at the active destination, route or breadcrumb trail with the
+ * current settings.
+ */
 export function useNavigation() {
-  const [navigationData, setNavigationData] = useState<NavigationData>({
-    userLocation: null,
-    targetLocation: TARGET_LOCATION,
-    distance: null,
-    bearing: null,
-    deviceHeading: null,
-    relativeAngle: null,
-  });
-
-  const [isLocationPermissionGranted, setIsLocationPermissionGranted] = useState(false);
-  const [isSensorActive, setIsSensorActive] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  // Initialize location tracking
-  const initializeLocation = useCallback(async () => {
-    try {
-      const locationService = LocationService.getInstance();
-      const hasPermission = await locationService.hasPermissions();
-
-      if (!hasPermission) {
-        const granted = await locationService.requestPermissions();
-        setIsLocationPermissionGranted(granted);
-        
-        if (!granted) {
-          setError('Location permission denied. Please enable location access in settings.');
-          return;
-        }
-      } else {
-        setIsLocationPermissionGranted(true);
-      }
+  const { activeDestination, activeRoute } = useDestinations();
+  const { settings, updateSettings } = useSettings();
+  const { returnRoute, returnLegIndex } = useBreadcrumbs();
+  const { source, session } = useSimulation();
+  const { permissions } = usePermissions();
+
+  // Returning along the breadcrumb trail takes over from the chosen destination or route
+  const targetRoute = returnRoute ?? activeRoute;
+
+  // The breadcrumb service decides which breadcrumb comes next
+  const legIndex = returnRoute ? (returnLegIndex ?? 0) : null;
+
+  const engineRef = useRef<NavigationEngine | null>(null);
+  if (!engineRef.current) {
+    engineRef.current = new NavigationEngine(
+      LocationService.getInstance(),
+      SensorService.getInstance(),
+      settings
+    );
+    engineRef.current.setTarget(activeDestination, targetRoute, legIndex);
+  }
+  const engine = engineRef.current;
+
+  const [navigationData, setNavigationData] = useState(() => engine.getData());
+  const [tripStats, setTripStats] = useState(() => engine.getTripStats());
+  const [status, setStatus] = useState(() => engine.getStatus());
+  const [arrival, setArrival] = useState<ProximityEvent | null>(null);
 
-      // Get initial location
-      const location = await locationService.getCurrentLocation();
-      if (location) {
-        updateLocation(location);
+  useEffect(() => {
+    const unsubscribes = [
+      engine.on('data', setNavigationData),
+      engine.on('tripStats', setTripStats),
+      engine.on('status', setStatus),
+    ];
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [engine]);
+
+  // Alert on ring crossings; arriving at the final target shows the arrival screen
+  useEffect(() => {
+    return engine.on('proximity', ({ event, targetName, isFinalTarget }) => {
+      ProximityAlertService.getInstance().alert(event, targetName, settings.distanceUnits);
+      if (event.arrived && isFinalTarget) {
+        setArrival(event);
       }
+    });
+  }, [engine, settings.distanceUnits]);
 
-      // Start watching location
-      const started = await locationService.startWatching();
-      if (!started) {
-        setError('Failed to start location tracking');
-        return;
-      }
+  // Retarget whenever the active destination or route changes
+  useEffect(() => {
+    engine.setTarget(activeDestination, targetRoute, legIndex);
+  }, [engine, activeDestination, targetRoute, legIndex]);
 
-      // Add location listener
-      const unsubscribe = locationService.addListener((location) => {
-        updateLocation(location);
-      });
+  // Keyed on the values, so a fresh copy of the same rings doesn't re-apply the settings
+  const ringsKey = settings.proximityRings.join(',');
+  const proximityRings = useMemo(
+    () => (ringsKey ? ringsKey.split(',').map(Number) : []),
+    [ringsKey]
+  );
 
-      return unsubscribe;
-    } catch (err) {
-      setError('Error initializing location: ' + (err as Error).message);
-      console.error('Location initialization error:', err);
+  useEffect(() => {
+    engine.updateSettings({
+      northReference: settings.northReference,
+      guidanceMode: settings.guidanceMode,
+      courseHeading: settings.courseHeading,
+      courseSpeedThreshold: settings.courseSpeedThreshold,
+      proximityAlerts: settings.proximityAlerts,
+      proximityRings,
+    });
+  }, [
+    engine,
+    settings.northReference,
+    settings.guidanceMode,
+    settings.courseHeading,
+    settings.courseSpeedThreshold,
+    settings.proximityAlerts,
+    proximityRings,
+  ]);
+
+  // Ask for notification permission up front rather than at the first alert
+  useEffect(() => {
+    if (settings.proximityAlerts) {
+      ProximityAlertService.getInstance().prepare();
     }
-  }, []);
-
-  // Initialize sensors
-  const initializeSensors = useCallback(async () => {
-    try {
-      const sensorService = SensorService.getInstance();
-      const availability = await sensorService.checkAvailability();
+  }, [settings.proximityAlerts]);
 
-      if (!availability.deviceMotion && !availability.magnetometer) {
-        setError('Device sensors not available');
-        return;
-      }
+  // Switch between the smoothed compass and gyroscope fusion
+  useEffect(() => {
+    SensorService.getInstance().setHeadingMode(settings.headingMode);
+  }, [settings.headingMode]);
 
-      const started = await sensorService.startSensors();
-      if (!started) {
-        setError('Failed to start sensors');
-        return;
-      }
+  // Choose between raw and Kalman-smoothed GPS fixes
+  useEffect(() => {
+    LocationService.getInstance().setSmoothingEnabled(settings.positionSmoothing);
+  }, [settings.positionSmoothing]);
 
-      setIsSensorActive(true);
+  // Wait for onboarding to settle location permission, so the system prompt
+  // never appears before the app has explained it. Simulated sources need none.
+  const canStart = source !== 'device' || permissions.location === PermissionStatus.GRANTED;
+  const isMotionGranted = permissions.motion === PermissionStatus.GRANTED;
 
-      // Add sensor listener
-      const unsubscribe = sensorService.addListener((heading) => {
-        updateDeviceHeading(heading);
+  // Start once permitted, and again whenever the data source is switched or
+  // motion access is granted later
+  useEffect(() => {
+    if (!canStart) return;
+    let cancelled = false;
+
+    // Apply any saved magnetometer calibration before the first sample
+    CalibrationService.getInstance()
+      .load()
+      .then(() => {
+        if (!cancelled) engine.start();
       });
 
-      return unsubscribe;
-    } catch (err) {
-      setError('Error initializing sensors: ' + (err as Error).message);
-      console.error('Sensor initialization error:', err);
-    }
-  }, []);
-
-  // Update location and recalculate navigation data
-  const updateLocation = useCallback((location: Coordinates) => {
-    setNavigationData((prev) => {
-      const distance = calculateDistance(location, TARGET_LOCATION);
-      const bearing = calculateBearing(location, TARGET_LOCATION);
-
-      let relativeAngle = null;
-      if (prev.deviceHeading !== null) {
-        relativeAngle = angleDifference(prev.deviceHeading, bearing);
-      }
-
-      return {
-        ...prev,
-        userLocation: location,
-        distance,
-        bearing,
-        relativeAngle,
-      };
-    });
-  }, []);
+    return () => {
+      cancelled = true;
+      engine.stop();
+    };
+  }, [engine, source, session, canStart, isMotionGranted]);
 
-  // Update device heading and recalculate relative angle
-  const updateDeviceHeading = useCallback((heading: number) => {
-    setNavigationData((prev) => {
-      const normalizedHeading = normalizeAngle(heading);
-      
-      let relativeAngle = null;
-      if (prev.bearing !== null) {
-        relativeAngle = angleDifference(normalizedHeading, prev.bearing);
-      }
+  // Coming back from the system settings may have fixed the problem
+  useEffect(() => {
+    if (status.error?.action !== 'open-settings') return;
 
-      return {
-        ...prev,
-        deviceHeading: normalizedHeading,
-        relativeAngle,
-      };
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') engine.start();
     });
-  }, []);
+    return () => subscription.remove();
+  }, [engine, status.error]);
 
-  // Initialize on mount
+  // Cleanup on unmount
   useEffect(() => {
-    let locationUnsubscribe: (() => void) | undefined;
-    let sensorUnsubscribe: (() => void) | undefined;
-
-    const initialize = async () => {
-      locationUnsubscribe = await initializeLocation();
-      sensorUnsubscribe = await initializeSensors();
-    };
-
-    initialize();
-
-    // Cleanup on unmount
     return () => {
-      if (locationUnsubscribe) locationUnsubscribe();
-      if (sensorUnsubscribe) sensorUnsubscribe();
-
       LocationService.getInstance().cleanup();
       SensorService.getInstance().cleanup();
+      PermissionService.getInstance().cleanup();
     };
-  }, [initializeLocation, initializeSensors]);
+  }, []);
+
+  const resetTrip = useCallback(() => {
+    engine.resetTrip();
+  }, [engine]);
+
+  // Carry out the recovery action that goes with an error
+  const recover = useCallback(
+    (error: AppError) => {
+      switch (error.action) {
+        case 'open-settings':
+          PermissionService.getInstance().openSettings();
+          break;
+        case 'fallback-sensor':
+          // DeviceMotion failed: try the magnetometer. No sensors at all: steer by the GPS course.
+          if (error.code === 'sensor-start-failed') {
+            SensorService.getInstance().setCompassOnly(true);
+            engine.start();
+          } else {
+            updateSettings({ courseHeading: true });
+          }
+          break;
+        case 'retry':
+          engine.start();
+          break;
+      }
+    },
+    [engine, updateSettings]
+  );
+
+  const dismissArrival = useCallback(() => {
+    setArrival(null);
+  }, []);
 
   return {
     navigationData,
-    isLocationPermissionGranted,
-    isSensorActive,
-    error,
+    tripStats,
+    resetTrip,
+    arrival,
+    dismissArrival,
+    recover,
+    isLocationPermissionGranted: status.isLocationPermissionGranted,
+    isSensorActive: status.isSensorActive,
+    error: status.error,
   };
 }
@@ -0,0 +1,30 @@
+import { useState, useEffect } from 'react';
+import { AppPermissions } from '../types';
+import { PermissionService } from '../services/PermissionService';
+
+export function usePermissions() {
+  const permissionService = PermissionService.getInstance();
+  const [permissions, setPermissions] = useState<AppPermissions>(() =>
+    permissionService.getPermissions()
+  );
+  const [isChecked, setIsChecked] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = permissionService.addListener(setPermissions);
+
+    // Pick up anything that loaded before we subscribed
+    permissionService.load().then(() => {
+      setPermissions(permissionService.getPermissions());
+      setIsChecked(true);
+    });
+
+    return unsubscribe;
+  }, [permissionService]);
+
+  return {
+    permissions,
+    isChecked,
+    requestPermission: permissionService.request.bind(permissionService),
+    openSettings: permissionService.openSettings.bind(permissionService),
+  };
+}
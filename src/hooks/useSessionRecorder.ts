@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+import { SessionRecorderState } from '../types';
+import { SessionRecorderService } from '../services/SessionRecorderService';
+
+export function useSessionRecorder() {
+  const recorderService = SessionRecorderService.getInstance();
+  const [state, setState] = useState<SessionRecorderState>(() => recorderService.getState());
+
+  useEffect(() => {
+    const unsubscribe = recorderService.addListener(setState);
+
+    // Pick up anything that loaded before we subscribed
+    recorderService.load().then(() => {
+      setState(recorderService.getState());
+    });
+
+    return unsubscribe;
+  }, [recorderService]);
+
+  return {
+    recording: state.recording,
+    recordings: state.recordings,
+    startRecording: recorderService.startRecording.bind(recorderService),
+    stopRecording: recorderService.stopRecording.bind(recorderService),
+    getRecording: recorderService.getRecording.bind(recorderService),
+    removeRecording: recorderService.removeRecording.bind(recorderService),
+    exportRecording: recorderService.exportRecording.bind(recorderService),
+  };
+}
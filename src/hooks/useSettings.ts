@@ -0,0 +1,26 @@
+import { useState, useEffect } from 'react';
+import { AppSettings } from '../types';
+import { SettingsService } from '../services/SettingsService';
+
+export function useSettings() {
+  const settingsService = SettingsService.getInstance();
+  const [settings, setSettings] = useState<AppSettings>(() =>
+    settingsService.getSettings()
+  );
+
+  useEffect(() => {
+    const unsubscribe = settingsService.addListener(setSettings);
+
+    // Pick up anything that loaded before we subscribed
+    settingsService.load().then(() => {
+      setSettings(settingsService.getSettings());
+    });
+
+    return unsubscribe;
+  }, [settingsService]);
+
+  return {
+    settings,
+    updateSettings: settingsService.updateSettings.bind(settingsService),
+  };
+}
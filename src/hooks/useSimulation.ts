@@ -0,0 +1,26 @@
+import { useState, useEffect } from 'react';
+import { SimulationState } from '../types';
+import { SimulationService } from '../services/SimulationService';
+
+export function useSimulation() {
+  const simulationService = SimulationService.getInstance();
+  const [state, setState] = useState<SimulationState>(() => simulationService.getState());
+
+  useEffect(() => {
+    const unsubscribe = simulationService.addListener(setState);
+
+    // Pick up anything that changed before we subscribed
+    setState(simulationService.getState());
+
+    return unsubscribe;
+  }, [simulationService]);
+
+  return {
+    source: state.source,
+    session: state.session,
+    options: state.options,
+    setSource: simulationService.setSource.bind(simulationService),
+    loadSession: simulationService.loadSession.bind(simulationService),
+    updateOptions: simulationService.updateOptions.bind(simulationService),
+  };
+}
@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react';
+import { TrackState } from '../types';
+import { TrackService } from '../services/TrackService';
+
+export function useTracks() {
+  const trackService = TrackService.getInstance();
+  const [state, setState] = useState<TrackState>(() => trackService.getState());
+
+  useEffect(() => {
+    const unsubscribe = trackService.addListener(setState);
+
+    // Pick up anything that loaded before we subscribed
+    trackService.load().then(() => {
+      setState(trackService.getState());
+    });
+
+    return unsubscribe;
+  }, [trackService]);
+
+  return {
+    status: state.status,
+    recording: state.recording,
+    tracks: state.tracks,
+    startRecording: trackService.startRecording.bind(trackService),
+    pauseRecording: trackService.pauseRecording.bind(trackService),
+    resumeRecording: trackService.resumeRecording.bind(trackService),
+    splitSegment: trackService.splitSegment.bind(trackService),
+    stopRecording: trackService.stopRecording.bind(trackService),
+    removeTrack: trackService.removeTrack.bind(trackService),
+    exportTrack: trackService.exportTrack.bind(trackService),
+  };
+}
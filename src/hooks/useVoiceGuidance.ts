@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+import { NavigationData } from '../types';
+import { SpeechService } from '../services/SpeechService';
+import { DEFAULT_ARRIVAL_RADIUS } from '../utils/route';
+import { SpeechBackend, VoiceGuidance } from '../utils/voiceGuidance';
+import { useSettings } from './useSettings';
+
+/**
+ * Speak guidance for the navigation data as it changes
+ * @param navigationData Current navigation data
+ * @param backend Where to speak; text-to-speech by default
+ */
+export function useVoiceGuidance(
+  navigationData: NavigationData,
+  backend: SpeechBackend = SpeechService.getInstance()
+) {
+  const { settings } = useSettings();
+  const guidanceRef = useRef<VoiceGuidance | null>(null);
+  if (!guidanceRef.current) {
+    guidanceRef.current = new VoiceGuidance(backend);
+  }
+
+  // Start fresh whenever guidance is switched on, so old milestones are not skipped
+  useEffect(() => {
+    const guidance = guidanceRef.current!;
+    guidance.setVerbosity(settings.voiceGuidance);
+    guidance.reset();
+  }, [settings.voiceGuidance]);
+
+  // Arrive at the same distance as the innermost proximity ring, if there are any
+  useEffect(() => {
+    const rings = settings.proximityRings;
+    guidanceRef.current!.setArrivalRadius(
+      rings.length > 0 ? Math.min(...rings) : DEFAULT_ARRIVAL_RADIUS
+    );
+  }, [settings.proximityRings.join(',')]);
+
+  useEffect(() => {
+    guidanceRef.current!.update(navigationData, settings.distanceUnits);
+  }, [navigationData, settings.distanceUnits]);
+
+  // Stop talking when navigation goes away
+  useEffect(() => {
+    return () => backend.stop();
+  }, [backend]);
+}
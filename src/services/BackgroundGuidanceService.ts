@@ -0,0 +1,87 @@
+import { Platform } from 'react-native';
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import { LocationService } from './LocationService';
+
+const TASK_NAME = 'compass-navigate-background-guidance';
+
+// Tasks must be defined when the JS bundle loads, before anything starts them.
+// In the background Android pauses the location watch and the sensors alike,
+// so the fixes from this task are the only ones left; the navigation engine
+// drops the frozen sensor heading and steers by the GPS course, if that is on.
+TaskManager.defineTask<{ locations: Location.LocationObject[] }>(
+  TASK_NAME,
+  async ({ data, error }) => {
+    if (error) {
+      console.error('Background guidance task error:', error);
+      return;
+    }
+    LocationService.getInstance().handleBackgroundLocations(data.locations);
+  }
+);
+
+/**
+ * Keeps guidance running while the screen is off or the app is in the
+ * background, using a background location session (a foreground service
+ * with a notification). Android only: iOS would keep the app alive, but it
+ * plays no haptics for apps in the background, so there is nothing to gain.
+ */
+export class BackgroundGuidanceService {
+  private static instance: BackgroundGuidanceService;
+
+  private constructor() {}
+
+  static getInstance(): BackgroundGuidanceService {
+    if (!BackgroundGuidanceService.instance) {
+      BackgroundGuidanceService.instance = new BackgroundGuidanceService();
+    }
+    return BackgroundGuidanceService.instance;
+  }
+
+  /**
+   * Start the background session. Background location access must already be
+   * granted; it is asked for through PermissionService, from the settings screen.
+   * @returns true if guidance will keep running in the background
+   */
+  async start(): Promise<boolean> {
+    if (Platform.OS !== 'android') return false;
+
+    try {
+      if (await Location.hasStartedLocationUpdatesAsync(TASK_NAME)) return true;
+
+      const { status } = await Location.getBackgroundPermissionsAsync();
+      if (status !== 'granted') return false;
+
+      await Location.startLocationUpdatesAsync(TASK_NAME, {
+        accuracy: Location.Accuracy.BestForNavigation,
+        distanceInterval: 1,
+        activityType: Location.ActivityType.Fitness,
+        pausesUpdatesAutomatically: false,
+        showsBackgroundLocationIndicator: true,
+        foregroundService: {
+          notificationTitle: 'Guiding to your target',
+          notificationBody: 'Haptic guidance continues with the screen off.',
+          notificationColor: '#00d4ff',
+          killServiceOnDestroy: true,
+        },
+      });
+      return true;
+    } catch (error) {
+      console.error('Error starting background guidance:', error);
+      return false;
+    }
+  }
+
+  /**
+   * End the background session
+   */
+  async stop(): Promise<void> {
+    try {
+      if (await Location.hasStartedLocationUpdatesAsync(TASK_NAME)) {
+        await Location.stopLocationUpdatesAsync(TASK_NAME);
+      }
+    } catch (error) {
+      console.error('Error stopping background guidance:', error);
+    }
+  }
+}
@@ -0,0 +1,233 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Breadcrumb, BreadcrumbMode, BreadcrumbState, LocationFix } from '../types';
+import { LocationService } from './LocationService';
+import {
+  SIMPLIFY_TOLERANCE,
+  advanceBreadcrumb,
+  nearestBreadcrumb,
+  shouldDropBreadcrumb,
+  simplifyPath,
+} from '../utils/breadcrumbs';
+
+const STORAGE_KEY = '@compass-navigate/breadcrumbs';
+
+// Simplify the trail whenever it grows past this many breadcrumbs
+const COMPACT_THRESHOLD = 300;
+
+/**
+ * Drops breadcrumbs from LocationService fixes on the way out and guides the
+ * user back along them, newest first. The trail is saved so a return still
+ * works after the app restarts.
+ */
+export class BreadcrumbService {
+  private static instance: BreadcrumbService;
+  private mode: BreadcrumbMode = 'off';
+  private trail: Breadcrumb[] = [];
+  private targetIndex: number | null = null;
+  private unsubscribeLocation: (() => void) | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private listeners: Set<(state: BreadcrumbState) => void> = new Set();
+
+  private constructor() {}
+
+  static getInstance(): BreadcrumbService {
+    if (!BreadcrumbService.instance) {
+      BreadcrumbService.instance = new BreadcrumbService();
+    }
+    return BreadcrumbService.instance;
+  }
+
+  /**
+   * Load the saved trail from storage (only reads once)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.readFromStorage();
+    }
+    return this.loadPromise;
+  }
+
+  private async readFromStorage(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored && this.mode === 'off') {
+        const state: BreadcrumbState = JSON.parse(stored);
+        this.mode = state.mode;
+        this.trail = state.trail;
+        this.targetIndex = state.targetIndex;
+        if (this.mode === 'dropping' || this.mode === 'returning') this.subscribe();
+        this.notifyListeners();
+      }
+    } catch (error) {
+      console.error('Error loading breadcrumbs:', error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.getState()));
+    } catch (error) {
+      console.error('Error saving breadcrumbs:', error);
+    }
+  }
+
+  /**
+   * Get the mode, the trail and the breadcrumb being returned to
+   */
+  getState(): BreadcrumbState {
+    return {
+      mode: this.mode,
+      trail: this.trail,
+      targetIndex: this.targetIndex,
+    };
+  }
+
+  /**
+   * Start a new trail from the current position
+   */
+  async startDropping(): Promise<void> {
+    await this.load();
+
+    this.trail = [];
+    this.targetIndex = null;
+    this.mode = 'dropping';
+    this.subscribe();
+
+    const location = LocationService.getInstance().getLastKnownLocation();
+    if (location) this.drop(location);
+
+    await this.commit();
+  }
+
+  /**
+   * Turn around and follow the trail back, starting from the nearest breadcrumb
+   */
+  async startReturn(): Promise<void> {
+    await this.load();
+    if (this.trail.length === 0) return;
+
+    this.trail = simplifyPath(this.trail, SIMPLIFY_TOLERANCE);
+    const location = LocationService.getInstance().getLastKnownLocation();
+    const nearest = location ? nearestBreadcrumb(location, this.trail) : null;
+    let targetIndex: number | null = nearest ?? this.trail.length - 1;
+    if (location) {
+      targetIndex = advanceBreadcrumb(location, this.trail, targetIndex);
+    }
+
+    // Already standing at the start: nothing to return along
+    if (targetIndex === null) {
+      await this.endReturn();
+      return;
+    }
+
+    this.targetIndex = targetIndex;
+    this.mode = 'returning';
+    this.subscribe();
+
+    await this.commit();
+  }
+
+  /**
+   * Stop returning and carry on extending the trail from here
+   */
+  async resumeDropping(): Promise<void> {
+    await this.load();
+    if (this.mode !== 'returning') return;
+
+    this.targetIndex = null;
+    this.mode = 'dropping';
+
+    const location = LocationService.getInstance().getLastKnownLocation();
+    if (location && shouldDropBreadcrumb(this.trail, location)) this.drop(location);
+
+    await this.commit();
+  }
+
+  /**
+   * Discard the trail and stop dropping breadcrumbs
+   */
+  async clear(): Promise<void> {
+    await this.load();
+
+    this.unsubscribe();
+    this.trail = [];
+    this.targetIndex = null;
+    this.mode = 'off';
+    await this.commit();
+  }
+
+  /**
+   * Add a listener for trail changes
+   */
+  addListener(listener: (state: BreadcrumbState) => void): () => void {
+    this.listeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private handleFix = (fix: LocationFix): void => {
+    if (this.mode === 'dropping') {
+      if (!shouldDropBreadcrumb(this.trail, fix)) return;
+      this.drop(fix);
+      this.commit();
+    } else if (this.mode === 'returning' && this.targetIndex !== null) {
+      const targetIndex = advanceBreadcrumb(fix, this.trail, this.targetIndex);
+      if (targetIndex === null) {
+        this.endReturn();
+        return;
+      }
+      if (targetIndex === this.targetIndex) return;
+      this.targetIndex = targetIndex;
+      this.commit();
+    }
+  };
+
+  /**
+   * Back at the start: stop guiding, but keep the trail on show until the
+   * user clears it, so the arrival does not go unnoticed
+   */
+  private async endReturn(): Promise<void> {
+    this.unsubscribe();
+    this.targetIndex = null;
+    this.mode = 'arrived';
+    await this.commit();
+  }
+
+  private drop(fix: LocationFix): void {
+    this.trail = [
+      ...this.trail,
+      { latitude: fix.latitude, longitude: fix.longitude, timestamp: fix.timestamp },
+    ];
+    if (this.trail.length > COMPACT_THRESHOLD) {
+      this.trail = simplifyPath(this.trail, SIMPLIFY_TOLERANCE);
+    }
+  }
+
+  private subscribe(): void {
+    if (!this.unsubscribeLocation) {
+      this.unsubscribeLocation = LocationService.getInstance().addListener(this.handleFix);
+    }
+  }
+
+  private unsubscribe(): void {
+    if (this.unsubscribeLocation) {
+      this.unsubscribeLocation();
+      this.unsubscribeLocation = null;
+    }
+  }
+
+  private async commit(): Promise<void> {
+    this.notifyListeners();
+    await this.persist();
+  }
+
+  private notifyListeners(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => {
+      listener(state);
+    });
+  }
+}
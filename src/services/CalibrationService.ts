@@ -0,0 +1,159 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CalibrationProgress, MagnetometerCalibration, Vector3 } from '../types';
+import { SensorService } from './SensorService';
+import {
+  calculateCoverage,
+  estimateCenter,
+  fitMagnetometerCalibration,
+  MIN_CALIBRATION_COVERAGE,
+  MIN_CALIBRATION_SAMPLES,
+} from '../utils/magnetometerCalibration';
+
+const STORAGE_KEY = '@compass-navigate/magnetometer-calibration';
+
+// Cap memory use during long calibration sessions
+const MAX_SAMPLES = 2000;
+
+export class CalibrationService {
+  private static instance: CalibrationService;
+  private samples: Vector3[] = [];
+  private unsubscribeRaw: (() => void) | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private listeners: Set<(progress: CalibrationProgress) => void> = new Set();
+
+  private constructor() {}
+
+  static getInstance(): CalibrationService {
+    if (!CalibrationService.instance) {
+      CalibrationService.instance = new CalibrationService();
+    }
+    return CalibrationService.instance;
+  }
+
+  /**
+   * Load the saved calibration and apply it to the SensorService (only reads once)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.readFromStorage();
+    }
+    return this.loadPromise;
+  }
+
+  private async readFromStorage(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        SensorService.getInstance().setMagnetometerCalibration(JSON.parse(stored));
+      }
+    } catch (error) {
+      console.error('Error loading magnetometer calibration:', error);
+    }
+  }
+
+  /**
+   * Start collecting raw magnetometer samples. The user should rotate the
+   * phone in a figure-8 so every axis points in every direction.
+   */
+  startCollection(): void {
+    this.stopCollection();
+    this.samples = [];
+
+    this.unsubscribeRaw = SensorService.getInstance().addRawMagnetometerListener(
+      (sample) => {
+        if (this.samples.length >= MAX_SAMPLES) {
+          this.samples.shift();
+        }
+        this.samples.push({ x: sample.x, y: sample.y, z: sample.z });
+        this.notifyListeners();
+      }
+    );
+    this.notifyListeners();
+  }
+
+  /**
+   * Stop collecting samples without computing a result
+   */
+  stopCollection(): void {
+    if (this.unsubscribeRaw) {
+      this.unsubscribeRaw();
+      this.unsubscribeRaw = null;
+    }
+  }
+
+  /**
+   * Check whether samples are being collected
+   */
+  isCollecting(): boolean {
+    return this.unsubscribeRaw !== null;
+  }
+
+  /**
+   * Get sample count and direction coverage of the current session
+   */
+  getProgress(): CalibrationProgress {
+    const coverage = calculateCoverage(this.samples, estimateCenter(this.samples));
+    const covered = coverage.filter(Boolean).length / coverage.length;
+
+    return {
+      sampleCount: this.samples.length,
+      coverage,
+      canFinish:
+        this.samples.length >= MIN_CALIBRATION_SAMPLES && covered >= MIN_CALIBRATION_COVERAGE,
+    };
+  }
+
+  /**
+   * Stop collecting and fit hard-iron / soft-iron correction to the samples
+   * @returns The new calibration (not yet applied), or null if the fit failed
+   */
+  finishCollection(): MagnetometerCalibration | null {
+    this.stopCollection();
+    return fitMagnetometerCalibration(this.samples);
+  }
+
+  /**
+   * Apply a calibration to the SensorService and persist it
+   */
+  async saveCalibration(calibration: MagnetometerCalibration): Promise<void> {
+    SensorService.getInstance().setMagnetometerCalibration(calibration);
+
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(calibration));
+    } catch (error) {
+      console.error('Error saving magnetometer calibration:', error);
+    }
+  }
+
+  /**
+   * Remove the saved calibration
+   */
+  async clearCalibration(): Promise<void> {
+    SensorService.getInstance().setMagnetometerCalibration(null);
+
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.error('Error clearing magnetometer calibration:', error);
+    }
+  }
+
+  /**
+   * Add a listener for collection progress
+   */
+  addListener(listener: (progress: CalibrationProgress) => void): () => void {
+    this.listeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notifyListeners(): void {
+    const progress = this.getProgress();
+    this.listeners.forEach((listener) => {
+      listener(progress);
+    });
+  }
+}
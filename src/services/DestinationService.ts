@@ -0,0 +1,291 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Destination, DestinationInput, DestinationState, Route, RouteInput } from '../types';
+
+const STORAGE_KEY = '@compass-navigate/destinations';
+
+// Digantara Industries coordinates, seeded on first launch
+const DEFAULT_DESTINATION: Destination = {
+  id: 'digantara-industries',
+  name: 'Digantara Industries',
+  description: 'Bengaluru, India',
+  coordinates: {
+    latitude: 13.0453132,
+    longitude: 77.5733936,
+  },
+  icon: '🏢',
+  createdAt: 0,
+};
+
+export class DestinationService {
+  private static instance: DestinationService;
+  private destinations: Destination[] = [DEFAULT_DESTINATION];
+  private activeDestinationId: string | null = DEFAULT_DESTINATION.id;
+  private routes: Route[] = [];
+  private activeRouteId: string | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private listeners: Set<(state: DestinationState) => void> = new Set();
+
+  private constructor() {}
+
+  static getInstance(): DestinationService {
+    if (!DestinationService.instance) {
+      DestinationService.instance = new DestinationService();
+    }
+    return DestinationService.instance;
+  }
+
+  /**
+   * Load saved destinations from storage (only reads once)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.readFromStorage();
+    }
+    return this.loadPromise;
+  }
+
+  private async readFromStorage(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const state: DestinationState = JSON.parse(stored);
+        this.destinations = state.destinations;
+        this.activeDestinationId = state.activeDestinationId;
+        this.routes = state.routes ?? [];
+        this.activeRouteId = state.activeRouteId ?? null;
+        this.notifyListeners();
+      }
+    } catch (error) {
+      console.error('Error loading destinations:', error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.getState()));
+    } catch (error) {
+      console.error('Error saving destinations:', error);
+    }
+  }
+
+  /**
+   * Get all saved destinations
+   */
+  getDestinations(): Destination[] {
+    return this.destinations;
+  }
+
+  /**
+   * Get the destination currently used for navigation
+   */
+  getActiveDestination(): Destination | null {
+    return (
+      this.destinations.find((d) => d.id === this.activeDestinationId) ?? null
+    );
+  }
+
+  /**
+   * Get all saved routes
+   */
+  getRoutes(): Route[] {
+    return this.routes;
+  }
+
+  /**
+   * Get the route currently used for navigation, if in route mode
+   */
+  getActiveRoute(): Route | null {
+    return this.routes.find((r) => r.id === this.activeRouteId) ?? null;
+  }
+
+  /**
+   * Get a snapshot of the store
+   */
+  getState(): DestinationState {
+    return {
+      destinations: this.destinations,
+      activeDestinationId: this.activeDestinationId,
+      routes: this.routes,
+      activeRouteId: this.activeRouteId,
+    };
+  }
+
+  /**
+   * Save a new destination
+   */
+  async addDestination(input: DestinationInput): Promise<Destination> {
+    await this.load();
+
+    const destination: Destination = {
+      ...input,
+      id: createId(),
+      createdAt: Date.now(),
+    };
+
+    this.destinations = [...this.destinations, destination];
+
+    // Navigate to the first destination automatically
+    if (this.activeDestinationId === null) {
+      this.activeDestinationId = destination.id;
+    }
+
+    await this.commit();
+    return destination;
+  }
+
+  /**
+   * Edit an existing destination
+   */
+  async updateDestination(id: string, changes: Partial<DestinationInput>): Promise<void> {
+    await this.load();
+
+    this.destinations = this.destinations.map((d) =>
+      d.id === id ? { ...d, ...changes } : d
+    );
+    await this.commit();
+  }
+
+  /**
+   * Delete a destination
+   */
+  async removeDestination(id: string): Promise<void> {
+    await this.load();
+
+    this.destinations = this.destinations.filter((d) => d.id !== id);
+
+    if (this.activeDestinationId === id) {
+      this.activeDestinationId = this.destinations[0]?.id ?? null;
+    }
+
+    await this.commit();
+  }
+
+  /**
+   * Choose the destination to navigate to
+   */
+  async selectDestination(id: string): Promise<void> {
+    await this.load();
+
+    if (!this.destinations.some((d) => d.id === id)) return;
+
+    this.activeDestinationId = id;
+    this.activeRouteId = null;
+    await this.commit();
+  }
+
+  /**
+   * Save a new route
+   */
+  async addRoute(input: RouteInput): Promise<Route> {
+    await this.load();
+
+    const route: Route = {
+      ...input,
+      id: createId(),
+      createdAt: Date.now(),
+    };
+
+    this.routes = [...this.routes, route];
+    await this.commit();
+    return route;
+  }
+
+  /**
+   * Edit an existing route
+   */
+  async updateRoute(id: string, changes: Partial<RouteInput>): Promise<void> {
+    await this.load();
+
+    this.routes = this.routes.map((r) => (r.id === id ? { ...r, ...changes } : r));
+    await this.commit();
+  }
+
+  /**
+   * Delete a route
+   */
+  async removeRoute(id: string): Promise<void> {
+    await this.load();
+
+    this.routes = this.routes.filter((r) => r.id !== id);
+
+    if (this.activeRouteId === id) {
+      this.activeRouteId = null;
+    }
+
+    await this.commit();
+  }
+
+  /**
+   * Switch to route mode and navigate along the given route
+   */
+  async selectRoute(id: string): Promise<void> {
+    await this.load();
+
+    const route = this.routes.find((r) => r.id === id);
+    if (!route || route.waypoints.length === 0) return;
+
+    this.activeRouteId = id;
+    await this.commit();
+  }
+
+  /**
+   * Leave route mode and go back to the active destination
+   */
+  async clearRoute(): Promise<void> {
+    await this.load();
+
+    this.activeRouteId = null;
+    await this.commit();
+  }
+
+  /**
+   * Save imported destinations and routes in one go
+   */
+  async importItems(destinations: DestinationInput[], routes: RouteInput[]): Promise<void> {
+    await this.load();
+
+    const createdAt = Date.now();
+    this.destinations = [
+      ...this.destinations,
+      ...destinations.map((input) => ({ ...input, id: createId(), createdAt })),
+    ];
+    this.routes = [
+      ...this.routes,
+      ...routes.map((input) => ({ ...input, id: createId(), createdAt })),
+    ];
+
+    if (this.activeDestinationId === null) {
+      this.activeDestinationId = this.destinations[0]?.id ?? null;
+    }
+
+    await this.commit();
+  }
+
+  /**
+   * Add a listener for destination changes
+   */
+  addListener(listener: (state: DestinationState) => void): () => void {
+    this.listeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async commit(): Promise<void> {
+    this.notifyListeners();
+    await this.persist();
+  }
+
+  private notifyListeners(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => {
+      listener(state);
+    });
+  }
+}
+
+function createId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
@@ -0,0 +1,66 @@
+import { Platform, Vibration } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { HapticGuidanceStyle } from '../types';
+import { HAPTIC_PATTERNS, HapticCue } from '../utils/hapticGuidance';
+
+/**
+ * Plays haptic guidance cues on the device
+ */
+export class HapticGuidanceService {
+  private static instance: HapticGuidanceService;
+  private timers: ReturnType<typeof setTimeout>[] = [];
+
+  private constructor() {}
+
+  static getInstance(): HapticGuidanceService {
+    if (!HapticGuidanceService.instance) {
+      HapticGuidanceService.instance = new HapticGuidanceService();
+    }
+    return HapticGuidanceService.instance;
+  }
+
+  /**
+   * Play a cue in the given style, cutting off any cue still playing
+   */
+  play(cue: HapticCue, style: Exclude<HapticGuidanceStyle, 'off'>): void {
+    const pattern = HAPTIC_PATTERNS[style][cue];
+    this.cancel();
+
+    if (Platform.OS === 'android') {
+      // Android takes durations directly, starting with a delay before the first buzz
+      Vibration.vibrate([0, ...pattern]);
+      return;
+    }
+
+    // iOS ignores vibration durations, so play each buzz as a haptic impact.
+    // Longer buzzes become heavier impacts.
+    let offset = 0;
+    pattern.forEach((duration, index) => {
+      if (index % 2 === 0) {
+        const impact =
+          duration >= 150
+            ? Haptics.ImpactFeedbackStyle.Heavy
+            : duration >= 80
+              ? Haptics.ImpactFeedbackStyle.Medium
+              : Haptics.ImpactFeedbackStyle.Light;
+        this.timers.push(
+          setTimeout(() => {
+            Haptics.impactAsync(impact).catch((error) => {
+              console.error('Error playing haptic cue:', error);
+            });
+          }, offset)
+        );
+      }
+      offset += duration;
+    });
+  }
+
+  /**
+   * Stop any cue still playing
+   */
+  cancel(): void {
+    this.timers.forEach(clearTimeout);
+    this.timers = [];
+    if (Platform.OS === 'android') Vibration.cancel();
+  }
+}
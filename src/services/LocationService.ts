@@ -1,11 +1,19 @@
 import * as Location from 'expo-location';
-import { Coordinates } from '../types';
+import { LocationFix } from '../types';
+import { PositionKalmanFilter } from '../utils/filters';
+import { LocationSource } from '../utils/simulation';
 
 export class LocationService {
   private static instance: LocationService;
-  private currentLocation: Coordinates | null = null;
-  private locationSubscription: Location.LocationSubscription | null = null;
-  private listeners: Set<(location: Coordinates) => void> = new Set();
+  private currentLocation: LocationFix | null = null;
+  private rawLocation: LocationFix | null = null;
+  private positionFilter = new PositionKalmanFilter();
+  private smoothingEnabled: boolean = true;
+  private locationSubscription: { remove: () => void } | null = null;
+  private watchGeneration: number = 0; // bumped by stopWatching() so a pending start gives up
+  private watchQueue: Promise<unknown> = Promise.resolve(); // starts run one at a time
+  private source: LocationSource | null = null; // replaces the GPS while simulating
+  private listeners: Set<(location: LocationFix) => void> = new Set();
 
   private constructor() { }
 
@@ -20,6 +28,7 @@ export class LocationService {
    * Request location permissions
    */
   async requestPermissions(): Promise<boolean> {
+    if (this.source) return true;
     try {
       const { status } = await Location.requestForegroundPermissionsAsync();
       return status === 'granted';
@@ -33,6 +42,7 @@ export class LocationService {
    * Check if location permissions are granted
    */
   async hasPermissions(): Promise<boolean> {
+    if (this.source) return true;
     try {
       const { status } = await Location.getForegroundPermissionsAsync();
       return status === 'granted';
@@ -42,10 +52,24 @@ export class LocationService {
     }
   }
 
+  /**
+   * Check if location services are turned on for the whole device
+   */
+  async hasServicesEnabled(): Promise<boolean> {
+    if (this.source) return true;
+    try {
+      return await Location.hasServicesEnabledAsync();
+    } catch (error) {
+      // Let starting the watch find out instead
+      console.error('Error checking location services:', error);
+      return true;
+    }
+  }
+
   /**
    * Get current location once
    */
-  async getCurrentLocation(): Promise<Coordinates | null> {
+  async getCurrentLocation(): Promise<LocationFix | null> {
     try {
       const hasPermission = await this.hasPermissions();
       if (!hasPermission) {
@@ -53,15 +77,17 @@ export class LocationService {
         if (!granted) return null;
       }
 
+      if (this.source) {
+        const fix = this.source.getCurrentFix();
+        this.currentLocation = fix && this.smoothFix(fix);
+        return this.currentLocation;
+      }
+
       const location = await Location.getCurrentPositionAsync({
         accuracy: Location.Accuracy.BestForNavigation,
-        maximumAge: 1000, // Don't use cached location older than 1 second
       });
 
-      this.currentLocation = {
-        latitude: location.coords.latitude,
-        longitude: location.coords.longitude,
-      };
+      this.currentLocation = this.smoothFix(this.toLocationFix(location));
 
       // console.log('📍 Initial Location:', {
       //   lat: this.currentLocation.latitude.toFixed(6),
@@ -77,30 +103,46 @@ export class LocationService {
   }
 
   /**
-   * Start watching location changes
+   * Start watching location changes. Starts run one after another, and a
+   * start overtaken by stopWatching() or a newer start removes its own
+   * subscription, so only one native watch is ever left running.
+   * @returns false if the watch failed to start or was overtaken
    */
-  async startWatching(): Promise<boolean> {
+  startWatching(): Promise<boolean> {
+    const started = this.watchQueue.then(() => this.watch());
+    this.watchQueue = started;
+    return started;
+  }
+
+  private async watch(): Promise<boolean> {
     try {
+      // Stop any existing subscription
+      this.stopWatching();
+      const generation = this.watchGeneration;
+
       const hasPermission = await this.hasPermissions();
       if (!hasPermission) {
         const granted = await this.requestPermissions();
         if (!granted) return false;
       }
+      if (generation !== this.watchGeneration) return false;
 
-      // Stop any existing subscription
-      this.stopWatching();
+      if (this.source) {
+        this.locationSubscription = this.source.watchLocation((fix) => {
+          this.handleFix(this.smoothFix(fix));
+        });
+        return true;
+      }
 
-      this.locationSubscription = await Location.watchPositionAsync(
+      const subscription = await Location.watchPositionAsync(
         {
           accuracy: Location.Accuracy.BestForNavigation, // Changed from High
           distanceInterval: 1, // Changed from 5 - update every 1 meter
           timeInterval: 500, // Changed from 1000 - update every 0.5 seconds
         },
         (location) => {
-          const newLocation = {
-            latitude: location.coords.latitude,
-            longitude: location.coords.longitude,
-          };
+          if (generation !== this.watchGeneration) return;
+          const newLocation = this.smoothFix(this.toLocationFix(location));
 
           // Log location updates for debugging
           // console.log('📍 Location Updated:', {
@@ -110,15 +152,15 @@ export class LocationService {
           //   speed: location.coords.speed?.toFixed(1),
           // });
 
-          this.currentLocation = newLocation;
-
-          // Notify all listeners
-          this.listeners.forEach((listener) => {
-            listener(this.currentLocation!);
-          });
+          this.handleFix(newLocation);
         }
       );
 
+      if (generation !== this.watchGeneration) {
+        subscription.remove();
+        return false;
+      }
+      this.locationSubscription = subscription;
       return true;
     } catch (error) {
       console.error('Error starting location watch:', error);
@@ -126,10 +168,100 @@ export class LocationService {
     }
   }
 
+  /**
+   * Store a new fix and notify all listeners
+   */
+  private handleFix(location: LocationFix): void {
+    this.currentLocation = location;
+
+    // Notify all listeners
+    this.listeners.forEach((listener) => {
+      listener(location);
+    });
+  }
+
+  /**
+   * Take fixes from the background location task. Android pauses the watch
+   * while the app is in the background, so these keep guidance going then;
+   * fixes the watch has already delivered are skipped.
+   */
+  handleBackgroundLocations(locations: Location.LocationObject[]): void {
+    if (this.source || !this.locationSubscription) return;
+
+    locations.forEach((location) => {
+      if (this.rawLocation && location.timestamp <= this.rawLocation.timestamp) return;
+      this.handleFix(this.smoothFix(this.toLocationFix(location)));
+    });
+  }
+
+  /**
+   * Convert an expo-location fix to a LocationFix
+   */
+  private toLocationFix(location: Location.LocationObject): LocationFix {
+    const { coords } = location;
+    return {
+      latitude: coords.latitude,
+      longitude: coords.longitude,
+      accuracy: coords.accuracy,
+      altitude: coords.altitude,
+      altitudeAccuracy: coords.altitudeAccuracy,
+      // Platforms report -1 when speed or course is unknown
+      speed: coords.speed !== null && coords.speed >= 0 ? coords.speed : null,
+      heading: coords.heading !== null && coords.heading >= 0 ? coords.heading : null,
+      timestamp: location.timestamp,
+    };
+  }
+
+  /**
+   * Remember a raw fix and smooth its position if enabled
+   */
+  private smoothFix(fix: LocationFix): LocationFix {
+    this.rawLocation = fix;
+
+    // Always feed the filter so toggling smoothing on is instant
+    const smoothed = this.positionFilter.update(fix, fix.accuracy, fix.timestamp);
+
+    return this.smoothingEnabled ? { ...this.rawLocation, ...smoothed } : this.rawLocation;
+  }
+
+  /**
+   * Enable or disable Kalman smoothing of location fixes
+   */
+  setSmoothingEnabled(enabled: boolean): void {
+    this.smoothingEnabled = enabled;
+  }
+
+  /**
+   * Check if location fixes are smoothed
+   */
+  isSmoothingEnabled(): boolean {
+    return this.smoothingEnabled;
+  }
+
+  /**
+   * Take fixes from a simulated source instead of the GPS (null for the GPS).
+   * Stops watching; call startWatching again to pick up the new source.
+   */
+  setSource(source: LocationSource | null): void {
+    this.stopWatching();
+    this.source = source;
+    this.currentLocation = null;
+    this.rawLocation = null;
+    this.positionFilter.reset();
+  }
+
+  /**
+   * Check if fixes come from a simulated source
+   */
+  isSimulated(): boolean {
+    return this.source !== null;
+  }
+
   /**
    * Stop watching location changes
    */
   stopWatching(): void {
+    this.watchGeneration++;
     if (this.locationSubscription) {
       this.locationSubscription.remove();
       this.locationSubscription = null;
@@ -139,7 +271,7 @@ export class LocationService {
   /**
    * Add a listener for location updates
    */
-  addListener(listener: (location: Coordinates) => void): () => void {
+  addListener(listener: (location: LocationFix) => void): () => void {
     this.listeners.add(listener);
 
     // Return unsubscribe function
@@ -151,10 +283,17 @@ export class LocationService {
   /**
    * Get the last known location
    */
-  getLastKnownLocation(): Coordinates | null {
+  getLastKnownLocation(): LocationFix | null {
     return this.currentLocation;
   }
 
+  /**
+   * Get the last unsmoothed location fix
+   */
+  getLastRawLocation(): LocationFix | null {
+    return this.rawLocation;
+  }
+
   /**
    * Clean up resources
    */
@@ -162,5 +301,7 @@ export class LocationService {
     this.stopWatching();
     this.listeners.clear();
     this.currentLocation = null;
+    this.rawLocation = null;
+    this.positionFilter.reset();
   }
 }
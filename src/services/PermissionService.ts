@@ -0,0 +1,172 @@
+import { AppState, AppStateStatus, Linking, NativeEventSubscription } from 'react-native';
+import * as Location from 'expo-location';
+import { DeviceMotion } from 'expo-sensors';
+import { AppPermissions, PermissionKind, PermissionStatus } from '../types';
+
+type PermissionCall = () => Promise<Location.PermissionResponse>;
+
+const PERMISSION_APIS: Record<PermissionKind, { get: PermissionCall; request: PermissionCall }> = {
+  location: {
+    get: () => Location.getForegroundPermissionsAsync(),
+    request: () => Location.requestForegroundPermissionsAsync(),
+  },
+  motion: {
+    get: () => DeviceMotion.getPermissionsAsync(),
+    request: () => DeviceMotion.requestPermissionsAsync(),
+  },
+  backgroundLocation: {
+    get: () => Location.getBackgroundPermissionsAsync(),
+    request: () => Location.requestBackgroundPermissionsAsync(),
+  },
+};
+
+/**
+ * Tracks location, motion and background location permission from
+ * undetermined through pending to granted or denied. A denial the system will
+ * not ask about again is reported as denied permanently, since only the system
+ * settings can change it; the state is checked again whenever the app returns
+ * to the foreground.
+ */
+export class PermissionService {
+  private static instance: PermissionService;
+  private permissions: AppPermissions = {
+    location: PermissionStatus.UNDETERMINED,
+    motion: PermissionStatus.UNDETERMINED,
+    backgroundLocation: PermissionStatus.UNDETERMINED,
+  };
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private listeners: Set<(permissions: AppPermissions) => void> = new Set();
+
+  private constructor() {}
+
+  static getInstance(): PermissionService {
+    if (!PermissionService.instance) {
+      PermissionService.instance = new PermissionService();
+    }
+    return PermissionService.instance;
+  }
+
+  /**
+   * Check the current permissions (only checks once) and start re-checking
+   * when the app comes back to the foreground
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.appStateSubscription = AppState.addEventListener('change', this.handleAppState);
+      this.loadPromise = this.check();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Get the status of every permission
+   */
+  getPermissions(): AppPermissions {
+    return { ...this.permissions };
+  }
+
+  /**
+   * Read the status of every permission from the system without asking the user
+   */
+  async check(): Promise<void> {
+    await Promise.all(
+      (Object.keys(PERMISSION_APIS) as PermissionKind[]).map(async (kind) => {
+        // A request in flight settles the status itself
+        if (this.permissions[kind] === PermissionStatus.PENDING) return;
+        try {
+          this.setStatus(kind, toPermissionStatus(await PERMISSION_APIS[kind].get()));
+        } catch (error) {
+          console.error(`Error checking ${kind} permission:`, error);
+        }
+      })
+    );
+  }
+
+  /**
+   * Ask the user for a permission. A permanently denied permission is not
+   * asked again; use openSettings instead.
+   * @returns The status after the user answered
+   */
+  async request(kind: PermissionKind): Promise<PermissionStatus> {
+    await this.load();
+    const current = this.permissions[kind];
+    if (
+      current === PermissionStatus.GRANTED ||
+      current === PermissionStatus.DENIED_PERMANENTLY ||
+      current === PermissionStatus.PENDING
+    ) {
+      return current;
+    }
+
+    this.setStatus(kind, PermissionStatus.PENDING);
+    let status: PermissionStatus = current;
+    try {
+      status = toPermissionStatus(await PERMISSION_APIS[kind].request());
+    } catch (error) {
+      console.error(`Error requesting ${kind} permission:`, error);
+    }
+    this.setStatus(kind, status);
+    return status;
+  }
+
+  /**
+   * Open this app's page in the system settings
+   */
+  async openSettings(): Promise<void> {
+    try {
+      await Linking.openSettings();
+    } catch (error) {
+      console.error('Error opening settings:', error);
+    }
+  }
+
+  /**
+   * Add a listener for permission changes
+   */
+  addListener(listener: (permissions: AppPermissions) => void): () => void {
+    this.listeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stop watching for the app returning to the foreground
+   */
+  cleanup(): void {
+    if (this.appStateSubscription) {
+      this.appStateSubscription.remove();
+      this.appStateSubscription = null;
+    }
+    this.loadPromise = null;
+  }
+
+  // Permissions may have been changed in the system settings while we were away
+  private handleAppState = (state: AppStateStatus): void => {
+    if (state === 'active') {
+      this.check();
+    }
+  };
+
+  private setStatus(kind: PermissionKind, status: PermissionStatus): void {
+    if (this.permissions[kind] === status) return;
+    this.permissions = { ...this.permissions, [kind]: status };
+    this.notifyListeners();
+  }
+
+  private notifyListeners(): void {
+    const permissions = this.getPermissions();
+    this.listeners.forEach((listener) => {
+      listener(permissions);
+    });
+  }
+}
+
+function toPermissionStatus(response: Location.PermissionResponse): PermissionStatus {
+  if (response.granted) return PermissionStatus.GRANTED;
+  if (response.status === 'undetermined') return PermissionStatus.UNDETERMINED;
+  return response.canAskAgain ? PermissionStatus.DENIED : PermissionStatus.DENIED_PERMANENTLY;
+}
@@ -0,0 +1,115 @@
+import { Platform } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import * as Notifications from 'expo-notifications';
+import { DistanceUnits, ProximityEvent } from '../types';
+import { formatDistance } from '../utils/units';
+
+const CHANNEL_ID = 'proximity';
+
+/**
+ * Turns proximity ring crossings into haptic feedback and local notifications
+ */
+export class ProximityAlertService {
+  private static instance: ProximityAlertService;
+  private setupPromise: Promise<boolean> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): ProximityAlertService {
+    if (!ProximityAlertService.instance) {
+      ProximityAlertService.instance = new ProximityAlertService();
+    }
+    return ProximityAlertService.instance;
+  }
+
+  /**
+   * Set up the notification channel and ask for permission (only once)
+   * @returns true if notifications may be shown
+   */
+  prepare(): Promise<boolean> {
+    if (!this.setupPromise) {
+      this.setupPromise = this.setup();
+    }
+    return this.setupPromise;
+  }
+
+  private async setup(): Promise<boolean> {
+    try {
+      Notifications.setNotificationHandler({
+        handleNotification: async () => ({
+          shouldShowBanner: true,
+          shouldShowList: true,
+          shouldPlaySound: true,
+          shouldSetBadge: false,
+        }),
+      });
+
+      if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+          name: 'Proximity alerts',
+          importance: Notifications.AndroidImportance.HIGH,
+          vibrationPattern: [0, 250, 150, 250],
+        });
+      }
+
+      const existing = await Notifications.getPermissionsAsync();
+      if (existing.granted) return true;
+      if (!existing.canAskAgain) return false;
+
+      const requested = await Notifications.requestPermissionsAsync();
+      return requested.granted;
+    } catch (error) {
+      console.error('Error setting up notifications:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Alert the user about a ring crossing
+   * @param event The crossing
+   * @param targetName Name of the destination or waypoint
+   * @param units Units for the distance in the message
+   */
+  async alert(event: ProximityEvent, targetName: string, units: DistanceUnits): Promise<void> {
+    await this.vibrate(event);
+
+    const ring = formatDistance(event.radius, units);
+    let title: string;
+    if (event.type === 'leave') {
+      title = `Left the ${ring} ring around ${targetName}`;
+    } else if (event.arrived) {
+      title = `Arrived at ${targetName}`;
+    } else {
+      title = `Within ${ring} of ${targetName}`;
+    }
+
+    try {
+      if (!(await this.prepare())) return;
+
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title,
+          body: `${formatDistance(event.distance, units)} away`,
+          data: { radius: event.radius, type: event.type },
+        },
+        trigger: Platform.OS === 'android' ? { channelId: CHANNEL_ID } : null,
+      });
+    } catch (error) {
+      console.error('Error showing proximity notification:', error);
+    }
+  }
+
+  private async vibrate(event: ProximityEvent): Promise<void> {
+    try {
+      if (event.type === 'leave') {
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      } else if (event.arrived) {
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      } else {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+      }
+    } catch (error) {
+      console.error('Error playing haptic feedback:', error);
+    }
+  }
+}
@@ -1,6 +1,40 @@
+import { Platform } from 'react-native';
 import { Magnetometer, Gyroscope, Accelerometer, DeviceMotion } from 'expo-sensors';
-import { AngleFilter, LowPassFilter } from '../utils/filters';
+import {
+  HeadingMode,
+  MagnetometerCalibration,
+  SensorSample,
+  SensorSampleSource,
+  Vector3,
+} from '../types';
+import {
+  AngleComplementaryFilter,
+  AngleFilter,
+  AngleKalmanFilter,
+  LowPassFilter,
+} from '../utils/filters';
 import { normalizeAngle } from '../utils/geolocation';
+import { applyMagnetometerCalibration } from '../utils/magnetometerCalibration';
+import { calculateTiltCompensatedHeading } from '../utils/orientation';
+import { OrientationSource } from '../utils/simulation';
+
+// iOS reports gravity pulling down (-1 g on z when flat), Android reports the
+// reaction pointing up (+1 g); tilt compensation expects the latter
+const ACCELEROMETER_SIGN = Platform.OS === 'ios' ? -1 : 1;
+
+// Ignore gyroscope gaps longer than this instead of integrating across them
+const MAX_GYRO_DT_SECONDS = 0.2;
+
+// Compass noise variances (degrees²) for the Kalman heading mode
+const DEVICE_MOTION_NOISE = 16;
+const MAGNETOMETER_NOISE = 25;
+
+type SensorAvailability = {
+  magnetometer: boolean;
+  gyroscope: boolean;
+  accelerometer: boolean;
+  deviceMotion: boolean;
+};
 
 export class SensorService {
   private static instance: SensorService;
@@ -13,20 +47,43 @@ export class SensorService {
 
   // Filters for smoothing
   private headingFilter = new AngleFilter(0.2);
+  private fusionFilter = new AngleComplementaryFilter(0.98);
+  private kalmanFilter = new AngleKalmanFilter();
   private pitchFilter = new LowPassFilter(0.3);
   private rollFilter = new LowPassFilter(0.3);
+  private gravityFilters = {
+    x: new LowPassFilter(0.3),
+    y: new LowPassFilter(0.3),
+    z: new LowPassFilter(0.3),
+  };
 
   // Current sensor values
   private currentHeading: number = 0;
   private currentPitch: number = 0;
   private currentRoll: number = 0;
+  private currentGravity: Vector3 | null = null;
+  private compassHeading: number | null = null; // unsmoothed absolute heading
+  private lastGyroTimestamp: number | null = null;
+  private lastCompassTimestamp: number | null = null;
+  private currentUncertainty: number | null = null;
+
+  // Heading estimation
+  private headingMode: HeadingMode = 'filtered';
+  private availability: SensorAvailability | null = null;
+  private source: OrientationSource | null = null; // replaces DeviceMotion while simulating
+  private compassOnly: boolean = false; // skip DeviceMotion and use the magnetometer
 
   // Calibration
   private isCalibrated: boolean = false;
   private calibrationOffset: number = 0;
+  private magnetometerCalibration: MagnetometerCalibration | null = null;
 
   // Listeners
-  private listeners: Set<(heading: number, pitch: number, roll: number) => void> = new Set();
+  private listeners: Set<
+    (heading: number, pitch: number, roll: number, uncertainty: number | null) => void
+  > = new Set();
+  private rawMagnetometerListeners: Set<(sample: Vector3) => void> = new Set();
+  private sampleListeners: Set<(sample: SensorSample) => void> = new Set();
 
   private constructor() {}
 
@@ -40,12 +97,12 @@ export class SensorService {
   /**
    * Check if sensors are available on the device
    */
-  async checkAvailability(): Promise<{
-    magnetometer: boolean;
-    gyroscope: boolean;
-    accelerometer: boolean;
-    deviceMotion: boolean;
-  }> {
+  async checkAvailability(): Promise<SensorAvailability> {
+    // A simulated source stands in for DeviceMotion alone
+    if (this.source) {
+      return { magnetometer: false, gyroscope: false, accelerometer: false, deviceMotion: true };
+    }
+
     const [mag, gyro, accel, motion] = await Promise.all([
       Magnetometer.isAvailableAsync(),
       Gyroscope.isAvailableAsync(),
@@ -57,7 +114,7 @@ export class SensorService {
       magnetometer: mag,
       gyroscope: gyro,
       accelerometer: accel,
-      deviceMotion: motion,
+      deviceMotion: motion && !this.compassOnly,
     };
   }
 
@@ -67,11 +124,28 @@ export class SensorService {
   async startSensors(): Promise<boolean> {
     try {
       const availability = await this.checkAvailability();
+      this.availability = availability;
 
       // Set update intervals (in milliseconds)
       Magnetometer.setUpdateInterval(100); // 10 Hz
+      Accelerometer.setUpdateInterval(100);
+      Gyroscope.setUpdateInterval(20); // 50 Hz for integration
       DeviceMotion.setUpdateInterval(100);
 
+      if (this.source) {
+        this.deviceMotionSubscription = this.source.watchOrientation((sample) => {
+          const toRadians = Math.PI / 180;
+          this.processDeviceMotion({
+            rotation: {
+              alpha: sample.heading * toRadians,
+              beta: sample.pitch * toRadians,
+              gamma: sample.roll * toRadians,
+            },
+          });
+        });
+        return true;
+      }
+
       // Subscribe to DeviceMotion (preferred for orientation)
       if (availability.deviceMotion) {
         this.deviceMotionSubscription = DeviceMotion.addListener((data) => {
@@ -81,11 +155,11 @@ export class SensorService {
 
       // Subscribe to Magnetometer as backup
       if (availability.magnetometer && !availability.deviceMotion) {
-        this.magnetometerSubscription = Magnetometer.addListener((data) => {
-          this.processMagnetometer(data);
-        });
+        this.subscribeMagnetometer();
       }
 
+      this.updateAuxiliarySubscriptions();
+
       return true;
     } catch (error) {
       console.error('Error starting sensors:', error);
@@ -93,6 +167,97 @@ export class SensorService {
     }
   }
 
+  /**
+   * Subscribe to the accelerometer and gyroscope as the current mode needs them
+   */
+  private updateAuxiliarySubscriptions(): void {
+    const availability = this.availability;
+    if (!availability) return;
+
+    const fused = this.headingMode === 'fused' && availability.gyroscope;
+
+    // Accelerometer supplies gravity for tilt compensation and for
+    // projecting the gyroscope rate onto the vertical axis
+    const needsAccelerometer =
+      availability.accelerometer && (fused || !availability.deviceMotion);
+    if (needsAccelerometer && !this.accelerometerSubscription) {
+      this.accelerometerSubscription = Accelerometer.addListener((data) => {
+        this.processAccelerometer(data);
+      });
+    } else if (!needsAccelerometer && this.accelerometerSubscription) {
+      this.accelerometerSubscription.remove();
+      this.accelerometerSubscription = null;
+      this.currentGravity = null;
+    }
+
+    if (fused && !this.gyroscopeSubscription) {
+      this.lastGyroTimestamp = null;
+      this.gyroscopeSubscription = Gyroscope.addListener((data) => {
+        this.processGyroscope(data);
+      });
+    } else if (!fused && this.gyroscopeSubscription) {
+      this.gyroscopeSubscription.remove();
+      this.gyroscopeSubscription = null;
+    }
+  }
+
+  /**
+   * Choose between the smoothed compass, gyroscope fusion and Kalman filtering
+   */
+  setHeadingMode(mode: HeadingMode): void {
+    if (mode === this.headingMode) return;
+
+    this.headingMode = mode;
+    this.resetHeadingFilters();
+    this.updateAuxiliarySubscriptions();
+  }
+
+  /**
+   * Get the active heading estimation mode
+   */
+  getHeadingMode(): HeadingMode {
+    return this.headingMode;
+  }
+
+  /**
+   * Take orientation from a simulated source instead of the sensors (null for
+   * the sensors). Stops the sensors; call startSensors again to pick it up.
+   */
+  setSource(source: OrientationSource | null): void {
+    this.stopSensors();
+    this.source = source;
+    this.resetHeadingFilters();
+    this.compassHeading = null;
+  }
+
+  /**
+   * Fall back to the magnetometer (with the accelerometer for tilt) when
+   * DeviceMotion fails. Stops the sensors; call startSensors again to pick it up.
+   */
+  setCompassOnly(enabled: boolean): void {
+    this.stopSensors();
+    this.compassOnly = enabled;
+    this.resetHeadingFilters();
+  }
+
+  /**
+   * Subscribe to raw Magnetometer samples if not already subscribed
+   */
+  private subscribeMagnetometer(): void {
+    if (this.magnetometerSubscription) return;
+
+    this.magnetometerSubscription = Magnetometer.addListener((data) => {
+      this.rawMagnetometerListeners.forEach((listener) => {
+        listener(data);
+      });
+
+      // Only drive the heading when DeviceMotion is not doing so
+      if (!this.deviceMotionSubscription) {
+        this.processMagnetometer(data);
+      }
+    });
+  }
+
   /**
    * Process DeviceMotion data (includes orientation)
    */
@@ -103,52 +268,169 @@ export class SensorService {
       
       // Alpha represents the rotation around the Z axis (compass heading)
       // Convert from radians to degrees
-      let heading = alpha * (180 / Math.PI);
-      
-      // Apply smoothing
-      heading = this.headingFilter.update(normalizeAngle(heading));
-      
-      // Apply calibration offset
-      heading = normalizeAngle(heading + this.calibrationOffset);
+      const heading = alpha * (180 / Math.PI);
 
-      this.currentHeading = heading;
       this.currentPitch = beta * (180 / Math.PI);
       this.currentRoll = gamma * (180 / Math.PI);
 
-      // Notify listeners
-      this.notifyListeners();
+      this.processCompassHeading(normalizeAngle(heading), DEVICE_MOTION_NOISE);
+      this.notifySampleListeners('deviceMotion', normalizeAngle(heading), null);
     }
   }
 
+  /**
+   * Process Accelerometer data (gravity for the fallback method)
+   */
+  private processAccelerometer(data: Vector3): void {
+    this.currentGravity = {
+      x: this.gravityFilters.x.update(ACCELEROMETER_SIGN * data.x),
+      y: this.gravityFilters.y.update(ACCELEROMETER_SIGN * data.y),
+      z: this.gravityFilters.z.update(ACCELEROMETER_SIGN * data.z),
+    };
+  }
+
   /**
    * Process Magnetometer data (fallback method)
    */
-  private processMagnetometer(data: { x: number; y: number; z: number }): void {
-    // Calculate heading from magnetometer data
-    // This is a simplified approach; more sophisticated methods exist
-    let heading = Math.atan2(data.y, data.x) * (180 / Math.PI);
-    
-    // Normalize to 0-360
-    heading = normalizeAngle(heading);
-    
+  private processMagnetometer(data: Vector3): void {
+    const raw = data;
+
+    // Remove hard-iron bias and soft-iron distortion
+    if (this.magnetometerCalibration) {
+      data = applyMagnetometerCalibration(data, this.magnetometerCalibration);
+    }
+
+    // Field strength far from the calibrated sphere means local disturbance
+    let noise = MAGNETOMETER_NOISE;
+    if (this.magnetometerCalibration) {
+      const strength = Math.sqrt(data.x * data.x + data.y * data.y + data.z * data.z);
+      const deviation =
+        (strength - this.magnetometerCalibration.fieldStrength) /
+        this.magnetometerCalibration.fieldStrength;
+      noise *= 1 + (10 * deviation) ** 2;
+    }
+
+    let heading: number;
+    if (this.currentGravity) {
+      // Rotate the magnetic vector into the horizontal plane using gravity
+      const tilt = calculateTiltCompensatedHeading(data, this.currentGravity);
+      heading = tilt.heading;
+      this.currentPitch = this.pitchFilter.update(tilt.pitch);
+      this.currentRoll = this.rollFilter.update(tilt.roll);
+    } else {
+      // Without gravity assume the phone lies flat
+      heading = normalizeAngle(Math.atan2(-data.x, data.y) * (180 / Math.PI));
+    }
+
+    this.processCompassHeading(heading, noise);
+    this.notifySampleListeners('magnetometer', heading, raw);
+  }
+
+  /**
+   * Handle a new absolute heading from DeviceMotion or the magnetometer
+   * @param noise Measurement variance in degrees² (used by the Kalman mode)
+   */
+  private processCompassHeading(heading: number, noise: number): void {
+    const now = Date.now();
+    const dt =
+      this.lastCompassTimestamp === null ? 0 : (now - this.lastCompassTimestamp) / 1000;
+    this.lastCompassTimestamp = now;
+    this.compassHeading = heading;
+
+    // In fused mode the gyroscope drives updates and only uses this as reference
+    if (this.headingMode === 'fused' && this.gyroscopeSubscription) return;
+
+    if (this.headingMode === 'kalman') {
+      const filtered = this.kalmanFilter.update(heading, dt, noise);
+      this.currentUncertainty = this.kalmanFilter.getHeadingUncertainty();
+      this.publishHeading(filtered);
+      return;
+    }
+
     // Apply smoothing
-    heading = this.headingFilter.update(heading);
-    
-    // Apply calibration offset
-    heading = normalizeAngle(heading + this.calibrationOffset);
+    this.publishHeading(this.headingFilter.update(heading));
+  }
+
+  /**
+   * Process Gyroscope data (fused mode)
+   */
+  private processGyroscope(data: Vector3): void {
+    const now = Date.now();
+    const dt = this.lastGyroTimestamp === null ? 0 : (now - this.lastGyroTimestamp) / 1000;
+    this.lastGyroTimestamp = now;
 
-    this.currentHeading = heading;
+    if (this.compassHeading === null || dt > MAX_GYRO_DT_SECONDS) return;
 
-    // Notify listeners
+    // Turn rate about the vertical axis. Counter-clockwise rotation (seen
+    // from above) is positive for the gyroscope but decreases the heading.
+    let verticalRate = data.z;
+    const gravity = this.currentGravity;
+    if (gravity) {
+      const length = Math.sqrt(gravity.x * gravity.x + gravity.y * gravity.y + gravity.z * gravity.z);
+      if (length > 0) {
+        verticalRate = (data.x * gravity.x + data.y * gravity.y + data.z * gravity.z) / length;
+      }
+    }
+    const turnRate = -verticalRate * (180 / Math.PI);
+
+    this.publishHeading(this.fusionFilter.update(turnRate, this.compassHeading, dt));
+  }
+
+  /**
+   * Apply the calibration offset and notify listeners of a new heading
+   */
+  private publishHeading(heading: number): void {
+    this.currentHeading = normalizeAngle(heading + this.calibrationOffset);
     this.notifyListeners();
   }
 
+  /**
+   * Reset all heading estimators, e.g. after switching modes
+   */
+  private resetHeadingFilters(): void {
+    this.headingFilter.reset();
+    this.fusionFilter.reset();
+    this.kalmanFilter.reset();
+    this.lastCompassTimestamp = null;
+    this.currentUncertainty = null;
+  }
+
   /**
    * Notify all listeners of sensor updates
    */
   private notifyListeners(): void {
     this.listeners.forEach((listener) => {
-      listener(this.currentHeading, this.currentPitch, this.currentRoll);
+      listener(this.currentHeading, this.currentPitch, this.currentRoll, this.currentUncertainty);
+    });
+  }
+
+  /**
+   * Tell sample listeners what the sensors reported and what was published for it
+   * @param heading Compass heading before smoothing and the calibration offset
+   * @param magneticField Uncorrected magnetometer reading, if the heading came from it
+   */
+  private notifySampleListeners(
+    source: SensorSampleSource,
+    heading: number,
+    magneticField: Vector3 | null
+  ): void {
+    if (this.sampleListeners.size === 0) return;
+
+    const sample: SensorSample = {
+      source,
+      heading,
+      pitch: this.currentPitch,
+      roll: this.currentRoll,
+      timestamp: Date.now(),
+      magneticField: magneticField
+        ? { x: magneticField.x, y: magneticField.y, z: magneticField.z }
+        : null,
+      filteredHeading: this.currentHeading,
+      calibrationOffset: this.calibrationOffset,
+      headingMode: this.headingMode,
+    };
+    this.sampleListeners.forEach((listener) => {
+      listener(sample);
     });
   }
 
@@ -169,6 +451,22 @@ export class SensorService {
     this.isCalibrated = false;
   }
 
+  /**
+   * Set (or clear) the hard-iron / soft-iron correction applied to every
+   * magnetometer sample
+   */
+  setMagnetometerCalibration(calibration: MagnetometerCalibration | null): void {
+    this.magnetometerCalibration = calibration;
+    this.resetHeadingFilters();
+  }
+
+  /**
+   * Get the active hard-iron / soft-iron correction
+   */
+  getMagnetometerCalibration(): MagnetometerCalibration | null {
+    return this.magnetometerCalibration;
+  }
+
   /**
    * Get current heading
    */
@@ -176,6 +474,13 @@ export class SensorService {
     return this.currentHeading;
   }
 
+  /**
+   * Get the one-sigma heading uncertainty in degrees (Kalman mode only)
+   */
+  getHeadingUncertainty(): number | null {
+    return this.currentUncertainty;
+  }
+
   /**
    * Get current pitch and roll
    */
@@ -198,7 +503,7 @@ export class SensorService {
    * Add a listener for sensor updates
    */
   addListener(
-    listener: (heading: number, pitch: number, roll: number) => void
+    listener: (heading: number, pitch: number, roll: number, uncertainty: number | null) => void
   ): () => void {
     this.listeners.add(listener);
 
@@ -208,6 +513,43 @@ export class SensorService {
     };
   }
 
+  /**
+   * Add a listener for uncorrected magnetometer samples (e.g. for calibration).
+   * Subscribes to the magnetometer even when DeviceMotion drives the heading.
+   */
+  addRawMagnetometerListener(listener: (sample: Vector3) => void): () => void {
+    this.rawMagnetometerListeners.add(listener);
+    Magnetometer.setUpdateInterval(50); // 20 Hz while capturing
+    this.subscribeMagnetometer();
+
+    // Return unsubscribe function
+    return () => {
+      this.rawMagnetometerListeners.delete(listener);
+      if (this.rawMagnetometerListeners.size === 0) {
+        Magnetometer.setUpdateInterval(100);
+
+        // Drop the subscription if it only existed for raw capture
+        if (this.deviceMotionSubscription && this.magnetometerSubscription) {
+          this.magnetometerSubscription.remove();
+          this.magnetometerSubscription = null;
+        }
+      }
+    };
+  }
+
+  /**
+   * Add a listener for every compass sample with both its raw and published
+   * heading (e.g. for recording sessions)
+   */
+  addSampleListener(listener: (sample: SensorSample) => void): () => void {
+    this.sampleListeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.sampleListeners.delete(listener);
+    };
+  }
+
   /**
    * Stop all sensors
    */
@@ -236,8 +578,17 @@ export class SensorService {
   cleanup(): void {
     this.stopSensors();
     this.listeners.clear();
-    this.headingFilter.reset();
+    this.rawMagnetometerListeners.clear();
+    this.sampleListeners.clear();
+    this.resetHeadingFilters();
+    this.compassHeading = null;
+    this.lastGyroTimestamp = null;
+    this.availability = null;
     this.pitchFilter.reset();
     this.rollFilter.reset();
+    this.gravityFilters.x.reset();
+    this.gravityFilters.y.reset();
+    this.gravityFilters.z.reset();
+    this.currentGravity = null;
   }
 }
@@ -0,0 +1,443 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import {
+  LocationFix,
+  RecordedFix,
+  RecordingExportFormat,
+  RecordingSummary,
+  SensorSample,
+  SessionRecorderState,
+  SessionRecording,
+} from '../types';
+import { LocationService } from './LocationService';
+import { SensorService } from './SensorService';
+import { summarizeRecording, toSessionCsv, toSessionJson } from '../utils/sessionRecording';
+
+const INDEX_KEY = '@compass-navigate/recordings';
+const RECORDING_KEY = '@compass-navigate/session-recording';
+
+// Keep about half an hour of the newest data: sensors run at 10 Hz, the GPS at up to 2 Hz
+const MAX_SAMPLES = 18000;
+const MAX_FIXES = 3600;
+
+// Let the newest data run past its limit by a tenth before dropping the oldest in one go
+const TRIM_SLACK = 0.1;
+
+// Saved recordings beyond this are deleted, oldest first
+const MAX_RECORDINGS = 10;
+
+// Save the session being recorded this often, so a crash loses little
+const CHECKPOINT_INTERVAL = 30000; // ms
+
+// A checkpoint holds only what was recorded since the one before it
+interface RecordingCheckpoint {
+  fixes: RecordedFix[];
+  orientation: SensorSample[];
+}
+
+const EXPORT_TYPES: Record<
+  RecordingExportFormat,
+  { extension: string; mimeType: string; uti: string }
+> = {
+  json: { extension: 'json', mimeType: 'application/json', uti: 'public.json' },
+  csv: { extension: 'csv', mimeType: 'text/csv', uti: 'public.comma-separated-values-text' },
+};
+
+/**
+ * Records what the compass and GPS actually reported, next to what the app
+ * made of it (smoothed heading and position, calibration offset, heading
+ * mode), for tuning filters and attaching to bug reports. Recordings are
+ * bounded in size, stored as files like tracks, and exported as JSON or CSV
+ * that the replay data source reads back unchanged.
+ */
+export class SessionRecorderService {
+  private static instance: SessionRecorderService;
+  private recordings: RecordingSummary[] = [];
+  private recording: SessionRecording | null = null;
+  private unsubscribeLocation: (() => void) | null = null;
+  private unsubscribeSensors: (() => void) | null = null;
+  private lastCheckpointAt: number = 0;
+  private checkpointCount: number = 0;
+  private pending: RecordingCheckpoint = { fixes: [], orientation: [] };
+  private loadPromise: Promise<void> | null = null;
+  private listeners: Set<(state: SessionRecorderState) => void> = new Set();
+
+  private constructor() {}
+
+  static getInstance(): SessionRecorderService {
+    if (!SessionRecorderService.instance) {
+      SessionRecorderService.instance = new SessionRecorderService();
+    }
+    return SessionRecorderService.instance;
+  }
+
+  /**
+   * Load saved recordings from storage (only reads once).
+   * A recording interrupted by the app closing is kept up to its last checkpoint.
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.readFromStorage();
+    }
+    return this.loadPromise;
+  }
+
+  private async readFromStorage(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(INDEX_KEY);
+      if (stored) {
+        this.recordings = JSON.parse(stored);
+      }
+
+      const recordingId = await AsyncStorage.getItem(RECORDING_KEY);
+      if (recordingId && !this.recording) {
+        // Recordings checkpointed whole by earlier versions are still picked up
+        const recording =
+          (await this.readCheckpoints(recordingId)) ?? (await this.readRecordingFile(recordingId));
+        if (recording) {
+          await this.save(recording);
+        }
+        this.deleteCheckpoints(recordingId);
+        await AsyncStorage.removeItem(RECORDING_KEY);
+      }
+
+      this.notifyListeners();
+    } catch (error) {
+      console.error('Error loading recordings:', error);
+    }
+  }
+
+  /**
+   * Get the session being recorded and all saved recordings
+   */
+  getState(): SessionRecorderState {
+    return {
+      recording: this.recording ? summarizeRecording(this.recording) : null,
+      recordings: this.recordings,
+    };
+  }
+
+  /**
+   * Start recording sensor samples and location fixes
+   */
+  async startRecording(name?: string): Promise<void> {
+    await this.load();
+    if (this.recording) return;
+
+    const createdAt = Date.now();
+    this.recording = {
+      id: createId(),
+      name: name?.trim() || `Session ${new Date(createdAt).toLocaleString()}`,
+      createdAt,
+      fixes: [],
+      orientation: [],
+      dropped: 0,
+    };
+    this.lastCheckpointAt = createdAt;
+    this.checkpointCount = 0;
+    this.pending = { fixes: [], orientation: [] };
+    this.unsubscribeLocation = LocationService.getInstance().addListener(this.handleFix);
+    this.unsubscribeSensors = SensorService.getInstance().addSampleListener(this.handleSample);
+    this.notifyListeners();
+
+    try {
+      const { id, name } = this.recording;
+      this.writeJson(new File(this.getCheckpointDirectory(id), 'header.json'), {
+        id,
+        name,
+        createdAt,
+      });
+      await AsyncStorage.setItem(RECORDING_KEY, id);
+    } catch (error) {
+      console.error('Error saving recording state:', error);
+    }
+  }
+
+  /**
+   * Finish the recording and add it to the saved recordings.
+   * A recording without any data is discarded.
+   * @returns The saved recording summary, or null if nothing was recorded
+   */
+  async stopRecording(): Promise<RecordingSummary | null> {
+    if (!this.recording) return null;
+
+    this.unsubscribe();
+    const recording = this.recording;
+    this.recording = null;
+
+    const summary = summarizeRecording(recording);
+    const isEmpty = summary.fixCount === 0 && summary.sampleCount === 0;
+    try {
+      if (isEmpty) {
+        this.deleteRecordingFile(recording.id);
+      } else {
+        await this.save(recording);
+      }
+      this.deleteCheckpoints(recording.id);
+      await AsyncStorage.removeItem(RECORDING_KEY);
+    } catch (error) {
+      console.error('Error saving recording:', error);
+    }
+
+    this.notifyListeners();
+    return isEmpty ? null : summary;
+  }
+
+  /**
+   * Read a saved recording with all of its samples
+   */
+  async getRecording(id: string): Promise<SessionRecording | null> {
+    return this.readRecordingFile(id);
+  }
+
+  /**
+   * Delete a saved recording
+   */
+  async removeRecording(id: string): Promise<void> {
+    await this.load();
+
+    this.recordings = this.recordings.filter((recording) => recording.id !== id);
+    this.notifyListeners();
+
+    try {
+      this.deleteRecordingFile(id);
+      await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(this.recordings));
+    } catch (error) {
+      console.error('Error deleting recording:', error);
+    }
+  }
+
+  /**
+   * Export a saved recording and open the system share sheet
+   * @returns true if the share sheet was shown
+   */
+  async exportRecording(id: string, format: RecordingExportFormat): Promise<boolean> {
+    try {
+      const recording = await this.readRecordingFile(id);
+      if (!recording) return false;
+
+      if (!(await Sharing.isAvailableAsync())) {
+        console.error('Sharing is not available on this device');
+        return false;
+      }
+
+      const type = EXPORT_TYPES[format];
+      const fileName = `${recording.name.replace(/[^\w\-]+/g, '_')}.${type.extension}`;
+      const file = new File(Paths.cache, fileName);
+      if (file.exists) file.delete();
+      file.create();
+      file.write(format === 'json' ? toSessionJson(recording) : toSessionCsv(recording));
+
+      await Sharing.shareAsync(file.uri, {
+        mimeType: type.mimeType,
+        UTI: type.uti,
+        dialogTitle: recording.name,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error exporting recording:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Add a listener for recorder and recording list changes
+   */
+  addListener(listener: (state: SessionRecorderState) => void): () => void {
+    this.listeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private handleFix = (fix: LocationFix): void => {
+    if (!this.recording) return;
+
+    // Listeners get the smoothed fix; the raw one was stored just before
+    const raw = LocationService.getInstance().getLastRawLocation() ?? fix;
+    const recorded = { ...raw, filteredLatitude: fix.latitude, filteredLongitude: fix.longitude };
+    this.recording.fixes.push(recorded);
+    this.pending.fixes.push(recorded);
+    this.trim(this.recording.fixes, MAX_FIXES);
+    this.checkpointIfDue(fix.timestamp);
+    this.notifyListeners();
+  };
+
+  private handleSample = (sample: SensorSample): void => {
+    if (!this.recording) return;
+
+    this.recording.orientation.push(sample);
+    this.pending.orientation.push(sample);
+    this.trim(this.recording.orientation, MAX_SAMPLES);
+    this.checkpointIfDue(sample.timestamp);
+
+    // Sensors run at 10 Hz; refreshing the summary about once a second is plenty
+    if (this.recording.orientation.length % 10 === 0) {
+      this.notifyListeners();
+    }
+  };
+
+  /**
+   * Drop the oldest entries beyond the limit, once enough have piled up that
+   * shifting the array is not paid for on every sample
+   */
+  private trim(entries: unknown[], limit: number): void {
+    if (!this.recording || entries.length <= limit * (1 + TRIM_SLACK)) return;
+    const excess = entries.length - limit;
+    entries.splice(0, excess);
+    this.recording.dropped += excess;
+  }
+
+  private checkpointIfDue(timestamp: number): void {
+    if (timestamp - this.lastCheckpointAt >= CHECKPOINT_INTERVAL) {
+      this.lastCheckpointAt = timestamp;
+      this.checkpoint();
+    }
+  }
+
+  private unsubscribe(): void {
+    if (this.unsubscribeLocation) {
+      this.unsubscribeLocation();
+      this.unsubscribeLocation = null;
+    }
+    if (this.unsubscribeSensors) {
+      this.unsubscribeSensors();
+      this.unsubscribeSensors = null;
+    }
+  }
+
+  /**
+   * Write what was recorded since the last checkpoint to a file of its own,
+   * so each checkpoint costs the same however long the session runs
+   */
+  private checkpoint(): void {
+    if (!this.recording) return;
+    const checkpoint = this.pending;
+    this.pending = { fixes: [], orientation: [] };
+    try {
+      const directory = this.getCheckpointDirectory(this.recording.id);
+      this.writeJson(new File(directory, `${this.checkpointCount}.json`), checkpoint);
+      this.checkpointCount++;
+    } catch (error) {
+      console.error('Error saving recording:', error);
+    }
+  }
+
+  /**
+   * Write a finished recording and add it to the index, deleting the oldest
+   * recordings beyond the limit
+   */
+  private async save(recording: SessionRecording): Promise<void> {
+    this.writeRecordingFile(recording);
+    this.recordings = [
+      summarizeRecording(recording),
+      ...this.recordings.filter((summary) => summary.id !== recording.id),
+    ];
+
+    const removed = this.recordings.slice(MAX_RECORDINGS);
+    this.recordings = this.recordings.slice(0, MAX_RECORDINGS);
+    removed.forEach((summary) => this.deleteRecordingFile(summary.id));
+
+    await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(this.recordings));
+  }
+
+  private getRecordingFile(id: string): File {
+    const directory = new Directory(Paths.document, 'recordings');
+    if (!directory.exists) {
+      directory.create({ intermediates: true, idempotent: true });
+    }
+    return new File(directory, `${id}.json`);
+  }
+
+  private writeRecordingFile(recording: SessionRecording): void {
+    this.writeJson(this.getRecordingFile(recording.id), recording);
+  }
+
+  private writeJson(file: File, value: unknown): void {
+    if (!file.exists) file.create();
+    file.write(JSON.stringify(value));
+  }
+
+  private async readRecordingFile(id: string): Promise<SessionRecording | null> {
+    try {
+      const file = this.getRecordingFile(id);
+      if (!file.exists) return null;
+      return JSON.parse(await file.text());
+    } catch (error) {
+      console.error('Error reading recording:', error);
+      return null;
+    }
+  }
+
+  private deleteRecordingFile(id: string): void {
+    const file = this.getRecordingFile(id);
+    if (file.exists) file.delete();
+  }
+
+  private getCheckpointDirectory(id: string): Directory {
+    const directory = new Directory(Paths.document, 'recordings', `${id}.checkpoints`);
+    if (!directory.exists) {
+      directory.create({ intermediates: true, idempotent: true });
+    }
+    return directory;
+  }
+
+  /**
+   * Put an interrupted recording back together from its checkpoints, keeping
+   * the newest data within the limits
+   */
+  private async readCheckpoints(id: string): Promise<SessionRecording | null> {
+    try {
+      const directory = this.getCheckpointDirectory(id);
+      const header = new File(directory, 'header.json');
+      if (!header.exists) return null;
+      const { name, createdAt } = JSON.parse(await header.text());
+
+      const files = directory
+        .list()
+        .filter((entry): entry is File => entry instanceof File && /^\d+\.json$/.test(entry.name))
+        .sort((a, b) => parseInt(a.name, 10) - parseInt(b.name, 10));
+
+      let fixes: RecordedFix[] = [];
+      let orientation: SensorSample[] = [];
+      for (const file of files) {
+        const checkpoint: RecordingCheckpoint = JSON.parse(await file.text());
+        fixes = fixes.concat(checkpoint.fixes);
+        orientation = orientation.concat(checkpoint.orientation);
+      }
+
+      const dropped =
+        Math.max(0, fixes.length - MAX_FIXES) + Math.max(0, orientation.length - MAX_SAMPLES);
+      return {
+        id,
+        name,
+        createdAt,
+        fixes: fixes.slice(-MAX_FIXES),
+        orientation: orientation.slice(-MAX_SAMPLES),
+        dropped,
+      };
+    } catch (error) {
+      console.error('Error reading recording:', error);
+      return null;
+    }
+  }
+
+  private deleteCheckpoints(id: string): void {
+    const directory = new Directory(Paths.document, 'recordings', `${id}.checkpoints`);
+    if (directory.exists) directory.delete();
+  }
+
+  private notifyListeners(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => {
+      listener(state);
+    });
+  }
+}
+
+function createId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
@@ -0,0 +1,101 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppSettings } from '../types';
+
+const STORAGE_KEY = '@compass-navigate/settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  northReference: 'true',
+  headingMode: 'filtered',
+  positionSmoothing: true,
+  courseHeading: false,
+  courseSpeedThreshold: 1.5,
+  guidanceMode: 'greatCircle',
+  coordinateFormat: 'dd',
+  distanceUnits: 'metric',
+  angleUnits: 'degrees',
+  proximityAlerts: true,
+  proximityRings: [500, 100, 10],
+  voiceGuidance: 'off',
+  hapticGuidance: 'off',
+  alignmentCone: 10,
+};
+
+export class SettingsService {
+  private static instance: SettingsService;
+  private settings: AppSettings = DEFAULT_SETTINGS;
+  private loadPromise: Promise<void> | null = null;
+  private listeners: Set<(settings: AppSettings) => void> = new Set();
+
+  private constructor() {}
+
+  static getInstance(): SettingsService {
+    if (!SettingsService.instance) {
+      SettingsService.instance = new SettingsService();
+    }
+    return SettingsService.instance;
+  }
+
+  /**
+   * Load saved settings from storage (only reads once)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.readFromStorage();
+    }
+    return this.loadPromise;
+  }
+
+  private async readFromStorage(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        // Merge so settings added in later versions get their defaults
+        this.settings = { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+        this.notifyListeners();
+      }
+    } catch (error) {
+      console.error('Error loading settings:', error);
+    }
+  }
+
+  /**
+   * Get the current settings
+   */
+  getSettings(): AppSettings {
+    return this.settings;
+  }
+
+  /**
+   * Change one or more settings
+   */
+  async updateSettings(changes: Partial<AppSettings>): Promise<void> {
+    await this.load();
+
+    this.settings = { ...this.settings, ...changes };
+    this.notifyListeners();
+
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.error('Error saving settings:', error);
+    }
+  }
+
+  /**
+   * Add a listener for settings changes
+   */
+  addListener(listener: (settings: AppSettings) => void): () => void {
+    this.listeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach((listener) => {
+      listener(this.settings);
+    });
+  }
+}
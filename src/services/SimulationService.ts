@@ -0,0 +1,188 @@
+import {
+  Coordinates,
+  DataSourceKind,
+  ReplaySession,
+  SimulationOptions,
+  SimulationState,
+} from '../types';
+import { DestinationService } from './DestinationService';
+import { LocationService } from './LocationService';
+import { SensorService } from './SensorService';
+import { geodesicDirect } from '../utils/geodesic';
+import { ReplayPlayer, ScriptedWalk, parseSession } from '../utils/simulation';
+
+const DEFAULT_OPTIONS: SimulationOptions = {
+  playbackSpeed: 1,
+  loop: false,
+  walkSpeed: 1.4,
+  positionNoise: 3,
+  headingNoise: 5,
+  seed: 1,
+};
+
+// Without a location fix, a scripted walk starts this far south-west of the target
+const WALK_START_DISTANCE = 500; // meters
+const WALK_START_BEARING = 225; // degrees
+
+/**
+ * Switches LocationService and SensorService between the real GPS and sensors,
+ * a recorded session and a scripted walk to the active destination, so the
+ * app can be developed and demonstrated on a simulator or at a desk.
+ */
+export class SimulationService {
+  private static instance: SimulationService;
+  private source: DataSourceKind = 'device';
+  private session: ReplaySession | null = null;
+  private options: SimulationOptions = DEFAULT_OPTIONS;
+  private player: ReplayPlayer | ScriptedWalk | null = null;
+  private walkPathKey: string = '';
+  private unsubscribeDestinations: (() => void) | null = null;
+  private listeners: Set<(state: SimulationState) => void> = new Set();
+
+  private constructor() {}
+
+  static getInstance(): SimulationService {
+    if (!SimulationService.instance) {
+      SimulationService.instance = new SimulationService();
+    }
+    return SimulationService.instance;
+  }
+
+  /**
+   * Get the active source, the loaded session and the simulation options
+   */
+  getState(): SimulationState {
+    return {
+      source: this.source,
+      session: this.session,
+      options: this.options,
+    };
+  }
+
+  /**
+   * Switch where location and orientation come from
+   * @returns An error message if the source cannot be used yet, otherwise null
+   */
+  async setSource(kind: DataSourceKind): Promise<string | null> {
+    if (kind === 'device') {
+      this.use('device', null);
+      return null;
+    }
+
+    if (kind === 'replay') {
+      if (!this.session) return 'Load a recorded session first';
+      this.use('replay', this.createPlayer(this.session));
+      return null;
+    }
+
+    await DestinationService.getInstance().load();
+    const path = this.walkPath();
+    const start =
+      LocationService.getInstance().getLastKnownLocation() ??
+      (path.length > 0
+        ? geodesicDirect(path[0], WALK_START_BEARING, WALK_START_DISTANCE).coordinates
+        : null);
+    if (!start) return 'Choose a destination before starting a scripted walk';
+
+    this.use('walk', new ScriptedWalk(start, path, this.options));
+    return null;
+  }
+
+  /**
+   * Parse a recorded session and make it the one to replay. Replaces the
+   * running replay, if there is one.
+   * @param content JSON or CSV file contents
+   * @param name Name to show for the session
+   * @returns The session, or an error message
+   */
+  loadSession(content: string, name: string): ReplaySession | string {
+    const session = parseSession(content, name);
+    if (typeof session === 'string') return session;
+
+    this.session = session;
+    if (this.source === 'replay') {
+      this.use('replay', this.createPlayer(session));
+    } else {
+      this.notifyListeners();
+    }
+    return session;
+  }
+
+  /**
+   * Change replay and walk options; a running source picks them up at once
+   */
+  updateOptions(changes: Partial<SimulationOptions>): void {
+    this.options = { ...this.options, ...changes };
+
+    if (this.player instanceof ReplayPlayer) {
+      this.player.setPlayback(this.options.playbackSpeed, this.options.loop);
+    } else if (this.player instanceof ScriptedWalk) {
+      this.player.setOptions(this.options);
+    }
+    this.notifyListeners();
+  }
+
+  /**
+   * Add a listener for simulation changes
+   */
+  addListener(listener: (state: SimulationState) => void): () => void {
+    this.listeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private createPlayer(session: ReplaySession): ReplayPlayer {
+    return new ReplayPlayer(session, this.options.playbackSpeed, this.options.loop);
+  }
+
+  /**
+   * Hand the new source to the location and sensor services. Whoever started
+   * them (useNavigation) restarts them when it sees the source change.
+   */
+  private use(kind: DataSourceKind, player: ReplayPlayer | ScriptedWalk | null): void {
+    this.source = kind;
+    this.player = player;
+    LocationService.getInstance().setSource(player);
+    SensorService.getInstance().setSource(player);
+
+    if (this.unsubscribeDestinations) {
+      this.unsubscribeDestinations();
+      this.unsubscribeDestinations = null;
+    }
+    if (player instanceof ScriptedWalk) {
+      // Keep walking to whatever destination or route is chosen next
+      this.walkPathKey = JSON.stringify(this.walkPath());
+      this.unsubscribeDestinations = DestinationService.getInstance().addListener(() => {
+        const path = this.walkPath();
+        const key = JSON.stringify(path);
+        if (key === this.walkPathKey) return;
+        this.walkPathKey = key;
+        player.setPath(path);
+      });
+    }
+
+    this.notifyListeners();
+  }
+
+  /**
+   * Points of the active route, or the active destination
+   */
+  private walkPath(): Coordinates[] {
+    const destinationService = DestinationService.getInstance();
+    const route = destinationService.getActiveRoute();
+    if (route) return route.waypoints.map((waypoint) => waypoint.coordinates);
+
+    const destination = destinationService.getActiveDestination();
+    return destination ? [destination.coordinates] : [];
+  }
+
+  private notifyListeners(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => {
+      listener(state);
+    });
+  }
+}
@@ -0,0 +1,39 @@
+import * as Speech from 'expo-speech';
+import { SpeechBackend } from '../utils/voiceGuidance';
+
+/**
+ * Text-to-speech backend for voice guidance
+ */
+export class SpeechService implements SpeechBackend {
+  private static instance: SpeechService;
+
+  private constructor() {}
+
+  static getInstance(): SpeechService {
+    if (!SpeechService.instance) {
+      SpeechService.instance = new SpeechService();
+    }
+    return SpeechService.instance;
+  }
+
+  /**
+   * Speak a phrase after anything already queued
+   */
+  speak(text: string): void {
+    try {
+      // A separate audio session ducks music instead of stopping it (iOS)
+      Speech.speak(text, { useApplicationAudioSession: false });
+    } catch (error) {
+      console.error('Error speaking:', error);
+    }
+  }
+
+  /**
+   * Stop speaking and drop anything queued
+   */
+  stop(): void {
+    Speech.stop().catch((error) => {
+      console.error('Error stopping speech:', error);
+    });
+  }
+}
@@ -0,0 +1,510 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import {
+  LocationFix,
+  RecorderStatus,
+  Track,
+  TrackExportFormat,
+  TrackPoint,
+  TrackState,
+  TrackSummary,
+} from '../types';
+import { LocationService } from './LocationService';
+import { SensorService } from './SensorService';
+import { normalizeAngle } from '../utils/geolocation';
+import { calculateDeclination } from '../utils/magneticModel';
+import { extendTrackSummary, summarizeTrack, toGeoJson, toGpx } from '../utils/track';
+
+const INDEX_KEY = '@compass-navigate/tracks';
+const RECORDING_KEY = '@compass-navigate/recording';
+
+// Save the track being recorded every this many points, so a crash loses little
+const CHECKPOINT_INTERVAL = 20;
+
+// A compass heading older than this is left out of the point
+const HEADING_MAX_AGE = 1000; // ms
+
+// A checkpoint holds only the points recorded since the one before it. Its
+// first segment continues segment firstSegment of the track; any others are new.
+interface TrackCheckpoint {
+  firstSegment: number;
+  segments: TrackPoint[][];
+}
+
+const EXPORT_TYPES: Record<TrackExportFormat, { extension: string; mimeType: string; uti: string }> = {
+  gpx: { extension: 'gpx', mimeType: 'application/gpx+xml', uti: 'com.topografix.gpx' },
+  geojson: { extension: 'geojson', mimeType: 'application/geo+json', uti: 'public.json' },
+};
+
+/**
+ * Records the user's path from LocationService fixes and keeps saved tracks
+ * on the device. Summaries live in AsyncStorage; the points of each track are
+ * stored in their own file so long recordings stay out of AsyncStorage.
+ */
+export class TrackService {
+  private static instance: TrackService;
+  private tracks: TrackSummary[] = [];
+  private recording: Track | null = null;
+  private recordingSummary: TrackSummary | null = null; // kept up to date point by point
+  private status: RecorderStatus = 'idle';
+  private unsubscribeLocation: (() => void) | null = null;
+  private unsubscribeHeading: (() => void) | null = null;
+  private lastHeading: { heading: number; at: number } | null = null;
+  private pointsSinceCheckpoint: number = 0;
+  private checkpointCount: number = 0;
+  private checkpointed = { segment: 0, points: 0 }; // where the unsaved points begin
+  private loadPromise: Promise<void> | null = null;
+  private listeners: Set<(state: TrackState) => void> = new Set();
+
+  private constructor() {}
+
+  static getInstance(): TrackService {
+    if (!TrackService.instance) {
+      TrackService.instance = new TrackService();
+    }
+    return TrackService.instance;
+  }
+
+  /**
+   * Load saved tracks from storage (only reads once).
+   * A recording interrupted by the app closing comes back paused.
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.readFromStorage();
+    }
+    return this.loadPromise;
+  }
+
+  private async readFromStorage(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(INDEX_KEY);
+      if (stored) {
+        this.tracks = JSON.parse(stored);
+      }
+
+      const recordingId = await AsyncStorage.getItem(RECORDING_KEY);
+      if (recordingId && this.status === 'idle') {
+        const checkpointed = await this.readCheckpoints(recordingId);
+        // Recordings checkpointed whole by earlier versions are still picked up
+        const track = checkpointed ?? (await this.readTrackFile(recordingId));
+        if (track) {
+          this.recording = track;
+          this.recordingSummary = summarizeTrack(track);
+          this.status = 'paused';
+          this.checkpointCount = this.listCheckpoints(recordingId).length;
+          if (checkpointed) {
+            this.markCheckpointed();
+          } else {
+            // Carry the whole track over into the first checkpoint
+            const { id, name, createdAt } = track;
+            this.writeJson(new File(this.getCheckpointDirectory(id), 'header.json'), {
+              id,
+              name,
+              createdAt,
+            });
+            this.checkpointed = { segment: 0, points: 0 };
+            await this.checkpoint();
+            if (this.checkpointCount > 0) this.deleteTrackFile(id);
+          }
+        } else {
+          // Closed before the first checkpoint; nothing to recover
+          this.deleteCheckpoints(recordingId);
+          await AsyncStorage.removeItem(RECORDING_KEY);
+        }
+      }
+
+      this.notifyListeners();
+    } catch (error) {
+      console.error('Error loading tracks:', error);
+    }
+  }
+
+  /**
+   * Get the recorder status, the track being recorded and all saved tracks
+   */
+  getState(): TrackState {
+    return {
+      status: this.status,
+      recording: this.recordingSummary,
+      tracks: this.tracks,
+    };
+  }
+
+  /**
+   * Start recording a new track from the next location fix
+   */
+  async startRecording(name?: string): Promise<void> {
+    await this.load();
+    if (this.status !== 'idle') return;
+
+    const createdAt = Date.now();
+    this.recording = {
+      id: createId(),
+      name: name?.trim() || `Track ${new Date(createdAt).toLocaleString()}`,
+      segments: [[]],
+      createdAt,
+    };
+    this.recordingSummary = summarizeTrack(this.recording);
+    this.checkpointCount = 0;
+    this.markCheckpointed();
+    this.subscribe();
+    this.status = 'recording';
+    this.notifyListeners();
+
+    try {
+      const { id, name } = this.recording;
+      this.writeJson(new File(this.getCheckpointDirectory(id), 'header.json'), {
+        id,
+        name,
+        createdAt,
+      });
+      await AsyncStorage.setItem(RECORDING_KEY, id);
+    } catch (error) {
+      console.error('Error saving recording state:', error);
+    }
+  }
+
+  /**
+   * Stop taking points until resumed
+   */
+  async pauseRecording(): Promise<void> {
+    if (this.status !== 'recording') return;
+
+    this.unsubscribe();
+    this.status = 'paused';
+    this.notifyListeners();
+    await this.checkpoint();
+  }
+
+  /**
+   * Continue a paused recording in a new segment, so the gap is not drawn as a line
+   */
+  resumeRecording(): void {
+    if (this.status !== 'paused' || !this.recording) return;
+
+    this.startSegment();
+    this.subscribe();
+    this.status = 'recording';
+    this.notifyListeners();
+  }
+
+  /**
+   * Start a new segment without pausing
+   */
+  splitSegment(): void {
+    if (this.status !== 'recording') return;
+
+    this.startSegment();
+    this.notifyListeners();
+  }
+
+  /**
+   * Finish the recording and add it to the saved tracks.
+   * A recording without points is discarded.
+   * @returns The saved track summary, or null if nothing was recorded
+   */
+  async stopRecording(): Promise<TrackSummary | null> {
+    if (this.status === 'idle' || !this.recording) return null;
+
+    this.unsubscribe();
+    const track: Track = {
+      ...this.recording,
+      segments: this.recording.segments.filter((segment) => segment.length > 0),
+    };
+    this.recording = null;
+    this.recordingSummary = null;
+    this.status = 'idle';
+
+    const summary = summarizeTrack(track);
+    try {
+      if (summary.pointCount > 0) {
+        this.writeTrackFile(track);
+        this.tracks = [summary, ...this.tracks];
+        await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(this.tracks));
+      } else {
+        this.deleteTrackFile(track.id);
+      }
+      this.deleteCheckpoints(track.id);
+      await AsyncStorage.removeItem(RECORDING_KEY);
+    } catch (error) {
+      console.error('Error saving track:', error);
+    }
+
+    this.notifyListeners();
+    return summary.pointCount > 0 ? summary : null;
+  }
+
+  /**
+   * Read a saved track with all of its points
+   */
+  async getTrack(id: string): Promise<Track | null> {
+    return this.readTrackFile(id);
+  }
+
+  /**
+   * Delete a saved track
+   */
+  async removeTrack(id: string): Promise<void> {
+    await this.load();
+
+    this.tracks = this.tracks.filter((track) => track.id !== id);
+    this.notifyListeners();
+
+    try {
+      this.deleteTrackFile(id);
+      await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(this.tracks));
+    } catch (error) {
+      console.error('Error deleting track:', error);
+    }
+  }
+
+  /**
+   * Export a saved track and open the system share sheet
+   * @returns true if the share sheet was shown
+   */
+  async exportTrack(id: string, format: TrackExportFormat): Promise<boolean> {
+    try {
+      const track = await this.readTrackFile(id);
+      if (!track) return false;
+
+      if (!(await Sharing.isAvailableAsync())) {
+        console.error('Sharing is not available on this device');
+        return false;
+      }
+
+      const type = EXPORT_TYPES[format];
+      const fileName = `${track.name.replace(/[^\w\-]+/g, '_')}.${type.extension}`;
+      const file = new File(Paths.cache, fileName);
+      if (file.exists) file.delete();
+      file.create();
+      file.write(format === 'gpx' ? toGpx(track) : toGeoJson(track));
+
+      await Sharing.shareAsync(file.uri, {
+        mimeType: type.mimeType,
+        UTI: type.uti,
+        dialogTitle: track.name,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error exporting track:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Add a listener for recorder and track list changes
+   */
+  addListener(listener: (state: TrackState) => void): () => void {
+    this.listeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private handleFix = (fix: LocationFix): void => {
+    if (this.status !== 'recording' || !this.recording) return;
+
+    const segment = this.recording.segments[this.recording.segments.length - 1];
+    const last = segment[segment.length - 1];
+    if (last && fix.timestamp <= last.timestamp) return;
+
+    // The sensors report magnetic headings; points are stored against true north
+    const heading =
+      this.lastHeading && Date.now() - this.lastHeading.at <= HEADING_MAX_AGE
+        ? normalizeAngle(
+            this.lastHeading.heading + calculateDeclination(fix, new Date(fix.timestamp))
+          )
+        : null;
+    const point: TrackPoint = {
+      latitude: fix.latitude,
+      longitude: fix.longitude,
+      altitude: fix.altitude,
+      accuracy: fix.accuracy,
+      heading,
+      course: fix.heading,
+      speed: fix.speed,
+      timestamp: fix.timestamp,
+    };
+    segment.push(point);
+    if (this.recordingSummary) {
+      this.recordingSummary = extendTrackSummary(this.recordingSummary, last, point);
+    }
+    this.notifyListeners();
+
+    if (++this.pointsSinceCheckpoint >= CHECKPOINT_INTERVAL) {
+      this.checkpoint();
+    }
+  };
+
+  private startSegment(): void {
+    if (!this.recording) return;
+    const segments = this.recording.segments;
+    if (segments[segments.length - 1].length > 0) {
+      segments.push([]);
+    }
+  }
+
+  private subscribe(): void {
+    if (!this.unsubscribeLocation) {
+      this.unsubscribeLocation = LocationService.getInstance().addListener(this.handleFix);
+    }
+    if (!this.unsubscribeHeading) {
+      this.unsubscribeHeading = SensorService.getInstance().addListener((heading) => {
+        this.lastHeading = { heading, at: Date.now() };
+      });
+    }
+  }
+
+  private unsubscribe(): void {
+    if (this.unsubscribeLocation) {
+      this.unsubscribeLocation();
+      this.unsubscribeLocation = null;
+    }
+    if (this.unsubscribeHeading) {
+      this.unsubscribeHeading();
+      this.unsubscribeHeading = null;
+    }
+    this.lastHeading = null;
+  }
+
+  /**
+   * Write the points recorded since the last checkpoint to a file of their
+   * own, so each checkpoint costs the same however long the track gets
+   */
+  private async checkpoint(): Promise<void> {
+    if (!this.recording) return;
+    this.pointsSinceCheckpoint = 0;
+
+    const { segment, points } = this.checkpointed;
+    const segments = this.recording.segments.slice(segment);
+    segments[0] = segments[0].slice(points);
+    if (segments.every((entries) => entries.length === 0)) return;
+
+    try {
+      const checkpoint: TrackCheckpoint = { firstSegment: segment, segments };
+      const directory = this.getCheckpointDirectory(this.recording.id);
+      this.writeJson(new File(directory, `${this.checkpointCount}.json`), checkpoint);
+      this.checkpointCount++;
+      this.markCheckpointed();
+    } catch (error) {
+      console.error('Error saving recording:', error);
+    }
+  }
+
+  /**
+   * Count every point recorded so far as saved
+   */
+  private markCheckpointed(): void {
+    const segments = this.recording?.segments ?? [[]];
+    this.checkpointed = {
+      segment: segments.length - 1,
+      points: segments[segments.length - 1].length,
+    };
+  }
+
+  private getTrackFile(id: string): File {
+    const directory = new Directory(Paths.document, 'tracks');
+    if (!directory.exists) {
+      directory.create({ intermediates: true, idempotent: true });
+    }
+    return new File(directory, `${id}.json`);
+  }
+
+  private writeTrackFile(track: Track): void {
+    this.writeJson(this.getTrackFile(track.id), track);
+  }
+
+  private writeJson(file: File, value: unknown): void {
+    if (!file.exists) file.create();
+    file.write(JSON.stringify(value));
+  }
+
+  private async readTrackFile(id: string): Promise<Track | null> {
+    try {
+      const file = this.getTrackFile(id);
+      if (!file.exists) return null;
+      const track: Track = JSON.parse(await file.text());
+      // Points saved before the course was kept apart stored it as the heading
+      track.segments.forEach((segment) =>
+        segment.forEach((point) => {
+          if (point.course === undefined) {
+            point.course = point.heading;
+            point.heading = null;
+          }
+        })
+      );
+      return track;
+    } catch (error) {
+      console.error('Error reading track:', error);
+      return null;
+    }
+  }
+
+  private deleteTrackFile(id: string): void {
+    const file = this.getTrackFile(id);
+    if (file.exists) file.delete();
+  }
+
+  private getCheckpointDirectory(id: string): Directory {
+    const directory = new Directory(Paths.document, 'tracks', `${id}.checkpoints`);
+    if (!directory.exists) {
+      directory.create({ intermediates: true, idempotent: true });
+    }
+    return directory;
+  }
+
+  /**
+   * Checkpoint files of a recording, oldest first
+   */
+  private listCheckpoints(id: string): File[] {
+    return this.getCheckpointDirectory(id)
+      .list()
+      .filter((entry): entry is File => entry instanceof File && /^\d+\.json$/.test(entry.name))
+      .sort((a, b) => parseInt(a.name, 10) - parseInt(b.name, 10));
+  }
+
+  /**
+   * Put an interrupted recording back together from its checkpoints
+   */
+  private async readCheckpoints(id: string): Promise<Track | null> {
+    try {
+      const header = new File(this.getCheckpointDirectory(id), 'header.json');
+      const files = this.listCheckpoints(id);
+      if (!header.exists || files.length === 0) return null;
+      const { name, createdAt } = JSON.parse(await header.text());
+
+      const segments: TrackPoint[][] = [[]];
+      for (const file of files) {
+        const checkpoint: TrackCheckpoint = JSON.parse(await file.text());
+        checkpoint.segments.forEach((points, i) => {
+          const index = checkpoint.firstSegment + i;
+          segments[index] = (segments[index] ?? []).concat(points);
+        });
+      }
+      return { id, name, createdAt, segments };
+    } catch (error) {
+      console.error('Error reading track:', error);
+      return null;
+    }
+  }
+
+  private deleteCheckpoints(id: string): void {
+    const directory = new Directory(Paths.document, 'tracks', `${id}.checkpoints`);
+    if (directory.exists) directory.delete();
+  }
+
+  private notifyListeners(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => {
+      listener(state);
+    });
+  }
+}
+
+function createId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
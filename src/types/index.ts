@@ -3,19 +3,298 @@ export interface Coordinates {
   longitude: number;
 }
 
+export interface LocationFix extends Coordinates {
+  accuracy: number | null; // horizontal, meters
+  altitude: number | null; // meters above the WGS-84 ellipsoid
+  altitudeAccuracy: number | null; // meters
+  speed: number | null; // meters per second
+  heading: number | null; // course over ground, degrees from true north
+  timestamp: number; // epoch milliseconds
+}
+
 export interface DeviceOrientation {
   alpha: number; // rotation around z-axis (0-360)
   beta: number;  // rotation around x-axis (-180 to 180)
   gamma: number; // rotation around y-axis (-90 to 90)
 }
 
+export interface Destination {
+  id: string;
+  name: string;
+  description: string;
+  coordinates: Coordinates;
+  icon: string;
+  createdAt: number; // epoch milliseconds
+}
+
+export type DestinationInput = Omit<Destination, 'id' | 'createdAt'>;
+
+export interface Waypoint {
+  name: string;
+  coordinates: Coordinates;
+  arrivalRadius: number; // meters
+}
+
+export interface Route {
+  id: string;
+  name: string;
+  waypoints: Waypoint[];
+  createdAt: number; // epoch milliseconds
+}
+
+export type RouteInput = Omit<Route, 'id' | 'createdAt'>;
+
+export type ImportFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface ImportIssue {
+  feature: string; // which item in the file, e.g. "Placemark 3 (Summit)"
+  message: string;
+}
+
+export interface ImportPreview {
+  format: ImportFormat;
+  destinations: DestinationInput[];
+  routes: RouteInput[];
+  issues: ImportIssue[]; // items that were skipped or partly imported
+}
+
+export interface DestinationState {
+  destinations: Destination[];
+  activeDestinationId: string | null;
+  routes: Route[];
+  activeRouteId: string | null; // when set, route mode takes precedence
+}
+
+export type NorthReference = 'true' | 'magnetic';
+
+// 'filtered' smooths the compass heading, 'fused' blends in the gyroscope,
+// 'kalman' tracks heading and turn rate with an uncertainty estimate
+export type HeadingMode = 'filtered' | 'fused' | 'kalman';
+
+// 'sensor' is the compass/gyro heading, 'course' the GPS course over ground,
+// 'blended' a mix of both while slowing down
+export type HeadingSource = 'sensor' | 'course' | 'blended';
+
+// 'greatCircle' follows the shortest path (bearing changes along the way),
+// 'rhumb' holds a constant bearing to the target
+export type GuidanceMode = 'greatCircle' | 'rhumb';
+
+// Notation used to display and enter positions
+export type CoordinateFormat = 'dd' | 'dms' | 'utm' | 'mgrs' | 'geohash' | 'pluscode';
+
+export type DistanceUnits = 'metric' | 'imperial' | 'nautical';
+
+// 'mils' are NATO mils, 6400 to the circle
+export type AngleUnits = 'degrees' | 'mils';
+
+// How much the spoken guidance says; minimal only speaks when far off course
+export type VoiceVerbosity = 'off' | 'minimal' | 'normal' | 'detailed';
+
+// How vibration tells left from right: taps counts pulses, length uses short and long buzzes
+export type HapticGuidanceStyle = 'off' | 'taps' | 'length';
+
+export interface AppSettings {
+  northReference: NorthReference;
+  headingMode: HeadingMode;
+  positionSmoothing: boolean;
+  courseHeading: boolean; // use the GPS course while moving
+  courseSpeedThreshold: number; // m/s at which the GPS course takes over
+  guidanceMode: GuidanceMode;
+  coordinateFormat: CoordinateFormat;
+  distanceUnits: DistanceUnits;
+  angleUnits: AngleUnits;
+  proximityAlerts: boolean; // haptics and notifications when crossing a ring
+  proximityRings: number[]; // meters around the target, largest first
+  voiceGuidance: VoiceVerbosity;
+  hapticGuidance: HapticGuidanceStyle;
+  alignmentCone: number; // degrees either side of the target that count as aligned
+}
+
 export interface NavigationData {
-  userLocation: Coordinates | null;
-  targetLocation: Coordinates;
+  userLocation: LocationFix | null;
+  destination: Destination | null;
+  route: Route | null;
+  currentLegIndex: number | null; // index of the waypoint being navigated to
+  targetLocation: Coordinates | null;
   distance: number | null;
-  bearing: number | null;
-  deviceHeading: number | null;
+  distanceToWaypoint: number | null;
+  remainingRouteDistance: number | null;
+  bearing: number | null; // relative to northReference
+  magneticHeading: number | null; // raw heading reported by the sensors
+  deviceHeading: number | null; // relative to northReference
+  headingSource: HeadingSource; // where deviceHeading currently comes from
+  headingUncertainty: number | null; // one-sigma degrees, when the heading mode estimates it
   relativeAngle: number | null;
+  declination: number | null; // degrees, positive = magnetic north east of true north
+  northReference: NorthReference;
+  guidanceMode: GuidanceMode; // how distance and bearing to the target are measured
+}
+
+// enter: moved inside a ring; leave: moved back out past its hysteresis margin
+export type ProximityEventType = 'enter' | 'leave';
+
+export interface ProximityEvent {
+  type: ProximityEventType;
+  radius: number; // meters, the ring that was crossed
+  distance: number; // meters to the target when it fired
+  arrived: boolean; // entered the innermost ring
+  timestamp: number; // epoch milliseconds
+}
+
+export interface TripStats {
+  startedAt: number; // epoch milliseconds when the trip was (re)started
+  elapsedTime: number; // seconds since startedAt, as of the latest fix
+  distanceTraveled: number; // meters
+  currentSpeed: number | null; // m/s
+  averageSpeed: number | null; // m/s over the elapsed time
+  closingSpeed: number | null; // m/s toward the target, negative when moving away
+  eta: number | null; // seconds until arrival at the current closing speed
+  closestApproach: number | null; // smallest distance to the target so far, meters
+}
+
+export interface TrackPoint extends Coordinates {
+  altitude: number | null; // meters above the WGS-84 ellipsoid
+  accuracy: number | null; // horizontal, meters
+  heading: number | null; // where the phone pointed, degrees from true north
+  course: number | null; // course over ground, degrees from true north
+  speed: number | null; // meters per second
+  timestamp: number; // epoch milliseconds
+}
+
+export interface Track {
+  id: string;
+  name: string;
+  segments: TrackPoint[][]; // a new segment starts on resume or when split
+  createdAt: number;
+}
+
+export interface TrackSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  distance: number; // meters, not counting gaps between segments
+  duration: number; // seconds, not counting pauses
+  pointCount: number;
+}
+
+export type RecorderStatus = 'idle' | 'recording' | 'paused';
+
+export interface TrackState {
+  status: RecorderStatus;
+  recording: TrackSummary | null; // the track being recorded, if any
+  tracks: TrackSummary[]; // saved tracks, newest first
+}
+
+export type TrackExportFormat = 'gpx' | 'geojson';
+
+export interface Breadcrumb extends Coordinates {
+  timestamp: number; // epoch milliseconds when it was dropped
+}
+
+// off: no trail; dropping: laying breadcrumbs; returning: guiding back along them;
+// arrived: back at the start, keeping the trail until the user dismisses it
+export type BreadcrumbMode = 'off' | 'dropping' | 'returning' | 'arrived';
+
+export interface BreadcrumbState {
+  mode: BreadcrumbMode;
+  trail: Breadcrumb[]; // oldest first; trail[0] is where dropping started
+  targetIndex: number | null; // breadcrumb being returned to, while returning
+}
+
+export interface OrientationSample {
+  heading: number; // degrees from magnetic north, before smoothing
+  pitch: number; // degrees
+  roll: number; // degrees
+  timestamp: number; // epoch milliseconds
+}
+
+export interface ReplaySession {
+  name: string;
+  fixes: LocationFix[]; // raw fixes, oldest first
+  orientation: OrientationSample[]; // oldest first
+}
+
+// device: real GPS and sensors; replay: a recorded session; walk: a scripted walk to the target
+export type DataSourceKind = 'device' | 'replay' | 'walk';
+
+export interface SimulationOptions {
+  playbackSpeed: number; // replay speed multiplier
+  loop: boolean; // restart the replay when it ends
+  walkSpeed: number; // m/s
+  positionNoise: number; // meters, one sigma
+  headingNoise: number; // degrees, one sigma
+  seed: number; // random seed, so a scripted walk can be reproduced exactly
+}
+
+export interface SimulationState {
+  source: DataSourceKind;
+  session: ReplaySession | null; // the loaded recording, if any
+  options: SimulationOptions;
+}
+
+// deviceMotion: the platform's fused orientation; magnetometer: heading computed from the raw field
+export type SensorSampleSource = 'deviceMotion' | 'magnetometer';
+
+export interface SensorSample extends OrientationSample {
+  source: SensorSampleSource;
+  magneticField: Vector3 | null; // uncorrected magnetometer reading, magnetometer samples only
+  filteredHeading: number; // published heading after smoothing and the calibration offset
+  calibrationOffset: number; // degrees added to every published heading
+  headingMode: HeadingMode;
+}
+
+export interface RecordedFix extends LocationFix {
+  filteredLatitude: number; // position after Kalman smoothing
+  filteredLongitude: number;
+}
+
+// Also a valid ReplaySession, so recordings can be replayed as they are
+export interface SessionRecording {
+  id: string;
+  name: string;
+  createdAt: number; // epoch milliseconds
+  fixes: RecordedFix[]; // oldest first
+  orientation: SensorSample[]; // oldest first
+  dropped: number; // oldest samples and fixes discarded to stay within the size limit
+}
+
+export interface RecordingSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  duration: number; // seconds from the first to the last sample
+  fixCount: number;
+  sampleCount: number;
+  dropped: number;
+}
+
+export interface SessionRecorderState {
+  recording: RecordingSummary | null; // the session being recorded, if any
+  recordings: RecordingSummary[]; // saved recordings, newest first
+}
+
+export type RecordingExportFormat = 'json' | 'csv';
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface MagnetometerCalibration {
+  hardIron: Vector3; // bias subtracted from every raw sample
+  softIron: number[][]; // 3x3 row-major correction applied after the bias
+  fieldStrength: number; // radius of the corrected sphere, in sensor units
+  residual: number; // relative RMS deviation from the sphere
+  coverage: number; // fraction of field directions sampled (0-1)
+  quality: number; // overall score (0-100)
+  createdAt: number; // epoch milliseconds
+}
+
+export interface CalibrationProgress {
+  sampleCount: number;
+  coverage: boolean[]; // COVERAGE_BANDS x COVERAGE_SECTORS cells, row-major
+  canFinish: boolean;
 }
 
 export interface SensorState {
@@ -25,14 +304,43 @@ export interface SensorState {
   deviceMotion: DeviceOrientation | null;
 }
 
+// DENIED can still be asked again; DENIED_PERMANENTLY only changes in the system settings
 export enum PermissionStatus {
   GRANTED = 'granted',
   DENIED = 'denied',
+  DENIED_PERMANENTLY = 'denied-permanently',
   PENDING = 'pending',
   UNDETERMINED = 'undetermined'
 }
 
 export interface AppPermissions {
   location: PermissionStatus;
-  sensors: PermissionStatus;
+  motion: PermissionStatus;
+  backgroundLocation: PermissionStatus; // only asked for when haptic guidance is on
+}
+
+export type PermissionKind = keyof AppPermissions;
+
+export type ErrorCode =
+  | 'location-permission-denied'
+  | 'location-services-disabled'
+  | 'location-timeout'
+  | 'location-unavailable'
+  | 'sensors-unavailable'
+  | 'sensor-start-failed'
+  | 'gl-context-failed';
+
+// fatal: nothing useful can be shown; warning: the UI keeps working in a reduced way
+export type ErrorSeverity = 'fatal' | 'warning';
+
+// fallback-sensor: steer by the next heading source (compass, then GPS course)
+export type RecoveryAction = 'retry' | 'open-settings' | 'fallback-sensor';
+
+export interface AppError {
+  code: ErrorCode;
+  severity: ErrorSeverity;
+  action: RecoveryAction;
+  actionLabel: string;
+  message: string;
+  detail: string | null; // the underlying error message, if any
 }
@@ -0,0 +1,114 @@
+import { Breadcrumb, LocationFix } from '../../types';
+import {
+  advanceBreadcrumb,
+  breadcrumbSpacing,
+  shouldDropBreadcrumb,
+  simplifyPath,
+  toReturnRoute,
+} from '../breadcrumbs';
+import { fromLocalENU } from '../geolocation';
+
+const ORIGIN = { latitude: 46.55, longitude: 7.97 };
+
+// A breadcrumb some meters east and north of the origin
+function at(east: number, north: number, timestamp: number = 0): Breadcrumb {
+  return { ...fromLocalENU(ORIGIN, east, north), timestamp };
+}
+
+function fix(east: number, north: number, speed: number | null = null): LocationFix {
+  return {
+    ...fromLocalENU(ORIGIN, east, north),
+    accuracy: 5,
+    altitude: null,
+    altitudeAccuracy: null,
+    speed,
+    heading: null,
+    timestamp: 0,
+  };
+}
+
+describe('simplifyPath', () => {
+  it('keeps short paths as they are', () => {
+    const path = [at(0, 0), at(3, 40)];
+    expect(simplifyPath(path, 5)).toBe(path);
+  });
+
+  it('drops jitter along a straight line', () => {
+    const path = [at(0, 0), at(25, 3), at(50, -3), at(75, 2), at(100, 0)];
+    expect(simplifyPath(path, 5)).toEqual([path[0], path[4]]);
+  });
+
+  it('keeps the corners of a turn', () => {
+    const path = [at(0, 0), at(50, 1), at(100, 0), at(101, 50), at(100, 100)];
+    expect(simplifyPath(path, 5)).toEqual([path[0], path[2], path[4]]);
+  });
+
+  it('keeps a point only when it is farther than the tolerance', () => {
+    const kept = [at(0, 0), at(50, 6), at(100, 0)];
+    expect(simplifyPath(kept, 5)).toEqual(kept);
+    expect(simplifyPath(kept, 7)).toEqual([kept[0], kept[2]]);
+
+    const dropped = [at(0, 0), at(50, 4), at(100, 0)];
+    expect(simplifyPath(dropped, 5)).toEqual([dropped[0], dropped[2]]);
+  });
+
+  it('measures against the segment, not the infinite line', () => {
+    // The last point doubles back past the start
+    const path = [at(0, 0), at(100, 0), at(-20, 0)];
+    expect(simplifyPath(path, 5)).toEqual(path);
+  });
+});
+
+describe('breadcrumbSpacing', () => {
+  it('spreads breadcrumbs with speed and poor accuracy, within limits', () => {
+    expect(breadcrumbSpacing(null, null)).toBe(5);
+    expect(breadcrumbSpacing(1.5, 5)).toBe(15);
+    expect(breadcrumbSpacing(0.5, 20)).toBe(20);
+    expect(breadcrumbSpacing(30, 5)).toBe(50);
+  });
+});
+
+describe('shouldDropBreadcrumb', () => {
+  it('drops the first breadcrumb and then one every spacing', () => {
+    expect(shouldDropBreadcrumb([], fix(0, 0))).toBe(true);
+    expect(shouldDropBreadcrumb([at(0, 0)], fix(0, 4))).toBe(false);
+    expect(shouldDropBreadcrumb([at(0, 0)], fix(0, 6))).toBe(true);
+  });
+
+  it('ignores fixes that are too inaccurate', () => {
+    expect(shouldDropBreadcrumb([], { ...fix(0, 0), accuracy: 80 })).toBe(false);
+  });
+
+  it('drops early at a sharp turn', () => {
+    const trail = [at(0, 0), at(0, 30)];
+    // 10 m at 3 m/s is short of the 30 m spacing
+    expect(shouldDropBreadcrumb(trail, fix(0, 40, 3))).toBe(false);
+    expect(shouldDropBreadcrumb(trail, fix(10, 30, 3))).toBe(true);
+  });
+});
+
+describe('returning along the trail', () => {
+  const trail = [at(0, 0, 1000), at(0, 30, 2000), at(0, 60, 3000)];
+
+  it('moves the target back only once a breadcrumb is reached', () => {
+    expect(advanceBreadcrumb(fix(0, 45), trail, 2)).toBe(2);
+    expect(advanceBreadcrumb(fix(0, 58), trail, 2)).toBe(1);
+    // Reaching an older breadcrumb skips the ones in between
+    expect(advanceBreadcrumb(fix(1, 29), trail, 2)).toBe(0);
+    expect(advanceBreadcrumb(fix(0, 3), trail, 1)).toBeNull();
+  });
+
+  it('presents the trail as a route back to the start', () => {
+    const route = toReturnRoute(trail);
+    expect(route.waypoints.map(({ name }) => name)).toEqual([
+      'Breadcrumb 2',
+      'Breadcrumb 1',
+      'Start',
+    ]);
+    expect(route.waypoints[2].coordinates).toEqual({
+      latitude: trail[0].latitude,
+      longitude: trail[0].longitude,
+    });
+    expect(route.createdAt).toBe(1000);
+  });
+});
@@ -0,0 +1,114 @@
+import { CoordinateFormat, Coordinates } from '../../types';
+import {
+  detectCoordinateFormat,
+  formatCoordinates,
+  fromUtm,
+  parseCoordinates,
+  toUtm,
+} from '../coordinates';
+import { calculateDistance } from '../geolocation';
+
+const PLACES: Coordinates[] = [
+  { latitude: 51.477928, longitude: -0.001545 }, // Greenwich
+  { latitude: -33.856784, longitude: 151.215297 }, // Sydney
+  { latitude: 60.391263, longitude: 5.322054 }, // Bergen, in the widened UTM zone 32V
+  { latitude: -54.801912, longitude: -68.302951 }, // Ushuaia
+  { latitude: 0.000001, longitude: 179.999999 }, // by the antimeridian
+];
+
+// How far a formatted and parsed coordinate may move, meters
+const ROUND_TRIP_TOLERANCE: Record<CoordinateFormat, number> = {
+  dd: 0.1, // six decimals
+  dms: 3.1, // tenths of a second
+  utm: 1.5, // truncated to the meter
+  mgrs: 1.5, // center of the 1 m square
+  geohash: 3.5, // nine characters
+  pluscode: 2.5, // eleven digits
+};
+
+function parse(input: string, format?: CoordinateFormat, reference?: Coordinates): Coordinates {
+  const result = parseCoordinates(input, format, reference);
+  if (typeof result === 'string') throw new Error(`${input}: ${result}`);
+  return result;
+}
+
+describe('formatCoordinates and parseCoordinates', () => {
+  const formats = Object.keys(ROUND_TRIP_TOLERANCE) as CoordinateFormat[];
+
+  it.each(formats)('round-trips %s', (format) => {
+    for (const place of PLACES) {
+      const text = formatCoordinates(place, format);
+      expect(detectCoordinateFormat(text)).toBe(format);
+      expect(calculateDistance(parse(text), place)).toBeLessThan(ROUND_TRIP_TOLERANCE[format]);
+    }
+  });
+});
+
+describe('UTM', () => {
+  it('projects and inverts to well under a millimeter', () => {
+    for (const place of PLACES) {
+      const utm = toUtm(place)!;
+      const back = fromUtm(utm);
+      expect(calculateDistance(back, place)).toBeLessThan(0.001);
+    }
+  });
+
+  it('uses the Norway and Svalbard zone exceptions', () => {
+    expect(toUtm({ latitude: 60.39, longitude: 5.32 })?.zone).toBe(32);
+    expect(toUtm({ latitude: 78.22, longitude: 15.65 })?.zone).toBe(33);
+  });
+
+  it('leaves the polar regions to other systems', () => {
+    expect(toUtm({ latitude: 85, longitude: 0 })).toBeNull();
+    expect(formatCoordinates({ latitude: -81, longitude: 0 }, 'utm')).toBe('Outside UTM coverage');
+  });
+});
+
+describe('parseCoordinates', () => {
+  it('reads degrees and minutes with hemisphere letters either side', () => {
+    const expected = { latitude: -33.85, longitude: 151.25 };
+    for (const text of ['33°51\'S 151°15\'E', 'S 33 51 E 151 15', '33 51 S, 151 15 E']) {
+      const result = parse(text);
+      expect(result.latitude).toBeCloseTo(expected.latitude, 9);
+      expect(result.longitude).toBeCloseTo(expected.longitude, 9);
+    }
+  });
+
+  it('decodes a Plus Code to the center of its cell', () => {
+    expect(parse('8FVC0000+')).toEqual({ latitude: 47.5, longitude: 8.5 });
+
+    const full = parse('8FVC9G8F+6W');
+    expect(full.latitude).toBeCloseTo(47.3655625, 9);
+    expect(full.longitude).toBeCloseTo(8.5248125, 9);
+  });
+
+  it('resolves a short Plus Code against a nearby location', () => {
+    const full = parse('8FVC9G8F+6W');
+    // The second reference sits in the next cell south, but close to this one
+    for (const nearby of [
+      { latitude: 47.4, longitude: 8.6 },
+      { latitude: 46.99, longitude: 8.6 },
+    ]) {
+      const short = parse('9G8F+6W', 'pluscode', nearby);
+      expect(short.latitude).toBeCloseTo(full.latitude, 9);
+      expect(short.longitude).toBeCloseTo(full.longitude, 9);
+    }
+    expect(parseCoordinates('9G8F+6W', 'pluscode')).toMatch(/need a nearby location/);
+  });
+
+  it('decodes MGRS at reduced precision to the center of the square', () => {
+    const utm = toUtm(PLACES[0])!;
+    const square = parse(formatCoordinates(PLACES[0], 'mgrs').replace(/(\d{3})\d\d/g, '$1'));
+    const squareUtm = toUtm(square)!;
+    expect(squareUtm.easting).toBeCloseTo(Math.floor(utm.easting / 100) * 100 + 50, 3);
+    expect(squareUtm.northing).toBeCloseTo(Math.floor(utm.northing / 100) * 100 + 50, 3);
+  });
+
+  it('explains what is wrong with the input', () => {
+    expect(parseCoordinates('')).toBe('Coordinates are required');
+    expect(parseCoordinates('61U 500000 5000000')).toBe('UTM zone must be between 1 and 60');
+    expect(parseCoordinates('8FVC9G8F+6A')).toBe('"A" is not a Plus Code character');
+    expect(parseCoordinates('8FV+')).toBe('Plus Code has the "+" in the wrong place');
+    expect(parseCoordinates('hello')).toBe('Unrecognized coordinate format');
+  });
+});
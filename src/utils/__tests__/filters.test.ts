@@ -0,0 +1,176 @@
+import {
+  AngleComplementaryFilter,
+  AngleFilter,
+  AngleKalmanFilter,
+  ComplementaryFilter,
+  PositionKalmanFilter,
+} from '../filters';
+import { angleDifference, fromLocalENU, toLocalENU } from '../geolocation';
+
+describe('AngleFilter', () => {
+  it('averages across north instead of through south', () => {
+    const filter = new AngleFilter(0.5);
+    filter.update(350);
+    expect(Math.abs(angleDifference(0, filter.update(10)))).toBeLessThan(10);
+  });
+
+  it('settles on a steady angle', () => {
+    const filter = new AngleFilter(0.3);
+    let angle = 0;
+    for (let i = 0; i < 50; i++) angle = filter.update(359);
+    expect(angle).toBeCloseTo(359, 6);
+  });
+});
+
+describe('ComplementaryFilter', () => {
+  it('starts at the absolute reference and integrates the rate from there', () => {
+    const filter = new ComplementaryFilter(0.9);
+    expect(filter.update(100, 40, 0.1)).toBe(40);
+    // 90% of (40 + 100 * 0.1) plus 10% of 40
+    expect(filter.update(100, 40, 0.1)).toBeCloseTo(49, 9);
+  });
+});
+
+describe('AngleComplementaryFilter', () => {
+  it('pulls toward the compass the short way across north', () => {
+    const filter = new AngleComplementaryFilter(0.5);
+    expect(filter.update(0, 355, 0.1)).toBe(355);
+    expect(filter.update(0, 5, 0.1)).toBeCloseTo(0, 9);
+    expect(filter.update(0, 5, 0.1)).toBeCloseTo(2.5, 9);
+  });
+
+  it('follows the gyroscope through a turn past north', () => {
+    const filter = new AngleComplementaryFilter(0.98);
+    let heading = filter.update(0, 340, 0.02);
+    // Turning at 90°/s for a second, with the compass keeping up
+    for (let t = 0.02; t <= 1.0001; t += 0.02) {
+      const previous = heading;
+      heading = filter.update(90, (340 + 90 * t) % 360, 0.02);
+      expect(angleDifference(previous, heading)).toBeGreaterThan(0);
+      expect(angleDifference(previous, heading)).toBeLessThan(3);
+    }
+    expect(Math.abs(angleDifference(70, heading))).toBeLessThan(1);
+  });
+});
+
+describe('AngleKalmanFilter', () => {
+  it('starts at the first measurement with its noise as the uncertainty', () => {
+    const filter = new AngleKalmanFilter(50, 25);
+    expect(filter.getHeadingUncertainty()).toBeNull();
+    expect(filter.update(370, 0.1)).toBe(10);
+    expect(filter.getHeadingUncertainty()).toBe(5);
+  });
+
+  it('treats 359° to 1° as a small step across north', () => {
+    const filter = new AngleKalmanFilter();
+    filter.update(359, 0.1);
+    for (let i = 0; i < 50; i++) {
+      const heading = filter.update(i % 2 === 0 ? 1 : 359, 0.1);
+      expect(Math.abs(angleDifference(0, heading))).toBeLessThan(2);
+    }
+    expect(Math.abs(filter.getRate())).toBeLessThan(5);
+  });
+
+  it('learns the turn rate and keeps up with a steady turn', () => {
+    const filter = new AngleKalmanFilter();
+    let heading = filter.update(300, 0.1);
+    // 30°/s for ten seconds, through north
+    for (let t = 0.1; t <= 10.0001; t += 0.1) {
+      heading = filter.update((300 + 30 * t) % 360, 0.1);
+    }
+    expect(filter.getRate()).toBeCloseTo(30, 0);
+    expect(Math.abs(angleDifference(240, heading))).toBeLessThan(1);
+  });
+
+  it('weights each measurement by its own noise', () => {
+    const precise = new AngleKalmanFilter();
+    const noisy = new AngleKalmanFilter();
+    for (const filter of [precise, noisy]) {
+      for (let i = 0; i < 20; i++) filter.update(90, 0.1);
+    }
+
+    const preciseStep = angleDifference(90, precise.update(100, 0.1, 1));
+    const noisyStep = angleDifference(90, noisy.update(100, 0.1, 400));
+    expect(preciseStep).toBeGreaterThan(noisyStep * 5);
+    expect(precise.getHeadingUncertainty()!).toBeLessThan(noisy.getHeadingUncertainty()!);
+  });
+
+  it('keeps a symmetric covariance and forgets it on reset', () => {
+    const filter = new AngleKalmanFilter();
+    filter.update(10, 0.1);
+    const first = filter.getHeadingUncertainty()!;
+    for (let i = 0; i < 10; i++) filter.update(10, 0.1);
+
+    const [[headingVariance, headingRate], [rateHeading]] = filter.getCovariance();
+    expect(headingRate).toBeCloseTo(rateHeading, 9);
+    expect(Math.sqrt(headingVariance)).toBeLessThan(first);
+
+    filter.reset();
+    expect(filter.getHeadingUncertainty()).toBeNull();
+    expect(filter.getRate()).toBe(0);
+  });
+});
+
+describe('PositionKalmanFilter', () => {
+  const ORIGIN = { latitude: 51.5, longitude: -0.12 };
+  const at = (east: number, north: number) => fromLocalENU(ORIGIN, east, north);
+  const offset = (position: { latitude: number; longitude: number }) =>
+    toLocalENU(ORIGIN, position);
+
+  it('passes the first fix through', () => {
+    const filter = new PositionKalmanFilter();
+    expect(filter.getEstimate()).toBeNull();
+    expect(filter.update(ORIGIN, 5, 0)).toBe(ORIGIN);
+  });
+
+  it('smooths jitter around a fixed point', () => {
+    const filter = new PositionKalmanFilter();
+    let estimate = filter.update(at(5, 0), 5, 0);
+    for (let i = 1; i <= 30; i++) {
+      estimate = filter.update(at(i % 2 === 0 ? 5 : -5, 0), 5, i * 1000);
+    }
+    expect(Math.abs(offset(estimate).east)).toBeLessThan(2);
+    expect(filter.getSpeed()).toBeLessThan(1);
+  });
+
+  it('trusts accurate fixes more than poor ones', () => {
+    const accurate = new PositionKalmanFilter();
+    const poor = new PositionKalmanFilter();
+    for (const filter of [accurate, poor]) {
+      for (let i = 0; i < 10; i++) filter.update(ORIGIN, 5, i * 1000);
+    }
+
+    const accurateStep = offset(accurate.update(at(10, 0), 3, 10000)).east;
+    const poorStep = offset(poor.update(at(10, 0), 30, 10000)).east;
+    expect(accurateStep).toBeGreaterThan(poorStep * 3);
+  });
+
+  it('tracks a steady walk and its speed', () => {
+    const filter = new PositionKalmanFilter();
+    let estimate = filter.update(ORIGIN, 5, 0);
+    // 1.5 m/s north for a minute
+    for (let t = 1; t <= 60; t++) {
+      estimate = filter.update(at(0, 1.5 * t), 5, t * 1000);
+    }
+    expect(offset(estimate).north).toBeCloseTo(90, 0);
+    expect(filter.getSpeed()).toBeCloseTo(1.5, 1);
+  });
+
+  it('rejects a lone jump but restarts after a run of them', () => {
+    const filter = new PositionKalmanFilter();
+    for (let i = 0; i < 10; i++) filter.update(ORIGIN, 5, i * 1000);
+
+    const jumped = at(500, 0);
+    expect(Math.abs(offset(filter.update(jumped, 5, 10000)).east)).toBeLessThan(1);
+    expect(Math.abs(offset(filter.update(jumped, 5, 11000)).east)).toBeLessThan(1);
+    expect(filter.update(jumped, 5, 12000)).toBe(jumped);
+    expect(filter.getSpeed()).toBe(0);
+  });
+
+  it('starts over when time runs backwards', () => {
+    const filter = new PositionKalmanFilter();
+    filter.update(ORIGIN, 5, 10000);
+    const earlier = at(50, 50);
+    expect(filter.update(earlier, 5, 5000)).toBe(earlier);
+  });
+});
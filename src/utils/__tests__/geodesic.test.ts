@@ -0,0 +1,72 @@
+import { geodesicDirect, geodesicInverse, rhumbBearing, rhumbDistance } from '../geodesic';
+import { calculateDistance } from '../geolocation';
+
+// Degrees, minutes and seconds to decimal degrees
+const dms = (degrees: number, minutes: number, seconds: number) =>
+  Math.sign(degrees || 1) * (Math.abs(degrees) + minutes / 60 + seconds / 3600);
+
+// Vincenty's worked example, Flinders Peak to Buninyong (Victoria, Australia)
+const FLINDERS_PEAK = { latitude: dms(-37, 57, 3.7203), longitude: dms(144, 25, 29.5244) };
+const BUNINYONG = { latitude: dms(-37, 39, 10.1561), longitude: dms(143, 55, 35.3839) };
+const DISTANCE = 54972.271; // meters
+const INITIAL_BEARING = dms(306, 52, 5.37);
+const FINAL_BEARING = dms(127, 10, 25.07) + 180; // reverse azimuth turned to the direction of travel
+
+// Pole to pole along a meridian, twice the WGS-84 quarter meridian
+const MERIDIAN_HALF = 20003931.4586;
+
+describe('geodesicInverse', () => {
+  it('matches the Flinders Peak reference', () => {
+    const result = geodesicInverse(FLINDERS_PEAK, BUNINYONG);
+    expect(Math.abs(result.distance - DISTANCE)).toBeLessThan(0.001);
+    expect(result.initialBearing).toBeCloseTo(INITIAL_BEARING, 5);
+    expect(result.finalBearing).toBeCloseTo(FINAL_BEARING, 5);
+  });
+
+  it('returns zero for coincident points', () => {
+    expect(geodesicInverse(BUNINYONG, BUNINYONG)).toEqual({
+      distance: 0,
+      initialBearing: 0,
+      finalBearing: 0,
+    });
+  });
+
+  it('falls back to the sphere for antipodal points', () => {
+    const poles = geodesicInverse({ latitude: 90, longitude: 0 }, { latitude: -90, longitude: 0 });
+    expect(Math.abs(poles.distance / MERIDIAN_HALF - 1)).toBeLessThan(0.005);
+    expect(poles.initialBearing).toBeCloseTo(180, 6);
+
+    // Nearly antipodal points where the iteration does not converge
+    const from = { latitude: 0, longitude: 0 };
+    const to = { latitude: 0.5, longitude: 179.7 };
+    const equator = geodesicInverse(from, to);
+    expect(equator.distance).toBe(calculateDistance(from, to));
+    expect(Math.abs(equator.distance / MERIDIAN_HALF - 1)).toBeLessThan(0.005);
+  });
+});
+
+describe('geodesicDirect', () => {
+  it('matches the Flinders Peak reference', () => {
+    const result = geodesicDirect(FLINDERS_PEAK, INITIAL_BEARING, DISTANCE);
+    expect(result.coordinates.latitude).toBeCloseTo(BUNINYONG.latitude, 7);
+    expect(result.coordinates.longitude).toBeCloseTo(BUNINYONG.longitude, 7);
+    expect(result.finalBearing).toBeCloseTo(FINAL_BEARING, 5);
+  });
+});
+
+describe('rhumb lines', () => {
+  it('follow the equator and meridians', () => {
+    const origin = { latitude: 0, longitude: 0 };
+    expect(rhumbBearing(origin, { latitude: 0, longitude: 1 })).toBeCloseTo(90, 9);
+    // One degree of longitude on the equator
+    expect(rhumbDistance(origin, { latitude: 0, longitude: 1 })).toBeCloseTo(111319.491, 2);
+    expect(rhumbBearing(origin, { latitude: -1, longitude: 0 })).toBeCloseTo(180, 9);
+  });
+
+  it('take the shorter way across the antimeridian', () => {
+    const from = { latitude: 10, longitude: 179.5 };
+    const to = { latitude: 10, longitude: -179.5 };
+    expect(rhumbBearing(from, to)).toBeCloseTo(90, 9);
+    expect(rhumbDistance(from, to)).toBeLessThan(120000);
+  });
+});
@@ -0,0 +1,220 @@
+import { ImportPreview } from '../../types';
+import { parseImportFile } from '../importers';
+import { DEFAULT_ARRIVAL_RADIUS } from '../route';
+
+const GPX = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">
+  <wpt lat="46.5586" lon="7.9804">
+    <name>Summit</name>
+    <desc><![CDATA[<p>Top of the <b>ridge</b></p>]]></desc>
+  </wpt>
+  <wpt lat="46.55" lon="7.97"><cmt>Spring</cmt></wpt>
+  <wpt lat="95" lon="7.9"><name>Nowhere</name></wpt>
+  <rte>
+    <name>Ridge</name>
+    <rtept lat="46.55" lon="7.97"><name>Gate</name></rtept>
+    <rtept lat="abc" lon="7.98"/>
+    <rtept lat="46.56" lon="7.99"/>
+  </rte>
+  <rte>
+    <rtept lat="46.55" lon="7.97"/>
+  </rte>
+  <trk><name>Morning walk</name><trkseg><trkpt lat="46.55" lon="7.97"/></trkseg></trk>
+</gpx>`;
+
+const KML = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <Folder>
+      <Placemark>
+        <name>Summit</name>
+        <description><![CDATA[Top of the <i>ridge</i>]]></description>
+        <Point><coordinates>7.9804,46.5586,2970</coordinates></Point>
+      </Placemark>
+    </Folder>
+    <Placemark>
+      <name>Ridge</name>
+      <LineString>
+        <coordinates>
+          7.97,46.55,0 7.98,46.555
+          7.99,46.56
+        </coordinates>
+      </LineString>
+    </Placemark>
+    <Placemark><name>Lake</name><Polygon/></Placemark>
+    <Placemark><name>Empty</name></Placemark>
+    <Placemark><Point><coordinates>200,46</coordinates></Point></Placemark>
+  </Document>
+</kml>`;
+
+const GEOJSON = JSON.stringify({
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      properties: { title: 'Summit', desc: 'Top', icon: '⛰️' },
+      geometry: { type: 'Point', coordinates: [7.9804, 46.5586, 2970] },
+    },
+    {
+      type: 'Feature',
+      properties: { name: 'Ridge' },
+      geometry: {
+        type: 'LineString',
+        coordinates: [
+          [7.97, 46.55],
+          [7.98],
+          [7.99, 46.56],
+        ],
+      },
+    },
+    { type: 'Feature', properties: { name: 'No shape' }, geometry: null },
+    { type: 'Feature', properties: null, geometry: { type: 'Polygon', coordinates: [] } },
+    { type: 'Feature', geometry: { type: 'LineString', coordinates: 'nope' } },
+    'not a feature',
+  ],
+});
+
+function preview(content: string, fileName?: string): ImportPreview {
+  const result = parseImportFile(content, fileName);
+  if (typeof result === 'string') throw new Error(result);
+  return result;
+}
+
+describe('parseImportFile', () => {
+  it('imports GPX waypoints and routes and reports what it skipped', () => {
+    const result = preview(GPX, 'walk.gpx');
+
+    expect(result.format).toBe('gpx');
+    expect(result.destinations).toEqual([
+      {
+        name: 'Summit',
+        description: 'Top of the ridge',
+        coordinates: { latitude: 46.5586, longitude: 7.9804 },
+        icon: '📍',
+      },
+      {
+        name: 'Waypoint 2',
+        description: 'Spring',
+        coordinates: { latitude: 46.55, longitude: 7.97 },
+        icon: '📍',
+      },
+    ]);
+    expect(result.routes).toEqual([
+      {
+        name: 'Ridge',
+        waypoints: [
+          {
+            name: 'Gate',
+            coordinates: { latitude: 46.55, longitude: 7.97 },
+            arrivalRadius: DEFAULT_ARRIVAL_RADIUS,
+          },
+          {
+            name: 'Ridge 3',
+            coordinates: { latitude: 46.56, longitude: 7.99 },
+            arrivalRadius: DEFAULT_ARRIVAL_RADIUS,
+          },
+        ],
+      },
+    ]);
+    expect(result.issues).toEqual([
+      { feature: 'Waypoint 3 (Nowhere)', message: 'Latitude 95 is outside -90..90' },
+      {
+        feature: 'Route 1 (Ridge)',
+        message: 'Point 2 skipped: Coordinates are missing or not numbers',
+      },
+      { feature: 'Route 2', message: 'A route needs at least two valid points' },
+      {
+        feature: 'Track 1 (Morning walk)',
+        message: 'Recorded tracks are not imported; only waypoints and routes',
+      },
+    ]);
+  });
+
+  it('imports KML placemarks from any folder', () => {
+    const result = preview(KML, 'walk.kml');
+
+    expect(result.format).toBe('kml');
+    expect(result.destinations).toEqual([
+      {
+        name: 'Summit',
+        description: 'Top of the ridge',
+        coordinates: { latitude: 46.5586, longitude: 7.9804 },
+        icon: '📍',
+      },
+    ]);
+    expect(result.routes).toHaveLength(1);
+    expect(result.routes[0].name).toBe('Ridge');
+    expect(result.routes[0].waypoints.map(({ name, coordinates }) => [name, coordinates])).toEqual([
+      ['Ridge 1', { latitude: 46.55, longitude: 7.97 }],
+      ['Ridge 2', { latitude: 46.555, longitude: 7.98 }],
+      ['Ridge 3', { latitude: 46.56, longitude: 7.99 }],
+    ]);
+    expect(result.issues).toEqual([
+      {
+        feature: 'Placemark 3 (Lake)',
+        message: 'Polygon geometry is not supported; use a Point or LineString',
+      },
+      { feature: 'Placemark 4 (Empty)', message: 'Placemark has no geometry' },
+      { feature: 'Placemark 5', message: 'Longitude 200 is outside -180..180' },
+    ]);
+  });
+
+  it('imports GeoJSON features and skips malformed ones', () => {
+    const result = preview(GEOJSON, 'walk.geojson');
+
+    expect(result.format).toBe('geojson');
+    expect(result.destinations).toEqual([
+      {
+        name: 'Summit',
+        description: 'Top',
+        coordinates: { latitude: 46.5586, longitude: 7.9804 },
+        icon: '⛰️',
+      },
+    ]);
+    expect(result.routes.map(({ name, waypoints }) => [name, waypoints.length])).toEqual([
+      ['Ridge', 2],
+    ]);
+    expect(result.issues).toEqual([
+      {
+        feature: 'Feature 2 (Ridge)',
+        message: 'Point 2 skipped: Position must be [longitude, latitude]',
+      },
+      { feature: 'Feature 3 (No shape)', message: 'Feature has no geometry' },
+      {
+        feature: 'Feature 4',
+        message: 'Polygon geometry is not supported; use a Point or LineString',
+      },
+      { feature: 'Feature 5', message: 'LineString coordinates must be an array' },
+      { feature: 'Feature 6', message: 'Feature has no geometry' },
+    ]);
+  });
+
+  it('accepts a bare GeoJSON geometry', () => {
+    const result = preview('{ "type": "Point", "coordinates": [1, 2] }');
+    expect(result.destinations).toEqual([
+      { name: 'Feature 1', description: '', coordinates: { latitude: 2, longitude: 1 }, icon: '📍' },
+    ]);
+  });
+
+  it('detects the format from the content when the name does not tell', () => {
+    expect(preview(GPX, 'export.xml').format).toBe('gpx');
+    expect(preview(KML).format).toBe('kml');
+  });
+
+  it('fails only when the file as a whole cannot be read', () => {
+    expect(parseImportFile('', 'walk.kmz')).toBe(
+      'KMZ files are compressed; export as plain KML instead'
+    );
+    expect(parseImportFile('hello', 'notes.txt')).toBe(
+      'Unsupported file; choose a GPX, KML or GeoJSON file'
+    );
+    expect(parseImportFile('{ "type": ', 'walk.geojson')).toMatch(/^Invalid JSON/);
+    expect(parseImportFile('{ "type": "Topology" }')).toBe(
+      'Not a GeoJSON Feature, FeatureCollection or geometry'
+    );
+    expect(parseImportFile('<gpx><wpt></gpx>', 'walk.gpx')).toBe(
+      'Invalid XML: Unexpected closing tag </gpx>'
+    );
+    expect(parseImportFile(KML, 'walk.gpx')).toBe('The file is not a GPX document');
+  });
+});
@@ -0,0 +1,141 @@
+import { Vector3 } from '../../types';
+import {
+  applyMagnetometerCalibration,
+  COVERAGE_BANDS,
+  COVERAGE_SECTORS,
+  coverageCell,
+  estimateCenter,
+  fitMagnetometerCalibration,
+  MIN_CALIBRATION_SAMPLES,
+} from '../magnetometerCalibration';
+
+const FIELD = 50; // µT
+const HARD_IRON: Vector3 = { x: 12, y: -30, z: 7.5 };
+// Symmetric soft-iron distortion: stretched along x, squashed along y, slightly sheared
+const DISTORTION = [
+  [1.2, 0.1, 0.02],
+  [0.1, 0.85, 0.05],
+  [0.02, 0.05, 1.05],
+];
+
+/**
+ * Evenly spread directions on the unit sphere (Fibonacci lattice)
+ */
+function sphere(count: number): Vector3[] {
+  const golden = Math.PI * (3 - Math.sqrt(5));
+  return Array.from({ length: count }, (_, i) => {
+    const z = 1 - (2 * (i + 0.5)) / count;
+    const r = Math.sqrt(1 - z * z);
+    return { x: r * Math.cos(golden * i), y: r * Math.sin(golden * i), z };
+  });
+}
+
+// What a distorted magnetometer reports for a field direction
+function distort({ x, y, z }: Vector3): Vector3 {
+  const [a, b, c] = DISTORTION;
+  return {
+    x: FIELD * (a[0] * x + a[1] * y + a[2] * z) + HARD_IRON.x,
+    y: FIELD * (b[0] * x + b[1] * y + b[2] * z) + HARD_IRON.y,
+    z: FIELD * (c[0] * x + c[1] * y + c[2] * z) + HARD_IRON.z,
+  };
+}
+
+const length = ({ x, y, z }: Vector3) => Math.sqrt(x * x + y * y + z * z);
+
+describe('fitMagnetometerCalibration', () => {
+  const samples = sphere(300).map(distort);
+
+  it('recovers the hard-iron bias of a synthetic ellipsoid', () => {
+    const calibration = fitMagnetometerCalibration(samples)!;
+    expect(calibration.hardIron.x).toBeCloseTo(HARD_IRON.x, 6);
+    expect(calibration.hardIron.y).toBeCloseTo(HARD_IRON.y, 6);
+    expect(calibration.hardIron.z).toBeCloseTo(HARD_IRON.z, 6);
+  });
+
+  it('recovers the inverse of the soft-iron distortion', () => {
+    const { softIron, fieldStrength } = fitMagnetometerCalibration(samples)!;
+
+    // softIron undoes the distortion up to the overall scale
+    const scale = fieldStrength / FIELD;
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        let product = 0;
+        for (let k = 0; k < 3; k++) product += softIron[i][k] * DISTORTION[k][j];
+        expect(product).toBeCloseTo(i === j ? scale : 0, 6);
+      }
+    }
+    expect(softIron[0][1]).toBeCloseTo(softIron[1][0], 9);
+
+    // The scale keeps the field strength: the geometric mean of the semi-axes
+    const [[a, b, c], [, d, e], [, , f]] = DISTORTION;
+    const determinant = a * (d * f - e * e) - b * (b * f - e * c) + c * (b * e - d * c);
+    expect(fieldStrength).toBeCloseTo(FIELD * Math.cbrt(determinant), 6);
+  });
+
+  it('maps every sample back onto a sphere and scores the fit', () => {
+    const calibration = fitMagnetometerCalibration(samples)!;
+    for (const sample of samples) {
+      const corrected = applyMagnetometerCalibration(sample, calibration);
+      expect(length(corrected)).toBeCloseTo(calibration.fieldStrength, 6);
+    }
+    expect(calibration.residual).toBeLessThan(1e-9);
+    expect(calibration.coverage).toBe(1);
+    expect(calibration.quality).toBe(100);
+  });
+
+  it('tolerates sensor noise', () => {
+    let seed = 1;
+    const noise = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647 - 0.5; // ±0.5 µT
+    };
+    const noisy = samples.map(({ x, y, z }) => ({
+      x: x + noise(),
+      y: y + noise(),
+      z: z + noise(),
+    }));
+
+    const { hardIron, residual, quality } = fitMagnetometerCalibration(noisy)!;
+    const bias = {
+      x: hardIron.x - HARD_IRON.x,
+      y: hardIron.y - HARD_IRON.y,
+      z: hardIron.z - HARD_IRON.z,
+    };
+    expect(length(bias)).toBeLessThan(0.5);
+    expect(residual).toBeLessThan(0.02);
+    expect(quality).toBeGreaterThan(80);
+  });
+
+  it('gives up on too few samples or a flat spin', () => {
+    expect(fitMagnetometerCalibration(samples.slice(0, MIN_CALIBRATION_SAMPLES - 1))).toBeNull();
+
+    // Turning only flat on a table samples a circle, not an ellipsoid
+    const flat = Array.from({ length: 100 }, (_, i) => {
+      const angle = (2 * Math.PI * i) / 100;
+      return distort({ x: Math.cos(angle), y: Math.sin(angle), z: 0 });
+    });
+    expect(fitMagnetometerCalibration(flat)).toBeNull();
+  });
+});
+
+describe('coverage', () => {
+  it('estimates the center from the extremes', () => {
+    const center = estimateCenter(sphere(300).map(distort));
+    expect(Math.abs(center.x - HARD_IRON.x)).toBeLessThan(1);
+    expect(Math.abs(center.y - HARD_IRON.y)).toBeLessThan(1);
+    expect(Math.abs(center.z - HARD_IRON.z)).toBeLessThan(1);
+    expect(estimateCenter([])).toEqual({ x: 0, y: 0, z: 0 });
+  });
+
+  it('puts the poles in the first and last bands', () => {
+    expect(coverageCell({ x: 0, y: 0, z: 0 })).toBe(-1);
+    expect(Math.floor(coverageCell({ x: 0, y: 0, z: -1 }) / COVERAGE_SECTORS)).toBe(0);
+    expect(Math.floor(coverageCell({ x: 0, y: 0, z: 1 }) / COVERAGE_SECTORS)).toBe(
+      COVERAGE_BANDS - 1
+    );
+    // Opposite directions on the equator land half the sectors apart
+    const east = coverageCell({ x: 1, y: 0.01, z: 0 });
+    const west = coverageCell({ x: -1, y: -0.01, z: 0 });
+    expect(Math.abs(east - west)).toBe(COVERAGE_SECTORS / 2);
+  });
+});
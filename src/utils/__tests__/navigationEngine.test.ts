@@ -0,0 +1,303 @@
+import { Destination, LocationFix, Route } from '../../types';
+import {
+  HeadingProvider,
+  LocationProvider,
+  NavigationEngine,
+  NavigationEngineSettings,
+  ProximityAlert,
+} from '../navigationEngine';
+import { normalizeAngle } from '../geolocation';
+
+const SETTINGS: NavigationEngineSettings = {
+  northReference: 'true',
+  guidanceMode: 'greatCircle',
+  courseHeading: false,
+  courseSpeedThreshold: 1,
+  proximityAlerts: true,
+  proximityRings: [100, 20],
+};
+
+function fix(latitude: number, longitude: number, timestamp: number = 0): LocationFix {
+  return {
+    latitude,
+    longitude,
+    accuracy: 5,
+    altitude: null,
+    altitudeAccuracy: null,
+    speed: null,
+    heading: null,
+    timestamp,
+  };
+}
+
+function destination(latitude: number, longitude: number): Destination {
+  return {
+    id: 'd1',
+    name: 'Summit',
+    description: '',
+    coordinates: { latitude, longitude },
+    icon: '⛰️',
+    createdAt: 0,
+  };
+}
+
+/**
+ * Location provider that grants everything and emits fixes on demand
+ */
+function createLocationProvider(overrides: Partial<LocationProvider> = {}) {
+  const listeners = new Set<(location: LocationFix) => void>();
+  const provider = {
+    hasPermissions: jest.fn(async () => true),
+    requestPermissions: jest.fn(async () => true),
+    hasServicesEnabled: jest.fn(async () => true),
+    getCurrentLocation: jest.fn(async (): Promise<LocationFix | null> => null),
+    startWatching: jest.fn(async () => true),
+    stopWatching: jest.fn(),
+    addListener: jest.fn((listener: (location: LocationFix) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }),
+    ...overrides,
+  };
+  const emit = (location: LocationFix) => listeners.forEach((listener) => listener(location));
+  return { provider, emit, listeners };
+}
+
+function createHeadingProvider(): HeadingProvider {
+  return {
+    checkAvailability: jest.fn(async () => ({ deviceMotion: true, magnetometer: true })),
+    startSensors: jest.fn(async () => true),
+    stopSensors: jest.fn(),
+    addListener: jest.fn(() => () => {}),
+  };
+}
+
+// Let pending promise callbacks run
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('NavigationEngine', () => {
+  let time: number;
+  const now = () => time;
+
+  beforeEach(() => {
+    time = Date.UTC(2025, 0, 1);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('wraps the relative angle across north', () => {
+    const { provider } = createLocationProvider();
+    const engine = new NavigationEngine(provider, createHeadingProvider(), SETTINGS, now);
+    engine.setTarget(destination(1, 0), null);
+    engine.updateLocation(fix(0, 0, time));
+
+    // Feed magnetic headings that come out just either side of true north
+    const declination = engine.getData().declination!;
+    engine.updateHeading(normalizeAngle(359 - declination));
+    expect(engine.getData().deviceHeading).toBeCloseTo(359, 6);
+    expect(engine.getData().relativeAngle).toBeCloseTo(1, 3);
+
+    engine.updateHeading(normalizeAngle(1 - declination));
+    expect(engine.getData().deviceHeading).toBeCloseTo(1, 6);
+    expect(engine.getData().relativeAngle).toBeCloseTo(-1, 3);
+  });
+
+  it('drops a heading the sensors stopped updating', () => {
+    jest.useFakeTimers();
+    const { provider } = createLocationProvider();
+    const engine = new NavigationEngine(provider, createHeadingProvider(), SETTINGS, now);
+    engine.setTarget(destination(1, 0), null);
+    engine.updateLocation(fix(0, 0, time));
+    engine.updateHeading(90);
+    expect(engine.getData().relativeAngle).not.toBeNull();
+
+    jest.advanceTimersByTime(1000);
+    expect(engine.getData().magneticHeading).toBeNull();
+    expect(engine.getData().relativeAngle).toBeNull();
+  });
+
+  it('steers by the GPS course once the heading goes stale', () => {
+    jest.useFakeTimers();
+    const { provider } = createLocationProvider();
+    const engine = new NavigationEngine(
+      provider,
+      createHeadingProvider(),
+      { ...SETTINGS, courseHeading: true },
+      now
+    );
+    engine.setTarget(destination(1, 0), null);
+    engine.updateHeading(180);
+    engine.updateLocation({ ...fix(0, 0, time), speed: 0.5, heading: 90 });
+
+    jest.advanceTimersByTime(1000);
+    time += 1000;
+    engine.updateLocation({ ...fix(0.00002, 0, time), speed: 2, heading: 10 });
+
+    const data = engine.getData();
+    expect(data.headingSource).toBe('course');
+    expect(data.deviceHeading).toBeCloseTo(10, 6);
+    expect(data.relativeAngle).toBeCloseTo(-10, 3);
+  });
+
+  it('advances past route waypoints already reached', () => {
+    const route: Route = {
+      id: 'r1',
+      name: 'Ridge',
+      createdAt: 0,
+      waypoints: [
+        { name: 'Gate', coordinates: { latitude: 0, longitude: 0.001 }, arrivalRadius: 20 },
+        { name: 'Hut', coordinates: { latitude: 0, longitude: 0.002 }, arrivalRadius: 20 },
+      ],
+    };
+    const { provider } = createLocationProvider();
+    const engine = new NavigationEngine(provider, createHeadingProvider(), SETTINGS, now);
+    engine.setTarget(null, route);
+    engine.updateLocation(fix(0, 0, time));
+    expect(engine.getData().currentLegIndex).toBe(0);
+
+    engine.updateLocation(fix(0, 0.001, time + 1000));
+    const data = engine.getData();
+    expect(data.currentLegIndex).toBe(1);
+    expect(data.targetLocation).toEqual(route.waypoints[1].coordinates);
+    expect(data.distanceToWaypoint).toBeCloseTo(111.3, 0);
+  });
+
+  it('reports arrival when the innermost ring is entered', () => {
+    const { provider } = createLocationProvider();
+    const engine = new NavigationEngine(provider, createHeadingProvider(), SETTINGS, now);
+    const alerts: ProximityAlert[] = [];
+    engine.on('proximity', (alert) => alerts.push(alert));
+    engine.setTarget(destination(0, 0.005), null);
+
+    engine.updateLocation(fix(0, 0, time)); // about 550 m out
+    engine.updateLocation(fix(0, 0.0045, time + 1000)); // about 55 m out
+    engine.updateLocation(fix(0, 0.0049, time + 2000)); // about 11 m out
+
+    expect(alerts.map(({ event }) => [event.radius, event.arrived])).toEqual([
+      [100, false],
+      [20, true],
+    ]);
+    expect(alerts[1]).toMatchObject({ targetName: 'Summit', isFinalTarget: true });
+  });
+
+  it('reports arriving at a waypoint before moving on to the next', () => {
+    const route: Route = {
+      id: 'r1',
+      name: 'Ridge',
+      createdAt: 0,
+      waypoints: [
+        { name: 'Gate', coordinates: { latitude: 0, longitude: 0.001 }, arrivalRadius: 20 },
+        { name: 'Stile', coordinates: { latitude: 0, longitude: 0.002 }, arrivalRadius: 30 },
+        { name: 'Hut', coordinates: { latitude: 0, longitude: 0.004 }, arrivalRadius: 20 },
+      ],
+    };
+    const { provider } = createLocationProvider();
+    const engine = new NavigationEngine(provider, createHeadingProvider(), SETTINGS, now);
+    const alerts: ProximityAlert[] = [];
+    engine.on('proximity', (alert) => alerts.push(alert));
+    engine.setTarget(null, route);
+
+    engine.updateLocation(fix(0, 0, time)); // about 111 m from the gate
+    engine.updateLocation(fix(0, 0.0005, time + 1000)); // about 56 m out
+    engine.updateLocation(fix(0, 0.001, time + 2000)); // at the gate
+    // Inside the stile's arrival radius but outside the innermost ring
+    engine.updateLocation(fix(0, 0.00177, time + 3000));
+
+    expect(engine.getData().currentLegIndex).toBe(2);
+    expect(
+      alerts.map(({ event, targetName, isFinalTarget }) => [
+        targetName,
+        event.radius,
+        event.arrived,
+        isFinalTarget,
+      ])
+    ).toEqual([
+      ['Gate', 100, false, false],
+      ['Gate', 20, true, false],
+      ['Stile', 100, false, false],
+      ['Stile', 30, true, false],
+    ]);
+  });
+
+  it('warns when no fix arrives in time and clears the warning on a fix', async () => {
+    jest.useFakeTimers();
+    const { provider, emit } = createLocationProvider();
+    const engine = new NavigationEngine(provider, createHeadingProvider(), SETTINGS, now);
+    await engine.start();
+
+    jest.advanceTimersByTime(29999);
+    expect(engine.getStatus().error).toBeNull();
+    jest.advanceTimersByTime(1);
+    expect(engine.getStatus().error?.code).toBe('location-timeout');
+
+    emit(fix(0, 0, time));
+    expect(engine.getStatus().error).toBeNull();
+  });
+
+  it('lets the missing fix outrank a sensor warning until a fix arrives', async () => {
+    jest.useFakeTimers();
+    const { provider, emit } = createLocationProvider();
+    const headingProvider = createHeadingProvider();
+    headingProvider.checkAvailability = jest.fn(async () => ({
+      deviceMotion: false,
+      magnetometer: false,
+    }));
+    const engine = new NavigationEngine(provider, headingProvider, SETTINGS, now);
+    await engine.start();
+    expect(engine.getStatus().error?.code).toBe('sensors-unavailable');
+
+    jest.advanceTimersByTime(30000);
+    expect(engine.getStatus().error?.code).toBe('location-timeout');
+
+    emit(fix(0, 0, time));
+    expect(engine.getStatus().error?.code).toBe('sensors-unavailable');
+  });
+
+  it('gives up a start that was overtaken while asking for permission', async () => {
+    let grant: (granted: boolean) => void = () => {};
+    const { provider, listeners } = createLocationProvider({
+      hasPermissions: jest.fn(async () => false),
+      requestPermissions: jest.fn(() => new Promise<boolean>((resolve) => (grant = resolve))),
+    });
+    const engine = new NavigationEngine(provider, createHeadingProvider(), SETTINGS, now);
+
+    const starting = engine.start();
+    await flush();
+    engine.stop();
+    grant(true);
+    await starting;
+
+    expect(engine.getStatus().isLocationPermissionGranted).toBe(false);
+    expect(provider.startWatching).not.toHaveBeenCalled();
+    expect(listeners.size).toBe(0);
+  });
+
+  it('keeps going when the initial location fails', async () => {
+    jest.useFakeTimers();
+    const error = new Error('no fix');
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const { provider } = createLocationProvider({
+      getCurrentLocation: jest.fn(async () => {
+        throw error;
+      }),
+    });
+    const engine = new NavigationEngine(provider, createHeadingProvider(), SETTINGS, now);
+
+    await engine.start();
+    await flush();
+
+    expect(consoleError).toHaveBeenCalledWith('Error getting initial location:', error);
+    expect(engine.getStatus().error).toBeNull();
+    expect(engine.getStatus().isSensorActive).toBe(true);
+    engine.stop();
+  });
+});
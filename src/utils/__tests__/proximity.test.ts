@@ -0,0 +1,72 @@
+import { leaveDistance, ProximityTracker } from '../proximity';
+
+// Crossings as [type, radius, arrived], for compact expectations
+function crossings(tracker: ProximityTracker, distance: number) {
+  return tracker.update(distance, 0).map(({ type, radius, arrived }) => [type, radius, arrived]);
+}
+
+describe('leaveDistance', () => {
+  it('adds a fifth of the radius, but at least 5 m', () => {
+    expect(leaveDistance(100)).toBe(120);
+    expect(leaveDistance(10)).toBe(15);
+  });
+});
+
+describe('ProximityTracker', () => {
+  it('only records where the user is on the first update', () => {
+    const tracker = new ProximityTracker([100, 20]);
+    expect(crossings(tracker, 50)).toEqual([]);
+    // Already inside the outer ring, so only the inner one is new
+    expect(crossings(tracker, 10)).toEqual([['enter', 20, true]]);
+  });
+
+  it('enters from the outside in and leaves from the inside out', () => {
+    const tracker = new ProximityTracker([20, 500, 100]);
+    crossings(tracker, 1000);
+
+    expect(crossings(tracker, 15)).toEqual([
+      ['enter', 500, false],
+      ['enter', 100, false],
+      ['enter', 20, true],
+    ]);
+    expect(crossings(tracker, 700)).toEqual([
+      ['leave', 20, false],
+      ['leave', 100, false],
+      ['leave', 500, false],
+    ]);
+  });
+
+  it('fires once for a position hovering at the edge of a ring', () => {
+    const tracker = new ProximityTracker([100]);
+    crossings(tracker, 150);
+
+    expect(crossings(tracker, 99)).toEqual([['enter', 100, true]]);
+    expect(crossings(tracker, 110)).toEqual([]);
+    expect(crossings(tracker, 100)).toEqual([]);
+    expect(crossings(tracker, 119)).toEqual([]);
+    expect(crossings(tracker, 121)).toEqual([['leave', 100, false]]);
+    expect(crossings(tracker, 100)).toEqual([['enter', 100, true]]);
+  });
+
+  it('starts over without firing when reset or given new rings', () => {
+    const tracker = new ProximityTracker([100]);
+    crossings(tracker, 150);
+    crossings(tracker, 50);
+
+    tracker.reset();
+    expect(crossings(tracker, 50)).toEqual([]);
+    expect(crossings(tracker, 200)).toEqual([['leave', 100, false]]);
+
+    tracker.setRings([300, 50]);
+    expect(crossings(tracker, 200)).toEqual([]);
+    expect(crossings(tracker, 40)).toEqual([['enter', 50, true]]);
+  });
+
+  it('stamps events with the distance and time of the fix', () => {
+    const tracker = new ProximityTracker([100]);
+    tracker.update(150, 1000);
+    expect(tracker.update(80, 2000)).toEqual([
+      { type: 'enter', radius: 100, distance: 80, arrived: true, timestamp: 2000 },
+    ]);
+  });
+});
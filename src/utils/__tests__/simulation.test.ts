@@ -0,0 +1,282 @@
+import { Coordinates, LocationFix, OrientationSample, SessionRecording } from '../../types';
+import { calculateDistance } from '../geolocation';
+import { toSessionCsv } from '../sessionRecording';
+import { parseSession, ReplayPlayer, ScriptedWalk } from '../simulation';
+
+const RECORDING: SessionRecording = {
+  id: 'rec1',
+  name: 'Park loop',
+  createdAt: 0,
+  fixes: [
+    {
+      latitude: 51.5,
+      longitude: -0.12,
+      accuracy: 4,
+      altitude: 12.5,
+      altitudeAccuracy: 3,
+      speed: 1.4,
+      heading: 87,
+      timestamp: 1000,
+      filteredLatitude: 51.50001,
+      filteredLongitude: -0.12001,
+    },
+    {
+      latitude: 51.5001,
+      longitude: -0.1199,
+      accuracy: 5,
+      altitude: null,
+      altitudeAccuracy: null,
+      speed: null,
+      heading: null,
+      timestamp: 2000,
+      filteredLatitude: 51.50009,
+      filteredLongitude: -0.11991,
+    },
+  ],
+  orientation: [
+    {
+      heading: 85.5,
+      pitch: -10,
+      roll: 2,
+      timestamp: 1500,
+      source: 'deviceMotion',
+      magneticField: null,
+      filteredHeading: 86,
+      calibrationOffset: 0.5,
+      headingMode: 'filtered',
+    },
+    {
+      heading: 90,
+      pitch: -9,
+      roll: 1,
+      timestamp: 2500,
+      source: 'magnetometer',
+      magneticField: { x: 20, y: -5, z: -40 },
+      filteredHeading: 89,
+      calibrationOffset: 0.5,
+      headingMode: 'filtered',
+    },
+  ],
+  dropped: 0,
+};
+
+function fix(latitude: number, longitude: number, timestamp: number): LocationFix {
+  return {
+    latitude,
+    longitude,
+    accuracy: 5,
+    altitude: null,
+    altitudeAccuracy: null,
+    speed: null,
+    heading: null,
+    timestamp,
+  };
+}
+
+function sample(heading: number, timestamp: number): OrientationSample {
+  return { heading, pitch: 0, roll: 0, timestamp };
+}
+
+describe('parseSession', () => {
+  it('reads JSON and puts both streams in time order', () => {
+    const content = JSON.stringify({
+      fixes: [
+        { latitude: 1, longitude: 2, timestamp: 2000, course: 45 },
+        { latitude: '1.5', longitude: '2.5', timestamp: '1970-01-01T00:00:01.000Z' },
+      ],
+      orientation: [{ heading: 10, timestamp: 500 }],
+    });
+
+    const session = parseSession(content, 'Walk');
+    expect(session).toEqual({
+      name: 'Walk',
+      fixes: [
+        { ...fix(1.5, 2.5, 1000), accuracy: null },
+        { ...fix(1, 2, 2000), accuracy: null, heading: 45 },
+      ],
+      orientation: [sample(10, 500)],
+    });
+  });
+
+  it('reads CSV rows by their header', () => {
+    const content = [
+      'timestamp,type,latitude,longitude,course,heading,pitch',
+      '1000,fix,1,2,30,,',
+      '1100,orientation,,,,200,5',
+      '1200,unknown,9,9,,,',
+    ].join('\r\n');
+
+    const session = parseSession(content, 'Walk');
+    expect(session).toEqual({
+      name: 'Walk',
+      fixes: [{ ...fix(1, 2, 1000), accuracy: null, heading: 30 }],
+      orientation: [{ ...sample(200, 1100), pitch: 5 }],
+    });
+  });
+
+  it('reads back a recording exported as CSV', () => {
+    const session = parseSession(toSessionCsv(RECORDING), RECORDING.name);
+    if (typeof session === 'string') throw new Error(session);
+
+    expect(session.fixes).toEqual(
+      RECORDING.fixes.map(({ filteredLatitude, filteredLongitude, ...raw }) => raw)
+    );
+    expect(session.orientation).toEqual(
+      RECORDING.orientation.map(({ heading, pitch, roll, timestamp }) => ({
+        heading,
+        pitch,
+        roll,
+        timestamp,
+      }))
+    );
+  });
+
+  it('explains what is wrong with a file it cannot read', () => {
+    expect(parseSession('{ "fixes": [', 'Bad')).toMatch(/^Invalid JSON/);
+    expect(parseSession('latitude,longitude\n1,2', 'Bad')).toMatch(/must include "type"/);
+    expect(parseSession('{ "fixes": [{ "latitude": 1, "timestamp": 0 }] }', 'Bad')).toBe(
+      'Fix 1: a fix needs latitude, longitude and timestamp'
+    );
+    expect(parseSession('{ "fixes": [] }', 'Bad')).toBe(
+      'The session has no fixes or orientation samples'
+    );
+  });
+});
+
+describe('ReplayPlayer', () => {
+  let time: number;
+  const now = () => time;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    time = 100000;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('keeps the recorded spacing, scaled by the playback speed', () => {
+    const player = new ReplayPlayer(
+      {
+        name: 'Walk',
+        fixes: [fix(0, 0, 1000), fix(0, 0.001, 3000), fix(0, 0.002, 4000)],
+        orientation: [sample(90, 1500)],
+      },
+      2,
+      false,
+      now
+    );
+    const fixes: LocationFix[] = [];
+    const samples: OrientationSample[] = [];
+    const location = player.watchLocation((location) => fixes.push(location));
+    const orientation = player.watchOrientation((sample) => samples.push(sample));
+
+    // Session time runs twice as fast from the first event
+    const at = (ms: number) => {
+      time = 100000 + ms;
+      player.tick();
+      return [fixes.length, samples.length];
+    };
+    expect(at(0)).toEqual([1, 0]);
+    expect(at(249)).toEqual([1, 0]);
+    expect(at(250)).toEqual([1, 1]);
+    expect(at(999)).toEqual([1, 1]);
+    expect(at(1000)).toEqual([2, 1]);
+    expect(at(1500)).toEqual([3, 1]);
+
+    // Replayed events are stamped with the time they are played
+    expect(fixes.map(({ timestamp }) => timestamp)).toEqual([100000, 101000, 101500]);
+    expect(samples[0].timestamp).toBe(100250);
+    expect(player.getCurrentFix()).toEqual(fixes[2]);
+    expect(jest.getTimerCount()).toBe(0);
+
+    location.remove();
+    orientation.remove();
+  });
+
+  it('starts over after the last event when looping', () => {
+    const player = new ReplayPlayer(
+      { name: 'Walk', fixes: [fix(0, 0, 0), fix(0, 0.001, 1000)], orientation: [] },
+      1,
+      true,
+      now
+    );
+    const fixes: LocationFix[] = [];
+    const subscription = player.watchLocation((location) => fixes.push(location));
+
+    time += 1000;
+    player.tick();
+    expect(fixes).toHaveLength(2);
+
+    time += 1;
+    player.tick();
+    expect(fixes).toHaveLength(3);
+    expect(fixes[2].longitude).toBe(0);
+
+    subscription.remove();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
+
+describe('ScriptedWalk', () => {
+  const START: Coordinates = { latitude: 0, longitude: 0 };
+  const TARGET: Coordinates = { latitude: 0.0009, longitude: 0.0009 }; // about 141 m away
+  const OPTIONS = {
+    playbackSpeed: 1,
+    loop: false,
+    walkSpeed: 10,
+    positionNoise: 2,
+    headingNoise: 3,
+    seed: 42,
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  /**
+   * Walk for a while in 50 ms steps and collect everything the walk emits
+   */
+  function walk(seed: number, duration: number) {
+    let time = 0;
+    const walker = new ScriptedWalk(START, [TARGET], { ...OPTIONS, seed }, () => time);
+    const fixes: LocationFix[] = [];
+    const samples: OrientationSample[] = [];
+    const location = walker.watchLocation((location) => fixes.push(location));
+    const orientation = walker.watchOrientation((sample) => samples.push(sample));
+
+    for (time = 50; time <= duration; time += 50) {
+      walker.tick();
+    }
+    location.remove();
+    orientation.remove();
+    return { fixes, samples };
+  }
+
+  it('repeats exactly with the same seed', () => {
+    const first = walk(42, 5000);
+    expect(first.fixes).toHaveLength(5);
+    expect(first.samples).toHaveLength(50);
+    expect(walk(42, 5000)).toEqual(first);
+    expect(walk(7, 5000).fixes).not.toEqual(first.fixes);
+  });
+
+  it('walks at the set speed and stops at the target', () => {
+    const { fixes } = walk(42, 20000);
+    const moving = fixes.filter(({ speed }) => speed === 10);
+    // 141 m at 10 m/s, with a fix a second
+    expect(moving.length).toBeGreaterThanOrEqual(13);
+    expect(moving.length).toBeLessThanOrEqual(15);
+    moving.forEach(({ heading }) => expect(Math.abs(heading! - 45)).toBeLessThan(2));
+
+    const last = fixes[fixes.length - 1];
+    expect(last.speed).toBe(0);
+    expect(last.heading).toBeNull();
+    expect(calculateDistance(last, TARGET)).toBeLessThan(10);
+  });
+});
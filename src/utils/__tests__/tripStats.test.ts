@@ -0,0 +1,119 @@
+import { LocationFix } from '../../types';
+import { fromLocalENU } from '../geolocation';
+import { TripStatsTracker } from '../tripStats';
+
+const ORIGIN = { latitude: 46.55, longitude: 7.97 };
+
+// A fix some meters north of the origin at a time in seconds
+function fix(north: number, seconds: number, speed: number | null = null): LocationFix {
+  return {
+    ...fromLocalENU(ORIGIN, 0, north),
+    accuracy: 5,
+    altitude: null,
+    altitudeAccuracy: null,
+    speed,
+    heading: null,
+    timestamp: seconds * 1000,
+  };
+}
+
+describe('TripStatsTracker', () => {
+  it('starts empty', () => {
+    const stats = new TripStatsTracker(0).getStats();
+    expect(stats).toEqual({
+      startedAt: 0,
+      elapsedTime: 0,
+      distanceTraveled: 0,
+      currentSpeed: null,
+      averageSpeed: null,
+      closingSpeed: null,
+      eta: null,
+      closestApproach: null,
+    });
+  });
+
+  it('adds up distance, elapsed time and average speed of a steady walk', () => {
+    const tracker = new TripStatsTracker(0);
+    let stats = tracker.update(fix(0, 0), null);
+    // 1.5 m/s north for a minute
+    for (let t = 1; t <= 60; t++) stats = tracker.update(fix(1.5 * t, t), null);
+
+    expect(stats.elapsedTime).toBe(60);
+    expect(stats.distanceTraveled).toBeCloseTo(90, 0);
+    expect(stats.averageSpeed).toBeCloseTo(1.5, 1);
+    // No speed from the GPS, so it is derived from the last step
+    expect(stats.currentSpeed).toBeCloseTo(1.5, 1);
+  });
+
+  it('prefers the speed reported by the GPS', () => {
+    const tracker = new TripStatsTracker(0);
+    tracker.update(fix(0, 0), null);
+    expect(tracker.update(fix(10, 1, 2.5), null).currentSpeed).toBe(2.5);
+  });
+
+  it('does not count jitter within the fix accuracy as distance', () => {
+    const tracker = new TripStatsTracker(0);
+    tracker.update(fix(0, 0), null);
+    for (let t = 1; t <= 30; t++) tracker.update(fix(t % 2 === 0 ? 2 : -2, t), null);
+    expect(tracker.getStats().distanceTraveled).toBe(0);
+
+    // A slow drift is counted once it adds up past the accuracy
+    expect(tracker.update(fix(6, 31), null).distanceTraveled).toBeCloseTo(6, 1);
+  });
+
+  it('ignores a fix delivered twice or out of order', () => {
+    const tracker = new TripStatsTracker(0);
+    tracker.update(fix(0, 0), null);
+    const stats = tracker.update(fix(20, 10), null);
+    expect(tracker.update(fix(20, 10), null)).toBe(stats);
+    expect(tracker.update(fix(50, 5), null)).toBe(stats);
+  });
+
+  it('estimates the arrival from the closing speed toward the target', () => {
+    const tracker = new TripStatsTracker(0);
+    let stats = tracker.update(fix(0, 0), 300);
+    expect(stats.closingSpeed).toBeNull();
+    expect(stats.eta).toBeNull();
+
+    // Closing at 2 m/s
+    for (let t = 1; t <= 20; t++) stats = tracker.update(fix(2 * t, t), 300 - 2 * t);
+    expect(stats.closingSpeed).toBeCloseTo(2, 6);
+    expect(stats.eta).toBeCloseTo(130, 6);
+    expect(stats.closestApproach).toBe(260);
+  });
+
+  it('gives no ETA while not getting closer, but remembers the closest approach', () => {
+    const tracker = new TripStatsTracker(0);
+    tracker.update(fix(0, 0), 100);
+    tracker.update(fix(10, 10), 90);
+    let stats = tracker.update(fix(0, 20), 100);
+    for (let t = 30; t <= 100; t += 10) stats = tracker.update(fix(0, t), 100);
+
+    expect(stats.closingSpeed!).toBeLessThan(0.2);
+    expect(stats.eta).toBeNull();
+    expect(stats.closestApproach).toBe(90);
+  });
+
+  it('forgets the closing speed without a target', () => {
+    const tracker = new TripStatsTracker(0);
+    tracker.update(fix(0, 0), 100);
+    tracker.update(fix(10, 5), 90);
+    const stats = tracker.update(fix(20, 10), null);
+    expect(stats.closingSpeed).toBeNull();
+    expect(stats.eta).toBeNull();
+    expect(stats.closestApproach).toBe(90);
+  });
+
+  it('starts a new trip on reset', () => {
+    const tracker = new TripStatsTracker(0);
+    tracker.update(fix(0, 0), 100);
+    tracker.update(fix(50, 30), 50);
+
+    expect(tracker.reset(40000).startedAt).toBe(40000);
+    const stats = tracker.update(fix(50, 45), 50);
+    expect(stats.elapsedTime).toBe(5);
+    expect(stats.distanceTraveled).toBe(0);
+    expect(stats.closingSpeed).toBeNull();
+    expect(stats.closestApproach).toBe(50);
+  });
+});
@@ -0,0 +1,153 @@
+import { Coordinates, Destination, NavigationData, Route } from '../../types';
+import { clockPosition, SpeechBackend, VoiceGuidance } from '../voiceGuidance';
+
+const TARGET: Coordinates = { latitude: 1, longitude: 1 };
+
+const DESTINATION: Destination = {
+  id: 'd1',
+  name: 'Summit',
+  description: '',
+  coordinates: TARGET,
+  icon: '⛰️',
+  createdAt: 0,
+};
+
+const ROUTE: Route = {
+  id: 'r1',
+  name: 'Ridge Walk',
+  createdAt: 0,
+  waypoints: [
+    { name: 'Gate', coordinates: { latitude: 0, longitude: 1 }, arrivalRadius: 20 },
+    { name: 'Hut', coordinates: { latitude: 0, longitude: 2 }, arrivalRadius: 20 },
+  ],
+};
+
+/**
+ * Navigation data toward the destination, or a route leg when one is given
+ */
+function data(
+  distance: number,
+  relativeAngle: number | null,
+  route: { route: Route; legIndex: number } | null = null
+): NavigationData {
+  return {
+    userLocation: {
+      latitude: 0,
+      longitude: 0,
+      accuracy: 5,
+      altitude: null,
+      altitudeAccuracy: null,
+      speed: null,
+      heading: null,
+      timestamp: 0,
+    },
+    destination: route ? null : DESTINATION,
+    route: route?.route ?? null,
+    currentLegIndex: route?.legIndex ?? null,
+    targetLocation: route ? route.route.waypoints[route.legIndex].coordinates : TARGET,
+    distance,
+    distanceToWaypoint: route ? distance : null,
+    remainingRouteDistance: null,
+    bearing: 0,
+    magneticHeading: relativeAngle !== null ? 0 : null,
+    deviceHeading: relativeAngle !== null ? 0 : null,
+    headingSource: 'sensor',
+    headingUncertainty: null,
+    relativeAngle,
+    declination: 0,
+    northReference: 'true',
+    guidanceMode: 'greatCircle',
+  };
+}
+
+describe('clockPosition', () => {
+  it('maps relative angles to clock hours', () => {
+    expect(clockPosition(0)).toBe(12);
+    expect(clockPosition(90)).toBe(3);
+    expect(clockPosition(180)).toBe(6);
+    expect(clockPosition(-90)).toBe(9);
+    expect(clockPosition(-14)).toBe(12);
+    expect(clockPosition(-16)).toBe(11);
+  });
+});
+
+describe('VoiceGuidance', () => {
+  let time: number;
+  let backend: { speak: jest.Mock; stop: jest.Mock } & SpeechBackend;
+  let guidance: VoiceGuidance;
+
+  // Advance the clock, then feed the data
+  const at = (ms: number, navigationData: NavigationData) => {
+    time = ms;
+    return guidance.update(navigationData, 'metric');
+  };
+
+  beforeEach(() => {
+    time = 0;
+    backend = { speak: jest.fn(), stop: jest.fn() };
+    guidance = new VoiceGuidance(backend, () => time);
+    guidance.setVerbosity('normal');
+  });
+
+  it('stays quiet on the first update for a target', () => {
+    expect(at(0, data(300, 90))).toBeNull();
+    expect(backend.speak).not.toHaveBeenCalled();
+  });
+
+  it('speaks turns as clock positions and rate limits corrections', () => {
+    at(0, data(300, 0));
+
+    expect(at(1000, data(300, 90))).toBe("Target at 3 o'clock, 300 meters");
+    // Too soon after the last correction
+    expect(at(2000, data(300, 180))).toBeNull();
+    expect(at(9000, data(300, 180))).toBe("Target at 6 o'clock, 300 meters");
+    expect(at(20000, data(300, 5))).toBe('On course');
+    expect(backend.speak).toHaveBeenCalledTimes(3);
+  });
+
+  it('ignores jitter around the spoken clock position', () => {
+    at(0, data(300, 0));
+    at(1000, data(300, 90));
+
+    expect(at(10000, data(300, 110))).toBeNull();
+    expect(at(20000, data(300, 70))).toBeNull();
+    expect(at(30000, data(300, 115))).toBe("Target at 4 o'clock, 300 meters");
+  });
+
+  it('announces each distance milestone once', () => {
+    at(0, data(250, 0));
+
+    expect(at(5000, data(190, 0))).toBe('190 meters to go. Target ahead');
+    expect(at(10000, data(195, 0))).toBeNull();
+    expect(at(15000, data(180, 0))).toBeNull();
+  });
+
+  it('announces arrival once, by destination name', () => {
+    guidance.setArrivalRadius(10);
+    at(0, data(50, 0));
+
+    expect(at(5000, data(8, 0))).toBe('Arrived at Summit');
+    expect(backend.stop).toHaveBeenCalled();
+    expect(at(10000, data(6, 90))).toBeNull();
+    expect(at(15000, data(9, 180))).toBeNull();
+  });
+
+  it('announces reaching a waypoint and arriving at the end of the route', () => {
+    guidance.setArrivalRadius(10);
+    at(0, data(40, 0, { route: ROUTE, legIndex: 0 }));
+
+    expect(at(5000, data(300, -90, { route: ROUTE, legIndex: 1 }))).toBe(
+      "Waypoint reached. Next, Hut. Target at 9 o'clock. 300 meters"
+    );
+    expect(at(60000, data(5, 0, { route: ROUTE, legIndex: 1 }))).toBe('Arrived at Ridge Walk');
+  });
+
+  it('stops speaking when switched off', () => {
+    at(0, data(300, 0));
+    guidance.setVerbosity('off');
+
+    expect(backend.stop).toHaveBeenCalled();
+    expect(at(10000, data(300, 90))).toBeNull();
+    expect(backend.speak).not.toHaveBeenCalled();
+  });
+});
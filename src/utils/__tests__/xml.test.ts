@@ -0,0 +1,57 @@
+import { childText, findElements, parseXml, XmlElement } from '../xml';
+
+function parse(source: string): XmlElement {
+  const root = parseXml(source);
+  if (typeof root === 'string') throw new Error(root);
+  return root;
+}
+
+describe('parseXml', () => {
+  it('reads elements, attributes and text without namespace prefixes', () => {
+    const root = parse(
+      '<?xml version="1.0"?>\n' +
+        '<!DOCTYPE gpx>\n' +
+        '<gpx:gpx xmlns:gpx="http://www.topografix.com/GPX/1/1" version=\'1.1\'>' +
+        '<gpx:wpt lat="1.5" lon="-2"><gpx:name> Hut </gpx:name></gpx:wpt>' +
+        '<wpt lat="3" lon="4"/>' +
+        '</gpx:gpx>'
+    );
+
+    expect(root.name).toBe('gpx');
+    expect(root.attributes).toEqual({ gpx: 'http://www.topografix.com/GPX/1/1', version: '1.1' });
+    const waypoints = findElements(root, 'wpt');
+    expect(waypoints.map((waypoint) => waypoint.attributes)).toEqual([
+      { lat: '1.5', lon: '-2' },
+      { lat: '3', lon: '4' },
+    ]);
+    expect(childText(waypoints[0], 'name')).toBe('Hut');
+    expect(childText(waypoints[1], 'name')).toBeNull();
+  });
+
+  it('decodes entities and keeps CDATA as written', () => {
+    const root = parse(
+      '<desc title="&quot;A&quot; &amp; B">Fish &amp; chips &#233;&#x1F600; &#x110000;' +
+        '<!-- skipped --><![CDATA[<b>&amp;</b>]]></desc>'
+    );
+    expect(root.attributes.title).toBe('"A" & B');
+    expect(root.text).toBe('Fish & chips é😀 �<b>&amp;</b>');
+  });
+
+  it('finds nested elements in document order', () => {
+    const root = parse('<a><b id="1"><b id="2"/></b><c><b id="3"/></c></a>');
+    expect(findElements(root, 'b').map((element) => element.attributes.id)).toEqual([
+      '1',
+      '2',
+      '3',
+    ]);
+  });
+
+  it('reports malformed documents', () => {
+    expect(parseXml('<a><b></a>')).toBe('Unexpected closing tag </a>');
+    expect(parseXml('<a><b>')).toBe('Missing closing tag for <b>');
+    expect(parseXml('<a><!-- open</a>')).toBe('Unterminated comment');
+    expect(parseXml('<a><![CDATA[open</a>')).toBe('Unterminated CDATA section');
+    expect(parseXml('<a')).toBe('Unterminated tag');
+    expect(parseXml('just text')).toBe('The file contains no XML elements');
+  });
+});
@@ -0,0 +1,164 @@
+import { Breadcrumb, Coordinates, LocationFix, Route } from '../types';
+import { angleDifference, calculateBearing, calculateDistance, toLocalENU } from './geolocation';
+
+const MIN_SPACING = 5; // meters
+const MAX_SPACING = 50; // meters
+const SPACING_INTERVAL = 10; // seconds of travel between breadcrumbs at speed
+const TURN_ANGLE = 30; // degrees; a sharper turn drops a breadcrumb early
+const MAX_FIX_ACCURACY = 50; // meters; worse fixes are not worth a breadcrumb
+
+export const BREADCRUMB_ARRIVAL_RADIUS = 10; // meters
+export const SIMPLIFY_TOLERANCE = 5; // meters
+
+/**
+ * Distance to travel before dropping the next breadcrumb. Faster movement
+ * spreads them out; poor accuracy does too, so GPS jitter is not recorded.
+ * @param speed Ground speed in m/s, if known
+ * @param accuracy Horizontal accuracy in meters, if known
+ * @returns Spacing in meters
+ */
+export function breadcrumbSpacing(speed: number | null, accuracy: number | null): number {
+  const spacing = Math.max((speed ?? 0) * SPACING_INTERVAL, accuracy ?? 0);
+  return Math.min(MAX_SPACING, Math.max(MIN_SPACING, spacing));
+}
+
+/**
+ * Decide whether a fix should become the next breadcrumb
+ * @param trail Breadcrumbs dropped so far
+ * @param fix Latest location fix
+ */
+export function shouldDropBreadcrumb(trail: Breadcrumb[], fix: LocationFix): boolean {
+  if (fix.accuracy !== null && fix.accuracy > MAX_FIX_ACCURACY) return false;
+
+  const last = trail[trail.length - 1];
+  if (!last) return true;
+
+  const distance = calculateDistance(last, fix);
+  if (distance >= breadcrumbSpacing(fix.speed, fix.accuracy)) return true;
+
+  // Keep corners even when moving fast, so the path does not cut them
+  const previous = trail[trail.length - 2];
+  if (previous && distance >= MIN_SPACING) {
+    const turn = angleDifference(calculateBearing(previous, last), calculateBearing(last, fix));
+    return Math.abs(turn) >= TURN_ANGLE;
+  }
+  return false;
+}
+
+/**
+ * Distance from a point to a segment, all in local meters
+ */
+function distanceToSegment(
+  point: { east: number; north: number },
+  start: { east: number; north: number },
+  end: { east: number; north: number }
+): number {
+  const dx = end.east - start.east;
+  const dy = end.north - start.north;
+  const lengthSquared = dx * dx + dy * dy;
+  const projection =
+    lengthSquared === 0
+      ? 0
+      : ((point.east - start.east) * dx + (point.north - start.north) * dy) / lengthSquared;
+  const t = Math.max(0, Math.min(1, projection));
+  return Math.hypot(point.east - start.east - t * dx, point.north - start.north - t * dy);
+}
+
+/**
+ * Simplify a path with the Douglas–Peucker algorithm. The first and last
+ * points are always kept.
+ * @param points Path to simplify
+ * @param tolerance Largest distance in meters a removed point may be from the result
+ * @returns The kept points, in their original order
+ */
+export function simplifyPath<T extends Coordinates>(points: T[], tolerance: number): T[] {
+  if (points.length <= 2) return points;
+
+  const origin = points[0];
+  const projected = points.map((point) => toLocalENU(origin, point));
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Iterative, so very long trails cannot overflow the stack
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let farthest = -1;
+    let farthestDistance = tolerance;
+
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(projected[i], projected[first], projected[last]);
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    }
+
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      stack.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  return points.filter((_, index) => keep[index]);
+}
+
+/**
+ * Find the nearest breadcrumb, where returning starts from
+ * @returns Index into the trail, or null if the trail is empty
+ */
+export function nearestBreadcrumb(location: Coordinates, trail: Breadcrumb[]): number | null {
+  let nearest: number | null = null;
+  let nearestDistance = Infinity;
+  trail.forEach((breadcrumb, index) => {
+    const distance = calculateDistance(location, breadcrumb);
+    if (distance < nearestDistance) {
+      nearest = index;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+}
+
+/**
+ * Move the return target back along the trail. Only breadcrumbs the user has
+ * actually reached count, so the guidance never cuts across to a later one.
+ * @param location Current user location
+ * @param trail Breadcrumbs, oldest first
+ * @param targetIndex Breadcrumb currently being returned to
+ * @returns Index of the next unvisited breadcrumb, or null once back at the start
+ */
+export function advanceBreadcrumb(
+  location: Coordinates,
+  trail: Breadcrumb[],
+  targetIndex: number
+): number | null {
+  for (let i = 0; i <= targetIndex; i++) {
+    if (calculateDistance(location, trail[i]) <= BREADCRUMB_ARRIVAL_RADIUS) {
+      return i > 0 ? i - 1 : null;
+    }
+  }
+  return targetIndex;
+}
+
+/**
+ * Present the trail as a route back to the start, so navigation can follow it
+ * like any other route. Waypoints run newest to oldest.
+ */
+export function toReturnRoute(trail: Breadcrumb[]): Route {
+  const waypoints = trail
+    .map((breadcrumb, index) => ({
+      name: index === 0 ? 'Start' : `Breadcrumb ${index}`,
+      coordinates: { latitude: breadcrumb.latitude, longitude: breadcrumb.longitude },
+      arrivalRadius: BREADCRUMB_ARRIVAL_RADIUS,
+    }))
+    .reverse();
+
+  return {
+    id: 'backtrack',
+    name: 'Return to start',
+    waypoints,
+    createdAt: trail[0]?.timestamp ?? 0,
+  };
+}
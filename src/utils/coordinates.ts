@@ -0,0 +1,739 @@
+import { CoordinateFormat, Coordinates } from '../types';
+import { WGS84_A, WGS84_E2, WGS84_F } from './geodesic';
+import { toDegrees, toRadians } from './geolocation';
+
+/*
+ * Conversions between decimal degrees and the coordinate notations people
+ * read off maps and radios. Parsers return either coordinates or an error
+ * message describing what is wrong with the input.
+ */
+
+export interface UtmCoordinate {
+  zone: number; // 1-60
+  band: string; // latitude band letter C-X
+  easting: number; // meters
+  northing: number; // meters, with a 10 000 km false northing south of the equator
+}
+
+/**
+ * Wrap a longitude to -180..180
+ */
+function wrapLongitude(longitude: number): number {
+  return ((((longitude + 180) % 360) + 360) % 360) - 180;
+}
+
+// Decimal degrees and degrees-minutes-seconds
+
+/**
+ * Format coordinates as signed decimal degrees
+ */
+function formatDecimalDegrees({ latitude, longitude }: Coordinates): string {
+  return `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
+}
+
+/**
+ * Format one angle as degrees, minutes and seconds with a hemisphere letter
+ */
+function formatDmsAngle(value: number, positive: string, negative: string): string {
+  // Round once on tenths of a second so 59.96" carries into the minutes
+  const tenths = Math.round(Math.abs(value) * 36000);
+  const degrees = Math.floor(tenths / 36000);
+  const minutes = Math.floor((tenths % 36000) / 600);
+  const seconds = (tenths % 600) / 10;
+  const hemisphere = value < 0 ? negative : positive;
+  return `${degrees}°${String(minutes).padStart(2, '0')}'${seconds
+    .toFixed(1)
+    .padStart(4, '0')}"${hemisphere}`;
+}
+
+function formatDms({ latitude, longitude }: Coordinates): string {
+  return `${formatDmsAngle(latitude, 'N', 'S')} ${formatDmsAngle(longitude, 'E', 'W')}`;
+}
+
+/**
+ * Combine degree, minute and second tokens into one signed angle
+ * @returns The angle, or an error message
+ */
+function combineSexagesimal(parts: string[], label: string): number | string {
+  if (parts.length === 0 || parts.length > 3) {
+    return `${label} must be degrees, degrees and minutes, or degrees, minutes and seconds`;
+  }
+
+  const values = parts.map(Number);
+  for (let i = 0; i < values.length - 1; i++) {
+    if (!Number.isInteger(Math.abs(values[i]))) {
+      return `Only the last part of the ${label.toLowerCase()} may have decimals`;
+    }
+  }
+  for (let i = 1; i < values.length; i++) {
+    if (values[i] < 0 || values[i] >= 60) {
+      return `${label} minutes and seconds must be between 0 and 60`;
+    }
+  }
+
+  const negative = parts[0].startsWith('-');
+  const magnitude =
+    Math.abs(values[0]) + (values[1] ?? 0) / 60 + (values[2] ?? 0) / 3600;
+  return negative ? -magnitude : magnitude;
+}
+
+/**
+ * Parse a latitude/longitude pair in decimal degrees, degrees and decimal
+ * minutes, or degrees-minutes-seconds. Hemisphere letters (N/S/E/W) may be
+ * placed before or after each value; without them latitude comes first.
+ * @returns Coordinates, or an error message
+ */
+function parseLatLon(input: string): Coordinates | string {
+  const normalized = input
+    .toUpperCase()
+    .replace(/[°º˚′’‘'″”“"]/g, ' ')
+    .replace(/,/g, ' ');
+
+  if (/[^0-9NSEW+\-.\s]/.test(normalized)) {
+    return 'Unexpected characters in coordinates';
+  }
+
+  const tokens = normalized.match(/[NSEW]|[-+]?\d+(?:\.\d+)?|[-+]?\.\d+/g) ?? [];
+  const groups: { parts: string[]; hemisphere: string | null }[] = [];
+
+  const letters = tokens.some((token) => /^[NSEW]$/.test(token));
+  if (letters) {
+    const prefixed = /^[NSEW]$/.test(tokens[0] ?? '');
+    let current: { parts: string[]; hemisphere: string | null } = {
+      parts: [],
+      hemisphere: null,
+    };
+    for (const token of tokens) {
+      if (/^[NSEW]$/.test(token)) {
+        if (prefixed) {
+          if (current.parts.length > 0 || current.hemisphere) groups.push(current);
+          current = { parts: [], hemisphere: token };
+        } else {
+          current.hemisphere = token;
+          groups.push(current);
+          current = { parts: [], hemisphere: null };
+        }
+      } else {
+        current.parts.push(token);
+      }
+    }
+    if (current.parts.length > 0 || current.hemisphere) groups.push(current);
+
+    if (groups.length !== 2 || groups.some((group) => !group.hemisphere)) {
+      return 'Give a hemisphere letter for both latitude and longitude';
+    }
+  } else {
+    if (tokens.length === 0 || tokens.length % 2 !== 0 || tokens.length > 6) {
+      return 'Enter latitude and longitude, e.g. 51.4779, -0.0015';
+    }
+    const half = tokens.length / 2;
+    groups.push({ parts: tokens.slice(0, half), hemisphere: 'N' });
+    groups.push({ parts: tokens.slice(half), hemisphere: 'E' });
+  }
+
+  const latitudeGroup = groups.find((group) => /[NS]/.test(group.hemisphere!));
+  const longitudeGroup = groups.find((group) => /[EW]/.test(group.hemisphere!));
+  if (!latitudeGroup || !longitudeGroup) {
+    return 'Give one latitude (N/S) and one longitude (E/W)';
+  }
+
+  let latitude = combineSexagesimal(latitudeGroup.parts, 'Latitude');
+  if (typeof latitude === 'string') return latitude;
+  let longitude = combineSexagesimal(longitudeGroup.parts, 'Longitude');
+  if (typeof longitude === 'string') return longitude;
+
+  if (letters && (latitude < 0 || longitude < 0)) {
+    return 'Use either a minus sign or a hemisphere letter, not both';
+  }
+  if (latitudeGroup.hemisphere === 'S') latitude = -latitude;
+  if (longitudeGroup.hemisphere === 'W') longitude = -longitude;
+
+  if (latitude < -90 || latitude > 90) {
+    return 'Latitude must be between -90 and 90';
+  }
+  if (longitude < -180 || longitude > 180) {
+    return 'Longitude must be between -180 and 180';
+  }
+  return { latitude, longitude };
+}
+
+// UTM (Krüger series, accurate to well under a millimeter within a zone)
+
+const UTM_SCALE = 0.9996;
+const UTM_FALSE_EASTING = 500000;
+const UTM_FALSE_NORTHING_SOUTH = 10000000;
+const UTM_BANDS = 'CDEFGHJKLMNPQRSTUVWX';
+
+const N = WGS84_F / (2 - WGS84_F);
+const E = Math.sqrt(WGS84_E2);
+const RECTIFYING_RADIUS =
+  (WGS84_A / (1 + N)) * (1 + N ** 2 / 4 + N ** 4 / 64 + N ** 6 / 256);
+
+const ALPHA = [
+  N / 2 - (2 / 3) * N ** 2 + (5 / 16) * N ** 3 + (41 / 180) * N ** 4 -
+    (127 / 288) * N ** 5 + (7891 / 37800) * N ** 6,
+  (13 / 48) * N ** 2 - (3 / 5) * N ** 3 + (557 / 1440) * N ** 4 +
+    (281 / 630) * N ** 5 - (1983433 / 1935360) * N ** 6,
+  (61 / 240) * N ** 3 - (103 / 140) * N ** 4 + (15061 / 26880) * N ** 5 +
+    (167603 / 181440) * N ** 6,
+  (49561 / 161280) * N ** 4 - (179 / 168) * N ** 5 + (6601661 / 7257600) * N ** 6,
+  (34729 / 80640) * N ** 5 - (3418889 / 1995840) * N ** 6,
+  (212378941 / 319334400) * N ** 6,
+];
+
+const BETA = [
+  N / 2 - (2 / 3) * N ** 2 + (37 / 96) * N ** 3 - (1 / 360) * N ** 4 -
+    (81 / 512) * N ** 5 + (96199 / 604800) * N ** 6,
+  (1 / 48) * N ** 2 + (1 / 15) * N ** 3 - (437 / 1440) * N ** 4 +
+    (46 / 105) * N ** 5 - (1118711 / 3870720) * N ** 6,
+  (17 / 480) * N ** 3 - (37 / 840) * N ** 4 - (209 / 4480) * N ** 5 +
+    (5569 / 90720) * N ** 6,
+  (4397 / 161280) * N ** 4 - (11 / 504) * N ** 5 - (830251 / 7257600) * N ** 6,
+  (4583 / 161280) * N ** 5 - (108847 / 3991680) * N ** 6,
+  (20648693 / 638668800) * N ** 6,
+];
+
+function centralMeridian(zone: number): number {
+  return (zone - 1) * 6 - 180 + 3;
+}
+
+/**
+ * Latitude band letter, or null outside the UTM latitude range
+ */
+function latitudeBand(latitude: number): string | null {
+  if (latitude < -80 || latitude > 84) return null;
+  // Band X stretches to 84°N
+  return UTM_BANDS[Math.min(Math.floor(latitude / 8 + 10), UTM_BANDS.length - 1)];
+}
+
+/**
+ * Pick the UTM zone, including the Norway and Svalbard exceptions
+ */
+function utmZone({ latitude, longitude }: Coordinates): number {
+  let zone = Math.floor((longitude + 180) / 6) + 1;
+  if (zone > 60) zone = 60;
+
+  if (latitude >= 56 && latitude < 64 && longitude >= 3 && longitude < 12) {
+    zone = 32;
+  }
+  if (latitude >= 72 && latitude < 84 && longitude >= 0 && longitude < 42) {
+    if (longitude < 9) zone = 31;
+    else if (longitude < 21) zone = 33;
+    else if (longitude < 33) zone = 35;
+    else zone = 37;
+  }
+  return zone;
+}
+
+/**
+ * Transverse Mercator projection of a coordinate onto a given UTM zone
+ */
+function projectToZone({ latitude, longitude }: Coordinates, zone: number) {
+  const phi = toRadians(latitude);
+  const lambda = toRadians(longitude - centralMeridian(zone));
+
+  const tau = Math.tan(phi);
+  const sigma = Math.sinh(E * Math.atanh((E * tau) / Math.sqrt(1 + tau * tau)));
+  const tauPrime = tau * Math.sqrt(1 + sigma * sigma) - sigma * Math.sqrt(1 + tau * tau);
+
+  const xiPrime = Math.atan2(tauPrime, Math.cos(lambda));
+  const etaPrime = Math.asinh(
+    Math.sin(lambda) / Math.sqrt(tauPrime * tauPrime + Math.cos(lambda) ** 2)
+  );
+
+  let xi = xiPrime;
+  let eta = etaPrime;
+  for (let j = 1; j <= 6; j++) {
+    xi += ALPHA[j - 1] * Math.sin(2 * j * xiPrime) * Math.cosh(2 * j * etaPrime);
+    eta += ALPHA[j - 1] * Math.cos(2 * j * xiPrime) * Math.sinh(2 * j * etaPrime);
+  }
+
+  return {
+    easting: UTM_SCALE * RECTIFYING_RADIUS * eta + UTM_FALSE_EASTING,
+    northing:
+      UTM_SCALE * RECTIFYING_RADIUS * xi + (latitude < 0 ? UTM_FALSE_NORTHING_SOUTH : 0),
+  };
+}
+
+/**
+ * Convert coordinates to UTM
+ * @returns The UTM coordinate, or null in the polar regions UTM does not cover
+ */
+export function toUtm(coordinates: Coordinates): UtmCoordinate | null {
+  const band = latitudeBand(coordinates.latitude);
+  if (!band) return null;
+
+  const zone = utmZone(coordinates);
+  return { zone, band, ...projectToZone(coordinates, zone) };
+}
+
+/**
+ * Convert a UTM coordinate back to latitude and longitude
+ */
+export function fromUtm({ zone, band, easting, northing }: UtmCoordinate): Coordinates {
+  const southern = band < 'N';
+  const xi = (northing - (southern ? UTM_FALSE_NORTHING_SOUTH : 0)) / (UTM_SCALE * RECTIFYING_RADIUS);
+  const eta = (easting - UTM_FALSE_EASTING) / (UTM_SCALE * RECTIFYING_RADIUS);
+
+  let xiPrime = xi;
+  let etaPrime = eta;
+  for (let j = 1; j <= 6; j++) {
+    xiPrime -= BETA[j - 1] * Math.sin(2 * j * xi) * Math.cosh(2 * j * eta);
+    etaPrime -= BETA[j - 1] * Math.cos(2 * j * xi) * Math.sinh(2 * j * eta);
+  }
+
+  const sinhEtaPrime = Math.sinh(etaPrime);
+  const sinXiPrime = Math.sin(xiPrime);
+  const cosXiPrime = Math.cos(xiPrime);
+  const tauPrime = sinXiPrime / Math.sqrt(sinhEtaPrime * sinhEtaPrime + cosXiPrime * cosXiPrime);
+
+  // Newton iteration from the conformal latitude back to the geodetic latitude
+  let tau = tauPrime;
+  for (let i = 0; i < 10; i++) {
+    const sigma = Math.sinh(E * Math.atanh((E * tau) / Math.sqrt(1 + tau * tau)));
+    const tauI = tau * Math.sqrt(1 + sigma * sigma) - sigma * Math.sqrt(1 + tau * tau);
+    const delta =
+      ((tauPrime - tauI) / Math.sqrt(1 + tauI * tauI)) *
+      ((1 + (1 - WGS84_E2) * tau * tau) / ((1 - WGS84_E2) * Math.sqrt(1 + tau * tau)));
+    tau += delta;
+    if (Math.abs(delta) < 1e-12) break;
+  }
+
+  return {
+    latitude: toDegrees(Math.atan(tau)),
+    longitude: centralMeridian(zone) + toDegrees(Math.atan2(sinhEtaPrime, cosXiPrime)),
+  };
+}
+
+function formatUtm(coordinates: Coordinates): string {
+  const utm = toUtm(coordinates);
+  if (!utm) return 'Outside UTM coverage';
+  return `${utm.zone}${utm.band} ${Math.floor(utm.easting)} ${Math.floor(utm.northing)}`;
+}
+
+/**
+ * Parse a UTM reference such as "30U 699316 5710164"
+ * @returns Coordinates, or an error message
+ */
+function parseUtm(input: string): Coordinates | string {
+  const match = input
+    .trim()
+    .toUpperCase()
+    .match(/^(\d{1,2})\s*([A-Z])\s+(\d+(?:\.\d+)?)\s*M?E?\s+(\d+(?:\.\d+)?)\s*M?N?$/);
+  if (!match) {
+    return 'UTM must look like 30U 699316 5710164';
+  }
+
+  const zone = Number(match[1]);
+  const band = match[2];
+  const easting = Number(match[3]);
+  const northing = Number(match[4]);
+
+  if (zone < 1 || zone > 60) {
+    return 'UTM zone must be between 1 and 60';
+  }
+  if (!UTM_BANDS.includes(band)) {
+    return `"${band}" is not a UTM latitude band (C-X, without I and O)`;
+  }
+  if (easting < 100000 || easting >= 900000) {
+    return 'UTM easting must be between 100000 and 900000';
+  }
+  if (northing < 0 || northing > UTM_FALSE_NORTHING_SOUTH) {
+    return 'UTM northing must be between 0 and 10000000';
+  }
+
+  return fromUtm({ zone, band, easting, northing });
+}
+
+// MGRS
+
+const MGRS_COLUMN_SETS = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ'];
+const MGRS_ROW_LETTERS = 'ABCDEFGHJKLMNPQRSTUV';
+
+/**
+ * Format coordinates as a 1 m MGRS reference such as "30U XC 99316 10163"
+ */
+function formatMgrs(coordinates: Coordinates): string {
+  const utm = toUtm(coordinates);
+  if (!utm) return 'Outside MGRS coverage';
+
+  const column = Math.floor(utm.easting / 100000);
+  const row = Math.floor(utm.northing / 100000) % 20;
+  const columnLetter = MGRS_COLUMN_SETS[(utm.zone - 1) % 3][column - 1];
+  // Even zones start their row letters five rows further on
+  const rowLetter = MGRS_ROW_LETTERS[(row + (utm.zone % 2 === 0 ? 5 : 0)) % 20];
+
+  // MGRS truncates rather than rounds, so a reference always names the square it is in
+  const easting = String(Math.floor(utm.easting % 100000)).padStart(5, '0');
+  const northing = String(Math.floor(utm.northing % 100000)).padStart(5, '0');
+
+  return `${utm.zone}${utm.band} ${columnLetter}${rowLetter} ${easting} ${northing}`;
+}
+
+/**
+ * Parse an MGRS reference at any precision from 10 km to 1 m,
+ * with or without spaces ("30UXC9931610163" or "30U XC 993 101")
+ * @returns Coordinates of the center of the referenced square, or an error message
+ */
+function parseMgrs(input: string): Coordinates | string {
+  const compact = input.toUpperCase().replace(/\s+/g, '');
+  const match = compact.match(/^(\d{1,2})([A-Z])([A-Z])([A-Z])(\d*)$/);
+  if (!match) {
+    return 'MGRS must look like 30U XC 99316 10163';
+  }
+
+  const zone = Number(match[1]);
+  const band = match[2];
+  const columnLetter = match[3];
+  const rowLetter = match[4];
+  const digits = match[5];
+
+  if (zone < 1 || zone > 60) {
+    return 'MGRS zone must be between 1 and 60';
+  }
+  if (!UTM_BANDS.includes(band)) {
+    return `"${band}" is not an MGRS latitude band (C-X, without I and O)`;
+  }
+  if (digits.length % 2 !== 0 || digits.length > 10) {
+    return 'MGRS easting and northing need the same number of digits (up to 5 each)';
+  }
+
+  const column = MGRS_COLUMN_SETS[(zone - 1) % 3].indexOf(columnLetter) + 1;
+  const rowIndex = MGRS_ROW_LETTERS.indexOf(rowLetter);
+  if (column === 0) {
+    return `"${columnLetter}" is not a valid 100 km column in zone ${zone}`;
+  }
+  if (rowIndex === -1) {
+    return `"${rowLetter}" is not a valid 100 km row letter`;
+  }
+
+  const precision = digits.length / 2;
+  const scale = 10 ** (5 - precision);
+  const easting = column * 100000 + (precision ? Number(digits.slice(0, precision)) : 0) * scale + scale / 2;
+  const row = (rowIndex - (zone % 2 === 0 ? 5 : 0) + 20) % 20;
+  let northing = row * 100000 + (precision ? Number(digits.slice(precision)) : 0) * scale + scale / 2;
+
+  // Row letters repeat every 2000 km; the band tells which cycle is meant.
+  // Parallels curve away from the central meridian, so take the lower of the
+  // band's southern edge measured at the meridian and at the zone edge.
+  const bandBottom = (UTM_BANDS.indexOf(band) - 10) * 8;
+  const bandNorthing = Math.min(
+    projectToZone({ latitude: bandBottom, longitude: centralMeridian(zone) }, zone).northing,
+    projectToZone({ latitude: bandBottom, longitude: centralMeridian(zone) + 3 }, zone).northing
+  );
+  const bandFloor = Math.floor(bandNorthing / 100000) * 100000;
+  while (northing < bandFloor) {
+    northing += 2000000;
+  }
+
+  return fromUtm({ zone, band, easting, northing });
+}
+
+// Geohash
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+const GEOHASH_PRECISION = 9; // about 5 m
+
+function formatGeohash({ latitude, longitude }: Coordinates): string {
+  let latMin = -90;
+  let latMax = 90;
+  let lonMin = -180;
+  let lonMax = 180;
+  let hash = '';
+  let bits = 0;
+  let index = 0;
+  let evenBit = true;
+
+  while (hash.length < GEOHASH_PRECISION) {
+    if (evenBit) {
+      const mid = (lonMin + lonMax) / 2;
+      if (longitude >= mid) {
+        index = index * 2 + 1;
+        lonMin = mid;
+      } else {
+        index = index * 2;
+        lonMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (latitude >= mid) {
+        index = index * 2 + 1;
+        latMin = mid;
+      } else {
+        index = index * 2;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += GEOHASH_ALPHABET[index];
+      bits = 0;
+      index = 0;
+    }
+  }
+  return hash;
+}
+
+/**
+ * Parse a geohash of up to 12 characters
+ * @returns Coordinates of the center of the cell, or an error message
+ */
+function parseGeohash(input: string): Coordinates | string {
+  const hash = input.trim().toLowerCase();
+  if (hash.length === 0 || hash.length > 12) {
+    return 'Geohash must be 1 to 12 characters';
+  }
+
+  let latMin = -90;
+  let latMax = 90;
+  let lonMin = -180;
+  let lonMax = 180;
+  let evenBit = true;
+
+  for (const char of hash) {
+    const index = GEOHASH_ALPHABET.indexOf(char);
+    if (index === -1) {
+      return `"${char}" is not a geohash character`;
+    }
+    for (let bit = 4; bit >= 0; bit--) {
+      const set = (index >> bit) & 1;
+      if (evenBit) {
+        const mid = (lonMin + lonMax) / 2;
+        if (set) lonMin = mid;
+        else lonMax = mid;
+      } else {
+        const mid = (latMin + latMax) / 2;
+        if (set) latMin = mid;
+        else latMax = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  return { latitude: (latMin + latMax) / 2, longitude: (lonMin + lonMax) / 2 };
+}
+
+// Open Location Code (Plus Codes)
+
+const OLC_ALPHABET = '23456789CFGHJMPQRVWX';
+const OLC_SEPARATOR_POSITION = 8;
+const OLC_PAIR_RESOLUTIONS = [20, 1, 0.05, 0.0025, 0.000125];
+const OLC_GRID_ROWS = 5;
+const OLC_GRID_COLUMNS = 4;
+
+/**
+ * Format coordinates as an 11-digit Plus Code (about 3 m)
+ */
+function formatPlusCode({ latitude, longitude }: Coordinates): string {
+  // Work in integers of the finest cell to avoid floating point drift
+  const latitudeCells = 8000 * OLC_GRID_ROWS;
+  const longitudeCells = 8000 * OLC_GRID_COLUMNS;
+  let lat = Math.floor((Math.max(-90, Math.min(90, latitude)) + 90) * latitudeCells);
+  let lng = Math.floor((wrapLongitude(longitude) + 180) * longitudeCells);
+  lat = Math.min(lat, 180 * latitudeCells - 1);
+
+  const gridDigit = OLC_ALPHABET[(lat % OLC_GRID_ROWS) * OLC_GRID_COLUMNS + (lng % OLC_GRID_COLUMNS)];
+  lat = Math.floor(lat / OLC_GRID_ROWS);
+  lng = Math.floor(lng / OLC_GRID_COLUMNS);
+
+  let code = '';
+  for (let i = 0; i < OLC_PAIR_RESOLUTIONS.length; i++) {
+    code = OLC_ALPHABET[lat % 20] + OLC_ALPHABET[lng % 20] + code;
+    lat = Math.floor(lat / 20);
+    lng = Math.floor(lng / 20);
+  }
+
+  return `${code.slice(0, OLC_SEPARATOR_POSITION)}+${code.slice(OLC_SEPARATOR_POSITION)}${gridDigit}`;
+}
+
+/**
+ * Decode a full Plus Code to the center of its cell
+ */
+function decodePlusCode(code: string): Coordinates | string {
+  const digits = code.replace('+', '').replace(/0+$/, '');
+  let latitude = -90;
+  let longitude = -180;
+  let latitudeResolution = 0;
+  let longitudeResolution = 0;
+
+  for (let i = 0; i < Math.min(digits.length, 10); i += 2) {
+    const resolution = OLC_PAIR_RESOLUTIONS[i / 2];
+    latitude += OLC_ALPHABET.indexOf(digits[i]) * resolution;
+    longitude += OLC_ALPHABET.indexOf(digits[i + 1]) * resolution;
+    latitudeResolution = resolution;
+    longitudeResolution = resolution;
+  }
+
+  for (let i = 10; i < digits.length; i++) {
+    latitudeResolution /= OLC_GRID_ROWS;
+    longitudeResolution /= OLC_GRID_COLUMNS;
+    const index = OLC_ALPHABET.indexOf(digits[i]);
+    latitude += Math.floor(index / OLC_GRID_COLUMNS) * latitudeResolution;
+    longitude += (index % OLC_GRID_COLUMNS) * longitudeResolution;
+  }
+
+  latitude += latitudeResolution / 2;
+  longitude += longitudeResolution / 2;
+  if (latitude > 90 || longitude > 180) {
+    return 'Plus Code is outside the valid range';
+  }
+  return { latitude, longitude };
+}
+
+/**
+ * Parse a Plus Code such as "9C3XGV4C+MV". Short codes ("GV4C+MV") are
+ * resolved against a nearby reference location, as the spec prescribes.
+ * @returns Coordinates of the center of the cell, or an error message
+ */
+function parsePlusCode(input: string, reference?: Coordinates): Coordinates | string {
+  const code = input.trim().toUpperCase();
+  const separator = code.indexOf('+');
+
+  if (separator === -1 || separator !== code.lastIndexOf('+')) {
+    return 'Plus Code must contain exactly one "+"';
+  }
+  if (separator > OLC_SEPARATOR_POSITION || separator % 2 !== 0) {
+    return 'Plus Code has the "+" in the wrong place';
+  }
+  if (code.length - separator - 1 === 1) {
+    return 'Plus Code needs at least two characters after the "+"';
+  }
+
+  const padding = code.slice(0, separator).match(/0+$/);
+  if (padding) {
+    if (separator !== OLC_SEPARATOR_POSITION || padding[0].length % 2 !== 0 || padding.index === 0) {
+      return 'Plus Code padding is malformed';
+    }
+    if (separator < code.length - 1) {
+      return 'Padded Plus Codes cannot have characters after the "+"';
+    }
+  }
+  const significant = code.replace('+', '').replace(/0+$/, '');
+  for (const char of significant) {
+    if (!OLC_ALPHABET.includes(char)) {
+      return `"${char}" is not a Plus Code character`;
+    }
+  }
+
+  if (separator === OLC_SEPARATOR_POSITION) {
+    if (OLC_ALPHABET.indexOf(code[0]) >= 9 || OLC_ALPHABET.indexOf(code[1]) >= 18) {
+      return 'Plus Code is outside the valid range';
+    }
+    return decodePlusCode(code);
+  }
+
+  if (!reference) {
+    return 'Short Plus Codes need a nearby location; enter the full code';
+  }
+
+  // Borrow the leading digits from the reference, then move to the nearest
+  // matching cell in case the reference sits near a cell edge
+  const paddingLength = OLC_SEPARATOR_POSITION - separator;
+  const resolution = 20 ** (2 - paddingLength / 2);
+  const referenceLongitude = wrapLongitude(reference.longitude);
+  const prefix = formatPlusCode(reference).slice(0, paddingLength);
+  const decoded = decodePlusCode(prefix + code);
+  if (typeof decoded === 'string') return decoded;
+
+  let { latitude, longitude } = decoded;
+  if (reference.latitude + resolution / 2 < latitude && latitude - resolution >= -90) {
+    latitude -= resolution;
+  } else if (reference.latitude - resolution / 2 > latitude && latitude + resolution <= 90) {
+    latitude += resolution;
+  }
+  if (referenceLongitude + resolution / 2 < longitude) {
+    longitude -= resolution;
+  } else if (referenceLongitude - resolution / 2 > longitude) {
+    longitude += resolution;
+  }
+  longitude = wrapLongitude(longitude);
+
+  return { latitude, longitude };
+}
+
+// Public API
+
+export const COORDINATE_FORMAT_LABELS: Record<CoordinateFormat, string> = {
+  dd: 'Decimal',
+  dms: 'DMS',
+  utm: 'UTM',
+  mgrs: 'MGRS',
+  geohash: 'Geohash',
+  pluscode: 'Plus Code',
+};
+
+/**
+ * Format coordinates in the given notation
+ * @param coordinates Coordinates to format
+ * @param format Notation to use
+ * @returns Formatted string
+ */
+export function formatCoordinates(coordinates: Coordinates, format: CoordinateFormat): string {
+  switch (format) {
+    case 'dms':
+      return formatDms(coordinates);
+    case 'utm':
+      return formatUtm(coordinates);
+    case 'mgrs':
+      return formatMgrs(coordinates);
+    case 'geohash':
+      return formatGeohash(coordinates);
+    case 'pluscode':
+      return formatPlusCode(coordinates);
+    default:
+      return formatDecimalDegrees(coordinates);
+  }
+}
+
+/**
+ * Guess which notation a string is written in
+ * @returns The detected format, or null if nothing matches
+ */
+export function detectCoordinateFormat(input: string): CoordinateFormat | null {
+  const text = input.trim();
+  if (!text) return null;
+
+  if (text.includes('+') && /^[0-9A-Za-z]*\+[0-9A-Za-z]*$/.test(text)) return 'pluscode';
+  if (/^\d{1,2}\s*[A-Za-z]\s*[A-Za-z]{2}\s*[\d\s]*$/.test(text)) return 'mgrs';
+  if (/^\d{1,2}\s*[A-Za-z]\s+\d+(\.\d+)?\s*m?E?\s+\d+(\.\d+)?\s*m?N?$/i.test(text)) return 'utm';
+  if (/^[0-9b-hjkmnp-z]{1,12}$/i.test(text) && /[a-z]/i.test(text)) return 'geohash';
+  if (/[°'"′″]|\d\s*[NSEWnsew]\b|^[NSEWnsew]\s*\d/.test(text)) return 'dms';
+  if (/\d/.test(text)) return 'dd';
+  return null;
+}
+
+/**
+ * Parse coordinates written in any supported notation
+ * @param input Text entered by the user
+ * @param format Notation to expect; detected automatically when omitted
+ * @param reference Nearby location used to resolve short Plus Codes
+ * @returns Coordinates, or an error message describing the problem
+ */
+export function parseCoordinates(
+  input: string,
+  format?: CoordinateFormat,
+  reference?: Coordinates
+): Coordinates | string {
+  const text = input.trim();
+  if (!text) {
+    return 'Coordinates are required';
+  }
+
+  const detected = format ?? detectCoordinateFormat(text);
+  switch (detected) {
+    case 'dd':
+    case 'dms':
+      return parseLatLon(text);
+    case 'utm':
+      return parseUtm(text);
+    case 'mgrs':
+      return parseMgrs(text);
+    case 'geohash':
+      return parseGeohash(text);
+    case 'pluscode':
+      return parsePlusCode(text, reference);
+    default:
+      return 'Unrecognized coordinate format';
+  }
+}
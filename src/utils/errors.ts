@@ -0,0 +1,70 @@
+import { AppError, ErrorCode, ErrorSeverity, RecoveryAction } from '../types';
+
+interface ErrorDefinition {
+  severity: ErrorSeverity;
+  action: RecoveryAction;
+  actionLabel: string;
+  message: string;
+}
+
+const ERROR_DEFINITIONS: Record<ErrorCode, ErrorDefinition> = {
+  'location-permission-denied': {
+    severity: 'fatal',
+    action: 'open-settings',
+    actionLabel: 'Open Settings',
+    message: 'Location permission denied. Please enable location access in settings.',
+  },
+  'location-services-disabled': {
+    severity: 'fatal',
+    action: 'open-settings',
+    actionLabel: 'Open Settings',
+    message: 'Location services are turned off. Turn them on to find your position.',
+  },
+  'location-timeout': {
+    severity: 'warning',
+    action: 'retry',
+    actionLabel: 'Retry',
+    message: 'No GPS fix yet. Move to open sky, away from buildings.',
+  },
+  'location-unavailable': {
+    severity: 'fatal',
+    action: 'retry',
+    actionLabel: 'Retry',
+    message: 'Failed to start location tracking',
+  },
+  'sensors-unavailable': {
+    severity: 'warning',
+    action: 'fallback-sensor',
+    actionLabel: 'Use GPS Course',
+    message: 'Device sensors not available. The arrow can follow your direction of travel instead.',
+  },
+  'sensor-start-failed': {
+    severity: 'warning',
+    action: 'fallback-sensor',
+    actionLabel: 'Use Compass Only',
+    message: 'Failed to start sensors',
+  },
+  'gl-context-failed': {
+    severity: 'warning',
+    action: 'retry',
+    actionLabel: 'Retry',
+    message: 'The 3D arrow could not start, showing a simple arrow instead.',
+  },
+};
+
+/**
+ * Build an error with the severity, recovery action and message for its code
+ * @param code What went wrong
+ * @param cause The underlying error, kept as detail
+ * @returns Error ready to display
+ */
+export function createAppError(code: ErrorCode, cause?: unknown): AppError {
+  let detail: string | null = null;
+  if (cause instanceof Error) {
+    detail = cause.message;
+  } else if (cause !== undefined && cause !== null) {
+    detail = String(cause);
+  }
+
+  return { code, ...ERROR_DEFINITIONS[code], detail };
+}
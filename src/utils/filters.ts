@@ -1,3 +1,12 @@
+import { Coordinates } from '../types';
+import {
+  angleDifference,
+  calculateDistance,
+  fromLocalENU,
+  normalizeAngle,
+  toLocalENU,
+} from './geolocation';
+
 /**
  * Low-pass filter for smoothing noisy sensor data
  * This helps reduce jitter while maintaining responsiveness
@@ -101,12 +110,113 @@ export class KalmanFilter {
   }
 }
 
+/**
+ * Kalman filter for headings with a heading + turn-rate state
+ * Wraps the innovation to ±180° so 359° → 1° is treated as a 2° turn,
+ * accepts per-measurement noise and exposes its covariance
+ */
+export class AngleKalmanFilter {
+  private heading: number | null = null;
+  private rate: number = 0;
+  // Covariance [[P_hh, P_hr], [P_rh, P_rr]] in degrees and degrees/second
+  private covariance: [[number, number], [number, number]] = [
+    [0, 0],
+    [0, 0],
+  ];
+  private readonly processNoise: number;
+  private readonly measurementNoise: number;
+
+  /**
+   * @param processNoise Turn acceleration spectral density in (°/s²)²·s. Higher = follows turns faster
+   * @param measurementNoise Default compass noise variance in degrees²
+   */
+  constructor(processNoise: number = 50, measurementNoise: number = 25) {
+    this.processNoise = processNoise;
+    this.measurementNoise = measurementNoise;
+  }
+
+  /**
+   * @param measurement Compass heading in degrees (0-360)
+   * @param dt Time since the previous measurement in seconds
+   * @param measurementNoise Variance of this measurement in degrees² (defaults to the constructor value)
+   * @returns Filtered heading in degrees (0-360)
+   */
+  update(measurement: number, dt: number, measurementNoise: number = this.measurementNoise): number {
+    if (this.heading === null) {
+      this.heading = normalizeAngle(measurement);
+      this.rate = 0;
+      this.covariance = [
+        [measurementNoise, 0],
+        [0, 100],
+      ];
+      return this.heading;
+    }
+
+    // Prediction with a constant turn-rate model
+    const [[p00, p01], [p10, p11]] = this.covariance;
+    const q = this.processNoise;
+    const predictedHeading = this.heading + this.rate * dt;
+    const pp00 = p00 + dt * (p10 + p01) + dt * dt * p11 + (q * dt * dt * dt) / 3;
+    const pp01 = p01 + dt * p11 + (q * dt * dt) / 2;
+    const pp10 = p10 + dt * p11 + (q * dt * dt) / 2;
+    const pp11 = p11 + q * dt;
+
+    // Update with the wrapped innovation
+    const innovation = angleDifference(predictedHeading, measurement);
+    const s = pp00 + measurementNoise;
+    const k0 = pp00 / s;
+    const k1 = pp10 / s;
+
+    this.heading = normalizeAngle(predictedHeading + k0 * innovation);
+    this.rate = this.rate + k1 * innovation;
+    this.covariance = [
+      [(1 - k0) * pp00, (1 - k0) * pp01],
+      [pp10 - k1 * pp00, pp11 - k1 * pp01],
+    ];
+
+    return this.heading;
+  }
+
+  reset(): void {
+    this.heading = null;
+    this.rate = 0;
+    this.covariance = [
+      [0, 0],
+      [0, 0],
+    ];
+  }
+
+  /**
+   * Estimated turn rate in degrees per second
+   */
+  getRate(): number {
+    return this.rate;
+  }
+
+  /**
+   * Full state covariance [[heading, heading-rate], [rate-heading, rate]]
+   */
+  getCovariance(): [[number, number], [number, number]] {
+    return [
+      [this.covariance[0][0], this.covariance[0][1]],
+      [this.covariance[1][0], this.covariance[1][1]],
+    ];
+  }
+
+  /**
+   * One-sigma heading uncertainty in degrees, or null before the first measurement
+   */
+  getHeadingUncertainty(): number | null {
+    return this.heading === null ? null : Math.sqrt(this.covariance[0][0]);
+  }
+}
+
 /**
  * Complementary filter for fusing accelerometer and magnetometer data
  * Commonly used for orientation estimation
  */
 export class ComplementaryFilter {
-  private value: number = 0;
+  private value: number | null = null;
   private readonly alpha: number;
 
   constructor(alpha: number = 0.98) {
@@ -114,6 +224,12 @@ export class ComplementaryFilter {
   }
 
   update(gyroValue: number, accelMagValue: number, dt: number): number {
+    // Start from the absolute reference instead of drifting in from zero
+    if (this.value === null) {
+      this.value = accelMagValue;
+      return this.value;
+    }
+
     // Integrate gyroscope (high-pass)
     const gyroContribution = this.value + gyroValue * dt;
     
@@ -124,7 +240,205 @@ export class ComplementaryFilter {
   }
 
   reset(): void {
-    this.value = 0;
+    this.value = null;
+  }
+
+  getValue(): number | null {
+    return this.value;
+  }
+}
+
+/**
+ * Complementary filter for headings
+ * Integrates gyroscope turn rate for short-term changes and pulls towards
+ * the compass heading over time, handling the 0°/360° wrap-around
+ */
+export class AngleComplementaryFilter {
+  private readonly filter: ComplementaryFilter;
+
+  /**
+   * @param alpha Weight of the gyroscope path per update (0-1). Higher = less compass noise, slower drift correction
+   */
+  constructor(alpha: number = 0.98) {
+    this.filter = new ComplementaryFilter(alpha);
+  }
+
+  /**
+   * @param turnRate Heading rate in degrees per second (clockwise positive)
+   * @param compassHeading Absolute heading in degrees (0-360)
+   * @param dt Time since the previous update in seconds
+   * @returns Fused heading in degrees (0-360)
+   */
+  update(turnRate: number, compassHeading: number, dt: number): number {
+    const current = this.filter.getValue();
+
+    // Unwrap the compass heading so it lies within 180° of the estimate
+    let reference = compassHeading;
+    if (current !== null) {
+      reference = current + angleDifference(current, compassHeading);
+    }
+
+    const fused = this.filter.update(turnRate, reference, dt);
+    return normalizeAngle(fused);
+  }
+
+  reset(): void {
+    this.filter.reset();
+  }
+}
+
+/**
+ * Kalman filter for GPS positions with a position + velocity state in a
+ * local East-North frame. Each fix is weighted by its reported accuracy
+ * and fixes that jump too far from the prediction are rejected.
+ */
+export class PositionKalmanFilter {
+  private origin: Coordinates | null = null;
+  private lastTimestamp: number = 0;
+  // Per-axis state [position, velocity] and covariance (east, north)
+  private state = { east: [0, 0], north: [0, 0] };
+  private covariance = {
+    east: [
+      [0, 0],
+      [0, 0],
+    ],
+    north: [
+      [0, 0],
+      [0, 0],
+    ],
+  };
+  private consecutiveRejections: number = 0;
+  private readonly processNoise: number;
+  private readonly outlierGate: number;
+  private readonly maxRejections: number;
+
+  /**
+   * @param processNoise Acceleration spectral density in m²/s³. Higher = follows turns and stops faster
+   * @param outlierGate Squared Mahalanobis distance above which a fix is rejected (9.21 = 99% for 2 DOF)
+   * @param maxRejections Consecutive rejections after which the filter restarts at the new fix
+   */
+  constructor(processNoise: number = 1, outlierGate: number = 9.21, maxRejections: number = 3) {
+    this.processNoise = processNoise;
+    this.outlierGate = outlierGate;
+    this.maxRejections = maxRejections;
+  }
+
+  /**
+   * @param fix Measured position
+   * @param accuracy Horizontal accuracy (one sigma) in meters, if known
+   * @param timestamp Time of the fix in milliseconds
+   * @returns Smoothed position
+   */
+  update(fix: Coordinates, accuracy: number | null, timestamp: number): Coordinates {
+    const variance = Math.pow(Math.max(accuracy ?? 10, 1), 2);
+
+    if (this.origin === null || timestamp < this.lastTimestamp) {
+      this.initialize(fix, variance, timestamp);
+      return fix;
+    }
+
+    // Re-anchor the local frame once we move far enough for projection error to matter
+    if (calculateDistance(this.origin, fix) > 5000) {
+      const current = this.getEstimate()!;
+      const velocity = [this.state.east[1], this.state.north[1]];
+      this.origin = current;
+      this.state = { east: [0, velocity[0]], north: [0, velocity[1]] };
+    }
+
+    const dt = (timestamp - this.lastTimestamp) / 1000;
+    this.lastTimestamp = timestamp;
+    this.predict('east', dt);
+    this.predict('north', dt);
+
+    const measured = toLocalENU(this.origin, fix);
+    const innovationEast = measured.east - this.state.east[0];
+    const innovationNorth = measured.north - this.state.north[0];
+    const sEast = this.covariance.east[0][0] + variance;
+    const sNorth = this.covariance.north[0][0] + variance;
+    const mahalanobis =
+      (innovationEast * innovationEast) / sEast + (innovationNorth * innovationNorth) / sNorth;
+
+    if (mahalanobis > this.outlierGate) {
+      this.consecutiveRejections++;
+
+      // A run of "outliers" means we really moved (or the filter diverged)
+      if (this.consecutiveRejections >= this.maxRejections) {
+        this.initialize(fix, variance, timestamp);
+        return fix;
+      }
+      return this.getEstimate()!;
+    }
+
+    this.consecutiveRejections = 0;
+    this.correct('east', innovationEast, variance);
+    this.correct('north', innovationNorth, variance);
+
+    return this.getEstimate()!;
+  }
+
+  /**
+   * Current smoothed position, or null before the first fix
+   */
+  getEstimate(): Coordinates | null {
+    if (this.origin === null) return null;
+    return fromLocalENU(this.origin, this.state.east[0], this.state.north[0]);
+  }
+
+  /**
+   * Estimated speed in meters per second
+   */
+  getSpeed(): number {
+    return Math.sqrt(this.state.east[1] ** 2 + this.state.north[1] ** 2);
+  }
+
+  reset(): void {
+    this.origin = null;
+    this.consecutiveRejections = 0;
+  }
+
+  private initialize(fix: Coordinates, variance: number, timestamp: number): void {
+    this.origin = fix;
+    this.lastTimestamp = timestamp;
+    this.consecutiveRejections = 0;
+    this.state = { east: [0, 0], north: [0, 0] };
+
+    // Unknown velocity: start with a generous 5 m/s sigma
+    const initial = [
+      [variance, 0],
+      [0, 25],
+    ];
+    this.covariance = { east: initial.map((r) => [...r]), north: initial.map((r) => [...r]) };
+  }
+
+  private predict(axis: 'east' | 'north', dt: number): void {
+    const x = this.state[axis];
+    const [[p00, p01], [p10, p11]] = this.covariance[axis];
+    const q = this.processNoise;
+
+    this.state[axis] = [x[0] + x[1] * dt, x[1]];
+    this.covariance[axis] = [
+      [
+        p00 + dt * (p10 + p01) + dt * dt * p11 + (q * dt * dt * dt) / 3,
+        p01 + dt * p11 + (q * dt * dt) / 2,
+      ],
+      [p10 + dt * p11 + (q * dt * dt) / 2, p11 + q * dt],
+    ];
+  }
+
+  private correct(axis: 'east' | 'north', innovation: number, variance: number): void {
+    const [[p00, p01], [p10, p11]] = this.covariance[axis];
+    const s = p00 + variance;
+    const k0 = p00 / s;
+    const k1 = p10 / s;
+
+    this.state[axis] = [
+      this.state[axis][0] + k0 * innovation,
+      this.state[axis][1] + k1 * innovation,
+    ];
+    this.covariance[axis] = [
+      [(1 - k0) * p00, (1 - k0) * p01],
+      [p10 - k1 * p00, p11 - k1 * p01],
+    ];
   }
 }
 
@@ -0,0 +1,299 @@
+import { Coordinates } from '../types';
+import {
+  calculateBearing,
+  calculateDistance,
+  normalizeAngle,
+  toDegrees,
+  toRadians,
+} from './geolocation';
+
+// WGS-84 ellipsoid
+export const WGS84_A = 6378137; // semi-major axis, meters
+export const WGS84_F = 1 / 298.257223563; // flattening
+export const WGS84_B = WGS84_A * (1 - WGS84_F); // semi-minor axis, meters
+export const WGS84_E2 = WGS84_F * (2 - WGS84_F); // first eccentricity squared
+
+const WGS84_E = Math.sqrt(WGS84_E2);
+const WGS84_N = WGS84_F / (2 - WGS84_F); // third flattening
+
+const CONVERGENCE_LIMIT = 1e-12;
+const MAX_ITERATIONS = 200;
+
+export interface GeodesicInverse {
+  distance: number; // meters along the ellipsoid
+  initialBearing: number; // degrees from true north at the start point
+  finalBearing: number; // degrees from true north on arrival
+}
+
+export interface GeodesicDirect {
+  coordinates: Coordinates;
+  finalBearing: number; // degrees from true north on arrival
+}
+
+/**
+ * Wrap a longitude to -180..180
+ */
+function wrapLongitude(longitude: number): number {
+  return ((((longitude + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Solve the inverse geodesic problem on the WGS-84 ellipsoid (Vincenty).
+ * Accurate to well under a millimeter. Exactly antipodal points, and nearly
+ * antipodal ones where the iteration does not converge, fall back to the
+ * spherical solution (within about 0.5% there).
+ * @param from Starting coordinate
+ * @param to Destination coordinate
+ * @returns Distance and initial/final bearings along the geodesic
+ */
+export function geodesicInverse(from: Coordinates, to: Coordinates): GeodesicInverse {
+  const L = toRadians(wrapLongitude(to.longitude - from.longitude));
+
+  const tanU1 = (1 - WGS84_F) * Math.tan(toRadians(from.latitude));
+  const cosU1 = 1 / Math.sqrt(1 + tanU1 * tanU1);
+  const sinU1 = tanU1 * cosU1;
+  const tanU2 = (1 - WGS84_F) * Math.tan(toRadians(to.latitude));
+  const cosU2 = 1 / Math.sqrt(1 + tanU2 * tanU2);
+  const sinU2 = tanU2 * cosU2;
+
+  let lambda = L;
+  let sinLambda = 0;
+  let cosLambda = 0;
+  let sinSigma = 0;
+  let cosSigma = 0;
+  let sigma = 0;
+  let cosSqAlpha = 0;
+  let cos2SigmaM = 0;
+  let converged = false;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    sinLambda = Math.sin(lambda);
+    cosLambda = Math.cos(lambda);
+    const sinSqSigma =
+      (cosU2 * sinLambda) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2;
+
+    cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+
+    // Coincident points, or exactly antipodal ones where the azimuth is undefined
+    if (sinSqSigma < 1e-24) {
+      if (cosSigma > 0) {
+        return { distance: 0, initialBearing: 0, finalBearing: 0 };
+      }
+      break;
+    }
+
+    sinSigma = Math.sqrt(sinSqSigma);
+    sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    cosSqAlpha = 1 - sinAlpha * sinAlpha;
+    // Both points on the equator: cos2SigmaM is undefined but unused
+    cos2SigmaM = cosSqAlpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cosSqAlpha : 0;
+
+    const C = (WGS84_F / 16) * cosSqAlpha * (4 + WGS84_F * (4 - 3 * cosSqAlpha));
+    const previousLambda = lambda;
+    lambda =
+      L +
+      (1 - C) *
+        WGS84_F *
+        sinAlpha *
+        (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM ** 2)));
+
+    if (Math.abs(lambda) > Math.PI * 1.5) break;
+    if (Math.abs(lambda - previousLambda) < CONVERGENCE_LIMIT) {
+      converged = true;
+      break;
+    }
+  }
+
+  if (!converged) {
+    const initialBearing = calculateBearing(from, to);
+    return {
+      distance: calculateDistance(from, to),
+      initialBearing,
+      finalBearing: normalizeAngle(calculateBearing(to, from) + 180),
+    };
+  }
+
+  const uSq = (cosSqAlpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B)) / (WGS84_B * WGS84_B);
+  const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+  const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+  const deltaSigma =
+    B *
+    sinSigma *
+    (cos2SigmaM +
+      (B / 4) *
+        (cosSigma * (-1 + 2 * cos2SigmaM ** 2) -
+          (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma ** 2) * (-3 + 4 * cos2SigmaM ** 2)));
+
+  const initialBearing = Math.atan2(
+    cosU2 * sinLambda,
+    cosU1 * sinU2 - sinU1 * cosU2 * cosLambda
+  );
+  const finalBearing = Math.atan2(
+    cosU1 * sinLambda,
+    -sinU1 * cosU2 + cosU1 * sinU2 * cosLambda
+  );
+
+  return {
+    distance: WGS84_B * A * (sigma - deltaSigma),
+    initialBearing: normalizeAngle(toDegrees(initialBearing)),
+    finalBearing: normalizeAngle(toDegrees(finalBearing)),
+  };
+}
+
+/**
+ * Solve the direct geodesic problem on the WGS-84 ellipsoid (Vincenty)
+ * @param from Starting coordinate
+ * @param bearing Initial bearing in degrees from true north
+ * @param distance Distance to travel in meters
+ * @returns Destination coordinate and the bearing on arrival
+ */
+export function geodesicDirect(
+  from: Coordinates,
+  bearing: number,
+  distance: number
+): GeodesicDirect {
+  const alpha1 = toRadians(bearing);
+  const sinAlpha1 = Math.sin(alpha1);
+  const cosAlpha1 = Math.cos(alpha1);
+
+  const tanU1 = (1 - WGS84_F) * Math.tan(toRadians(from.latitude));
+  const cosU1 = 1 / Math.sqrt(1 + tanU1 * tanU1);
+  const sinU1 = tanU1 * cosU1;
+
+  const sigma1 = Math.atan2(tanU1, cosAlpha1);
+  const sinAlpha = cosU1 * sinAlpha1;
+  const cosSqAlpha = 1 - sinAlpha * sinAlpha;
+  const uSq = (cosSqAlpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B)) / (WGS84_B * WGS84_B);
+  const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+  const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+
+  let sigma = distance / (WGS84_B * A);
+  let sinSigma = 0;
+  let cosSigma = 0;
+  let cos2SigmaM = 0;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    cos2SigmaM = Math.cos(2 * sigma1 + sigma);
+    sinSigma = Math.sin(sigma);
+    cosSigma = Math.cos(sigma);
+    const deltaSigma =
+      B *
+      sinSigma *
+      (cos2SigmaM +
+        (B / 4) *
+          (cosSigma * (-1 + 2 * cos2SigmaM ** 2) -
+            (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma ** 2) * (-3 + 4 * cos2SigmaM ** 2)));
+    const previousSigma = sigma;
+    sigma = distance / (WGS84_B * A) + deltaSigma;
+    if (Math.abs(sigma - previousSigma) < CONVERGENCE_LIMIT) break;
+  }
+
+  sinSigma = Math.sin(sigma);
+  cosSigma = Math.cos(sigma);
+  cos2SigmaM = Math.cos(2 * sigma1 + sigma);
+
+  const x = sinU1 * sinSigma - cosU1 * cosSigma * cosAlpha1;
+  const latitude = Math.atan2(
+    sinU1 * cosSigma + cosU1 * sinSigma * cosAlpha1,
+    (1 - WGS84_F) * Math.sqrt(sinAlpha * sinAlpha + x * x)
+  );
+  const lambda = Math.atan2(
+    sinSigma * sinAlpha1,
+    cosU1 * cosSigma - sinU1 * sinSigma * cosAlpha1
+  );
+  const C = (WGS84_F / 16) * cosSqAlpha * (4 + WGS84_F * (4 - 3 * cosSqAlpha));
+  const L =
+    lambda -
+    (1 - C) *
+      WGS84_F *
+      sinAlpha *
+      (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM ** 2)));
+
+  return {
+    coordinates: {
+      latitude: toDegrees(latitude),
+      longitude: wrapLongitude(from.longitude + toDegrees(L)),
+    },
+    finalBearing: normalizeAngle(toDegrees(Math.atan2(sinAlpha, -x))),
+  };
+}
+
+/**
+ * Distance along the meridian from the equator to a latitude (Krüger series)
+ * @param latitude Latitude in radians
+ * @returns Meridian arc length in meters
+ */
+export function meridianArc(latitude: number): number {
+  const n = WGS84_N;
+  const n2 = n * n;
+  const n3 = n2 * n;
+  const n4 = n3 * n;
+  return (
+    (WGS84_A / (1 + n)) *
+    ((1 + n2 / 4 + n4 / 64) * latitude -
+      1.5 * (n - n3 / 8) * Math.sin(2 * latitude) +
+      (15 / 16) * (n2 - n4 / 4) * Math.sin(4 * latitude) -
+      (35 / 48) * n3 * Math.sin(6 * latitude) +
+      (315 / 512) * n4 * Math.sin(8 * latitude))
+  );
+}
+
+/**
+ * Isometric latitude on the ellipsoid, the "stretched" latitude of the
+ * Mercator projection in which rhumb lines are straight
+ * @param latitude Latitude in radians
+ */
+function isometricLatitude(latitude: number): number {
+  const sinLatitude = Math.sin(latitude);
+  return Math.atanh(sinLatitude) - WGS84_E * Math.atanh(WGS84_E * sinLatitude);
+}
+
+/**
+ * Rhumb line legs (constant bearing) on the WGS-84 ellipsoid, taking the
+ * shorter way around in longitude
+ */
+function rhumbLeg(
+  from: Coordinates,
+  to: Coordinates
+): { deltaLongitude: number; deltaIsometric: number; deltaMeridian: number; latitude: number } {
+  const latitude1 = toRadians(from.latitude);
+  const latitude2 = toRadians(to.latitude);
+  return {
+    deltaLongitude: toRadians(wrapLongitude(to.longitude - from.longitude)),
+    deltaIsometric: isometricLatitude(latitude2) - isometricLatitude(latitude1),
+    deltaMeridian: meridianArc(latitude2) - meridianArc(latitude1),
+    latitude: latitude1,
+  };
+}
+
+/**
+ * Calculate the constant bearing (loxodrome) from one coordinate to another
+ * @param from Starting coordinate
+ * @param to Destination coordinate
+ * @returns Bearing in degrees (0-360, where 0 is North)
+ */
+export function rhumbBearing(from: Coordinates, to: Coordinates): number {
+  const { deltaLongitude, deltaIsometric } = rhumbLeg(from, to);
+  return normalizeAngle(toDegrees(Math.atan2(deltaLongitude, deltaIsometric)));
+}
+
+/**
+ * Calculate the distance along a rhumb line on the WGS-84 ellipsoid
+ * @param from Starting coordinate
+ * @param to Destination coordinate
+ * @returns Distance in meters
+ */
+export function rhumbDistance(from: Coordinates, to: Coordinates): number {
+  const { deltaLongitude, deltaIsometric, deltaMeridian, latitude } = rhumbLeg(from, to);
+
+  // Meters of easting per radian of longitude; on an east-west course this
+  // is the parallel radius, otherwise the ratio of meridian to isometric change
+  const sinLatitude = Math.sin(latitude);
+  const eastScale =
+    Math.abs(deltaIsometric) > 1e-12
+      ? deltaMeridian / deltaIsometric
+      : (WGS84_A * Math.cos(latitude)) / Math.sqrt(1 - WGS84_E2 * sinLatitude * sinLatitude);
+
+  return Math.hypot(deltaMeridian, eastScale * deltaLongitude);
+}
@@ -56,18 +56,45 @@ export function calculateBearing(from: Coordinates, to: Coordinates): number {
 }
 
 /**
- * Format distance for display
- * @param meters Distance in meters
- * @returns Formatted string with appropriate units
+ * Project a coordinate onto a local East-North plane around an origin
+ * (equirectangular approximation, accurate for a few kilometers)
+ * @param origin Origin of the local frame
+ * @param coord Coordinate to project
+ * @returns East and north offsets in meters
  */
-export function formatDistance(meters: number): string {
-  if (meters < 1000) {
-    return `${Math.round(meters)}m`;
-  } else if (meters < 10000) {
-    return `${(meters / 1000).toFixed(1)}km`;
-  } else {
-    return `${Math.round(meters / 1000)}km`;
-  }
+export function toLocalENU(
+  origin: Coordinates,
+  coord: Coordinates
+): { east: number; north: number } {
+  const deltaLatRad = toRadians(coord.latitude - origin.latitude);
+  // Take the short way across the antimeridian
+  const deltaLonRad = toRadians(angleDifference(origin.longitude, coord.longitude));
+
+  return {
+    east: EARTH_RADIUS_METERS * deltaLonRad * Math.cos(toRadians(origin.latitude)),
+    north: EARTH_RADIUS_METERS * deltaLatRad,
+  };
+}
+
+/**
+ * Convert local East-North offsets back to a coordinate
+ * @param origin Origin of the local frame
+ * @param east East offset in meters
+ * @param north North offset in meters
+ */
+export function fromLocalENU(
+  origin: Coordinates,
+  east: number,
+  north: number
+): Coordinates {
+  const longitude =
+    origin.longitude +
+    toDegrees(east / (EARTH_RADIUS_METERS * Math.cos(toRadians(origin.latitude))));
+
+  return {
+    latitude: origin.latitude + toDegrees(north / EARTH_RADIUS_METERS),
+    longitude: angleDifference(0, longitude), // back into -180..180
+  };
 }
 
 /**
@@ -0,0 +1,106 @@
+import { HapticGuidanceStyle } from '../types';
+
+// Which way to turn, or a confirmation that the user is on target
+export type HapticCue = 'left' | 'right' | 'aligned';
+
+/**
+ * Vibration patterns as alternating on/off durations in milliseconds,
+ * starting with a vibration. Each fits well inside the fastest pulse interval.
+ */
+export const HAPTIC_PATTERNS: Record<
+  Exclude<HapticGuidanceStyle, 'off'>,
+  Record<HapticCue, number[]>
+> = {
+  // Left taps twice, right once
+  taps: {
+    left: [40, 100, 40],
+    right: [40],
+    aligned: [250],
+  },
+  // Left is a short buzz, right a long one
+  length: {
+    left: [40],
+    right: [180],
+    aligned: [40, 80, 40, 80, 40],
+  },
+};
+
+const FASTEST_INTERVAL = 350; // ms between pulses right at the edge of the cone
+const SLOWEST_INTERVAL = 1600; // ms between pulses when facing away
+const ALIGNED_INTERVAL = 5000; // ms between confirmations while staying aligned
+const CONE_HYSTERESIS = 5; // degrees past the cone before counting as off target again
+
+/**
+ * Time between direction pulses. Pulses speed up as the user turns toward
+ * the target, so the rate alone tells how far there is to go.
+ * @param offset Absolute angle to the target in degrees
+ * @param cone Alignment half-angle in degrees
+ * @returns Interval in milliseconds
+ */
+export function pulseInterval(offset: number, cone: number): number {
+  const fraction = Math.max(0, Math.min(1, (offset - cone) / (180 - cone)));
+  return FASTEST_INTERVAL + (SLOWEST_INTERVAL - FASTEST_INTERVAL) * fraction;
+}
+
+/**
+ * Decides when to play which haptic cue for a changing relative angle.
+ * Call it often (every sensor update or on a timer); it returns a cue only
+ * when one is due.
+ */
+export class HapticGuidance {
+  private now: () => number;
+  private cone: number = 10;
+  private aligned = false;
+  private lastCueAt = -Infinity;
+
+  /**
+   * @param now Clock in milliseconds, replaceable for tests
+   */
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
+
+  /** Set the alignment half-angle in degrees */
+  setCone(cone: number): void {
+    this.cone = cone;
+  }
+
+  /**
+   * @param relativeAngle Degrees to the target, positive clockwise; null when unknown
+   * @returns The cue to play now, or null
+   */
+  update(relativeAngle: number | null): HapticCue | null {
+    if (relativeAngle === null) {
+      this.reset();
+      return null;
+    }
+
+    const now = this.now();
+    const offset = Math.abs(relativeAngle);
+
+    if (!this.aligned && offset <= this.cone) {
+      this.aligned = true;
+      this.lastCueAt = now;
+      return 'aligned';
+    }
+    if (this.aligned && offset > this.cone + CONE_HYSTERESIS) {
+      this.aligned = false;
+    }
+
+    if (this.aligned) {
+      if (now - this.lastCueAt < ALIGNED_INTERVAL) return null;
+      this.lastCueAt = now;
+      return 'aligned';
+    }
+
+    if (now - this.lastCueAt < pulseInterval(offset, this.cone)) return null;
+    this.lastCueAt = now;
+    return relativeAngle > 0 ? 'right' : 'left';
+  }
+
+  /** Forget the alignment state, e.g. when the target changes */
+  reset(): void {
+    this.aligned = false;
+    this.lastCueAt = -Infinity;
+  }
+}
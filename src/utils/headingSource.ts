@@ -0,0 +1,87 @@
+import { HeadingSource, LocationFix } from '../types';
+import { angleDifference, normalizeAngle } from './geolocation';
+
+/**
+ * GPS course older than this no longer describes the current motion
+ */
+export const COURSE_MAX_AGE_MS = 3000;
+
+export interface CourseBlend {
+  heading: number; // course over ground, degrees from true north
+  weight: number; // 0 = sensor only, 1 = course only
+  timestamp: number; // epoch milliseconds of the fix
+}
+
+/**
+ * Decides how much to trust the GPS course over the sensor heading.
+ * Switches to the course once the user moves faster than the threshold and
+ * only falls back below a lower exit speed, blending in between so the arrow
+ * does not jump at walking pace.
+ */
+export class CourseHeadingBlender {
+  private usingCourse: boolean = false;
+  private speedThreshold: number;
+  private readonly hysteresis: number;
+
+  /**
+   * @param speedThreshold Speed in m/s at which the GPS course takes over
+   * @param hysteresis Fraction of the threshold below which the sensor takes back over
+   */
+  constructor(speedThreshold: number = 1.5, hysteresis: number = 0.6) {
+    this.speedThreshold = speedThreshold;
+    this.hysteresis = Math.max(0, Math.min(0.95, hysteresis));
+  }
+
+  setSpeedThreshold(speedThreshold: number): void {
+    this.speedThreshold = speedThreshold;
+  }
+
+  /**
+   * @param fix Latest location fix
+   * @returns How to blend the course into the heading, or null to use the sensor only
+   */
+  update(fix: LocationFix): CourseBlend | null {
+    if (fix.speed === null || fix.heading === null) {
+      this.usingCourse = false;
+      return null;
+    }
+
+    const exitSpeed = this.speedThreshold * this.hysteresis;
+    if (!this.usingCourse && fix.speed >= this.speedThreshold) {
+      this.usingCourse = true;
+    } else if (this.usingCourse && fix.speed < exitSpeed) {
+      this.usingCourse = false;
+    }
+
+    if (!this.usingCourse) return null;
+
+    const weight = Math.max(
+      0,
+      Math.min(1, (fix.speed - exitSpeed) / (this.speedThreshold - exitSpeed))
+    );
+    return { heading: fix.heading, weight, timestamp: fix.timestamp };
+  }
+
+  reset(): void {
+    this.usingCourse = false;
+  }
+}
+
+/**
+ * Blend the sensor heading with the GPS course
+ * @param sensorHeading Heading from the sensors in degrees
+ * @param courseHeading Course over ground in the same north reference
+ * @param weight 0 = sensor only, 1 = course only
+ * @returns Blended heading (0-360) and which source dominates
+ */
+export function blendHeading(
+  sensorHeading: number,
+  courseHeading: number,
+  weight: number
+): { heading: number; source: HeadingSource } {
+  const heading = normalizeAngle(
+    sensorHeading + weight * angleDifference(sensorHeading, courseHeading)
+  );
+  const source: HeadingSource = weight >= 1 ? 'course' : weight <= 0 ? 'sensor' : 'blended';
+  return { heading, source };
+}
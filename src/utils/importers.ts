@@ -0,0 +1,332 @@
+import {
+  Coordinates,
+  ImportFormat,
+  ImportIssue,
+  ImportPreview,
+  RouteInput,
+  Waypoint,
+} from '../types';
+import { DEFAULT_ARRIVAL_RADIUS } from './route';
+import { XmlElement, childText, findElements, parseXml } from './xml';
+
+const IMPORTED_ICON = '📍';
+
+/**
+ * Check that a latitude/longitude pair is a real position
+ * @returns Coordinates, or an error message
+ */
+function validateCoordinates(latitude: number, longitude: number): Coordinates | string {
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    return 'Coordinates are missing or not numbers';
+  }
+  if (latitude < -90 || latitude > 90) {
+    return `Latitude ${latitude} is outside -90..90`;
+  }
+  if (longitude < -180 || longitude > 180) {
+    return `Longitude ${longitude} is outside -180..180`;
+  }
+  return { latitude, longitude };
+}
+
+/**
+ * Label a feature for error messages, e.g. "Placemark 3 (Summit)"
+ */
+function describeFeature(kind: string, index: number, name: string | null): string {
+  return name ? `${kind} ${index + 1} (${name})` : `${kind} ${index + 1}`;
+}
+
+/**
+ * Build a route from its points, skipping invalid ones
+ * @returns The route, or null if fewer than two usable points remain
+ */
+function buildRoute(
+  name: string,
+  points: { name: string | null; coordinates: Coordinates | string }[],
+  feature: string,
+  issues: ImportIssue[]
+): RouteInput | null {
+  const waypoints: Waypoint[] = [];
+  points.forEach((point, index) => {
+    if (typeof point.coordinates === 'string') {
+      issues.push({ feature, message: `Point ${index + 1} skipped: ${point.coordinates}` });
+      return;
+    }
+    waypoints.push({
+      name: point.name || `${name} ${index + 1}`,
+      coordinates: point.coordinates,
+      arrivalRadius: DEFAULT_ARRIVAL_RADIUS,
+    });
+  });
+
+  if (waypoints.length < 2) {
+    issues.push({ feature, message: 'A route needs at least two valid points' });
+    return null;
+  }
+  return { name, waypoints };
+}
+
+/**
+ * Strip the HTML KML descriptions often contain
+ */
+function plainText(text: string | null): string {
+  return (text ?? '')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function parseGpx(root: XmlElement): ImportPreview {
+  const preview: ImportPreview = { format: 'gpx', destinations: [], routes: [], issues: [] };
+
+  findElements(root, 'wpt').forEach((waypoint, index) => {
+    const name = childText(waypoint, 'name');
+    const coordinates = validateCoordinates(
+      parseFloat(waypoint.attributes.lat),
+      parseFloat(waypoint.attributes.lon)
+    );
+    if (typeof coordinates === 'string') {
+      const feature = describeFeature('Waypoint', index, name);
+      preview.issues.push({ feature, message: coordinates });
+      return;
+    }
+    preview.destinations.push({
+      name: name || `Waypoint ${index + 1}`,
+      description: plainText(childText(waypoint, 'desc') ?? childText(waypoint, 'cmt')),
+      coordinates,
+      icon: IMPORTED_ICON,
+    });
+  });
+
+  findElements(root, 'rte').forEach((route, index) => {
+    const name = childText(route, 'name');
+    const points = route.children
+      .filter((child) => child.name === 'rtept')
+      .map((point) => ({
+        name: childText(point, 'name'),
+        coordinates: validateCoordinates(
+          parseFloat(point.attributes.lat),
+          parseFloat(point.attributes.lon)
+        ),
+      }));
+    const built = buildRoute(
+      name || `Route ${index + 1}`,
+      points,
+      describeFeature('Route', index, name),
+      preview.issues
+    );
+    if (built) preview.routes.push(built);
+  });
+
+  findElements(root, 'trk').forEach((track, index) => {
+    preview.issues.push({
+      feature: describeFeature('Track', index, childText(track, 'name')),
+      message: 'Recorded tracks are not imported; only waypoints and routes',
+    });
+  });
+
+  return preview;
+}
+
+/**
+ * Parse a KML coordinates string ("lon,lat[,alt] lon,lat[,alt] ...")
+ */
+function parseKmlCoordinates(text: string): (Coordinates | string)[] {
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((tuple) => {
+      const [longitude, latitude] = tuple.split(',').map(Number);
+      return validateCoordinates(latitude, longitude);
+    });
+}
+
+function parseKml(root: XmlElement): ImportPreview {
+  const preview: ImportPreview = { format: 'kml', destinations: [], routes: [], issues: [] };
+
+  findElements(root, 'Placemark').forEach((placemark, index) => {
+    const name = childText(placemark, 'name');
+    const feature = describeFeature('Placemark', index, name);
+    const point = findElements(placemark, 'Point')[0];
+    const line = findElements(placemark, 'LineString')[0];
+
+    if (point) {
+      const [coordinates = 'Point has no coordinates'] = parseKmlCoordinates(
+        childText(point, 'coordinates') ?? ''
+      );
+      if (typeof coordinates === 'string') {
+        preview.issues.push({ feature, message: coordinates });
+        return;
+      }
+      preview.destinations.push({
+        name: name || `Placemark ${index + 1}`,
+        description: plainText(childText(placemark, 'description')),
+        coordinates,
+        icon: IMPORTED_ICON,
+      });
+    } else if (line) {
+      const routeName = name || `Placemark ${index + 1}`;
+      const points = parseKmlCoordinates(childText(line, 'coordinates') ?? '').map(
+        (coordinates) => ({ name: null, coordinates })
+      );
+      const built = buildRoute(routeName, points, feature, preview.issues);
+      if (built) preview.routes.push(built);
+    } else {
+      const geometry = placemark.children.find((child) =>
+        ['Polygon', 'MultiGeometry', 'LinearRing', 'Model', 'Track', 'MultiTrack'].includes(
+          child.name
+        )
+      );
+      preview.issues.push({
+        feature,
+        message: geometry
+          ? `${geometry.name} geometry is not supported; use a Point or LineString`
+          : 'Placemark has no geometry',
+      });
+    }
+  });
+
+  return preview;
+}
+
+/**
+ * Read a GeoJSON position ([longitude, latitude, altitude?])
+ */
+function parsePosition(position: unknown): Coordinates | string {
+  if (!Array.isArray(position) || position.length < 2) {
+    return 'Position must be [longitude, latitude]';
+  }
+  return validateCoordinates(Number(position[1]), Number(position[0]));
+}
+
+/**
+ * Narrow parsed JSON to an object, or null for anything else
+ */
+function asObject(value: unknown): Record<string, unknown> | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+function parseGeoJson(value: unknown): ImportPreview | string {
+  const preview: ImportPreview = { format: 'geojson', destinations: [], routes: [], issues: [] };
+  const data = asObject(value);
+
+  let features: unknown[];
+  if (data?.type === 'FeatureCollection' && Array.isArray(data.features)) {
+    features = data.features;
+  } else if (data?.type === 'Feature') {
+    features = [data];
+  } else if (data && typeof data.type === 'string' && 'coordinates' in data) {
+    features = [{ type: 'Feature', properties: {}, geometry: data }];
+  } else {
+    return 'Not a GeoJSON Feature, FeatureCollection or geometry';
+  }
+
+  features.forEach((featureValue, index) => {
+    const featureData = asObject(featureValue);
+    const properties = asObject(featureData?.properties) ?? {};
+    const name: string | null =
+      typeof properties.name === 'string'
+        ? properties.name
+        : typeof properties.title === 'string'
+          ? properties.title
+          : null;
+    const description: string =
+      typeof properties.description === 'string'
+        ? properties.description
+        : typeof properties.desc === 'string'
+          ? properties.desc
+          : '';
+    const feature = describeFeature('Feature', index, name);
+    const geometry = asObject(featureData?.geometry);
+
+    if (!geometry) {
+      preview.issues.push({ feature, message: 'Feature has no geometry' });
+    } else if (geometry.type === 'Point') {
+      const coordinates = parsePosition(geometry.coordinates);
+      if (typeof coordinates === 'string') {
+        preview.issues.push({ feature, message: coordinates });
+        return;
+      }
+      preview.destinations.push({
+        name: name || `Feature ${index + 1}`,
+        description: plainText(description),
+        coordinates,
+        icon: typeof properties.icon === 'string' ? properties.icon : IMPORTED_ICON,
+      });
+    } else if (geometry.type === 'LineString') {
+      if (!Array.isArray(geometry.coordinates)) {
+        preview.issues.push({ feature, message: 'LineString coordinates must be an array' });
+        return;
+      }
+      const points = geometry.coordinates.map((position) => ({
+        name: null,
+        coordinates: parsePosition(position),
+      }));
+      const built = buildRoute(name || `Feature ${index + 1}`, points, feature, preview.issues);
+      if (built) preview.routes.push(built);
+    } else {
+      preview.issues.push({
+        feature,
+        message: `${String(geometry.type)} geometry is not supported; use a Point or LineString`,
+      });
+    }
+  });
+
+  return preview;
+}
+
+/**
+ * Work out the format from the file name, falling back to the content
+ */
+function detectFormat(content: string, fileName?: string): ImportFormat | null {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'gpx' || extension === 'kml') return extension;
+  if (extension === 'geojson' || extension === 'json') return 'geojson';
+
+  const start = content.trimStart();
+  if (start.startsWith('{')) return 'geojson';
+  if (/<gpx[\s>]/.test(start)) return 'gpx';
+  if (/<kml[\s>]/.test(start)) return 'kml';
+  return null;
+}
+
+/**
+ * Parse a GPX, KML or GeoJSON file into destinations and routes.
+ * Problems with individual features are reported in the preview's issues;
+ * only an unreadable file fails as a whole.
+ * @param content File contents
+ * @param fileName Original file name, used to pick the format
+ * @returns A preview of what would be imported, or an error message
+ */
+export function parseImportFile(content: string, fileName?: string): ImportPreview | string {
+  if (fileName?.toLowerCase().endsWith('.kmz')) {
+    return 'KMZ files are compressed; export as plain KML instead';
+  }
+
+  const format = detectFormat(content, fileName);
+  if (!format) {
+    return 'Unsupported file; choose a GPX, KML or GeoJSON file';
+  }
+
+  if (format === 'geojson') {
+    try {
+      return parseGeoJson(JSON.parse(content));
+    } catch (error) {
+      return `Invalid JSON: ${(error as Error).message}`;
+    }
+  }
+
+  const root = parseXml(content);
+  if (typeof root === 'string') {
+    return `Invalid XML: ${root}`;
+  }
+  if (format === 'gpx' && root.name !== 'gpx') {
+    return 'The file is not a GPX document';
+  }
+  if (format === 'kml' && root.name !== 'kml') {
+    return 'The file is not a KML document';
+  }
+  return format === 'gpx' ? parseGpx(root) : parseKml(root);
+}
@@ -0,0 +1,182 @@
+import { Coordinates } from '../types';
+import { toRadians, toDegrees } from './geolocation';
+import {
+  WMM_COEFFICIENTS,
+  WMM_EPOCH,
+  WMM_MAX_DEGREE,
+  WMM_VALID_UNTIL,
+} from './wmmCoefficients';
+
+/**
+ * WGS-84 ellipsoid parameters (kilometers)
+ */
+const WGS84_A = 6378.137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_E2 = WGS84_F * (2 - WGS84_F);
+
+/**
+ * Geomagnetic reference radius used by the spherical harmonic expansion (km)
+ */
+const REFERENCE_RADIUS_KM = 6371.2;
+
+// Only warn once that the coefficients are out of date
+let hasWarnedExtrapolated = false;
+
+export interface MagneticField {
+  declination: number; // degrees, positive = magnetic north is east of true north
+  inclination: number; // degrees, positive = field points down
+  north: number; // nT
+  east: number; // nT
+  down: number; // nT
+  horizontalIntensity: number; // nT
+  totalIntensity: number; // nT
+  extrapolated: boolean; // the date is outside the model's validity, so accuracy degrades
+}
+
+/**
+ * Convert a date to a decimal year (e.g. 2026.5 for early July 2026)
+ */
+export function toDecimalYear(date: Date): number {
+  const year = date.getUTCFullYear();
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  return year + (date.getTime() - start) / (end - start);
+}
+
+/**
+ * Evaluate the World Magnetic Model at a location and date
+ * @param location Geodetic coordinate
+ * @param date Date of the evaluation (defaults to now)
+ * @param altitudeMeters Height above the WGS-84 ellipsoid
+ * @returns Magnetic field components in the local geodetic frame
+ */
+export function calculateMagneticField(
+  location: Coordinates,
+  date: Date = new Date(),
+  altitudeMeters: number = 0
+): MagneticField {
+  const maxN = WMM_MAX_DEGREE;
+  const year = toDecimalYear(date);
+  const dt = year - WMM_EPOCH;
+
+  const extrapolated = year < WMM_EPOCH || year >= WMM_VALID_UNTIL;
+  if (extrapolated && !hasWarnedExtrapolated) {
+    hasWarnedExtrapolated = true;
+    console.warn(
+      `World Magnetic Model ${WMM_EPOCH} is valid until ${WMM_VALID_UNTIL}; ` +
+        `declination for ${year.toFixed(1)} is extrapolated and may be off by a degree or more`
+    );
+  }
+
+  // Time-adjusted Gauss coefficients
+  const g: number[][] = [];
+  const h: number[][] = [];
+  for (let n = 0; n <= maxN; n++) {
+    g.push(new Array(maxN + 1).fill(0));
+    h.push(new Array(maxN + 1).fill(0));
+  }
+  for (const [n, m, gnm, hnm, dgnm, dhnm] of WMM_COEFFICIENTS) {
+    g[n][m] = gnm + dt * dgnm;
+    h[n][m] = hnm + dt * dhnm;
+  }
+
+  // Geodetic to geocentric spherical coordinates
+  const latRad = toRadians(location.latitude);
+  const lonRad = toRadians(location.longitude);
+  const altitudeKm = altitudeMeters / 1000;
+  const sinLat = Math.sin(latRad);
+  const cosLat = Math.cos(latRad);
+  const primeVerticalRadius = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+  const p = (primeVerticalRadius + altitudeKm) * cosLat;
+  const z = (primeVerticalRadius * (1 - WGS84_E2) + altitudeKm) * sinLat;
+  const r = Math.sqrt(p * p + z * z);
+  const geocentricLat = Math.asin(z / r);
+
+  // Colatitude terms; keep sin(theta) away from zero at the poles
+  const cosTheta = Math.sin(geocentricLat);
+  const sinTheta = Math.max(Math.cos(geocentricLat), 1e-10);
+
+  // Schmidt semi-normalized associated Legendre functions and their
+  // derivatives with respect to colatitude
+  const P: number[][] = [];
+  const dP: number[][] = [];
+  for (let n = 0; n <= maxN; n++) {
+    P.push(new Array(maxN + 1).fill(0));
+    dP.push(new Array(maxN + 1).fill(0));
+  }
+  P[0][0] = 1;
+  P[1][0] = cosTheta;
+  P[1][1] = sinTheta;
+  dP[1][0] = -sinTheta;
+  dP[1][1] = cosTheta;
+
+  for (let n = 2; n <= maxN; n++) {
+    const k = Math.sqrt((2 * n - 1) / (2 * n));
+    P[n][n] = k * sinTheta * P[n - 1][n - 1];
+    dP[n][n] = k * (sinTheta * dP[n - 1][n - 1] + cosTheta * P[n - 1][n - 1]);
+
+    for (let m = 0; m < n; m++) {
+      const a = Math.sqrt(n * n - m * m);
+      const b = Math.sqrt((n - 1) * (n - 1) - m * m);
+      P[n][m] = ((2 * n - 1) * cosTheta * P[n - 1][m] - b * P[n - 2][m]) / a;
+      dP[n][m] =
+        ((2 * n - 1) * (cosTheta * dP[n - 1][m] - sinTheta * P[n - 1][m]) -
+          b * dP[n - 2][m]) /
+        a;
+    }
+  }
+
+  // Sum the spherical harmonic series
+  let bRadial = 0;
+  let bTheta = 0;
+  let bPhi = 0;
+  const ratio = REFERENCE_RADIUS_KM / r;
+  let radiusTerm = ratio * ratio;
+
+  for (let n = 1; n <= maxN; n++) {
+    radiusTerm *= ratio; // (a/r)^(n+2)
+    for (let m = 0; m <= n; m++) {
+      const cosM = Math.cos(m * lonRad);
+      const sinM = Math.sin(m * lonRad);
+      const gh = g[n][m] * cosM + h[n][m] * sinM;
+
+      bRadial += (n + 1) * radiusTerm * gh * P[n][m];
+      bTheta -= radiusTerm * gh * dP[n][m];
+      bPhi += (radiusTerm * m * (g[n][m] * sinM - h[n][m] * cosM) * P[n][m]) / sinTheta;
+    }
+  }
+
+  // Geocentric north/east/down, rotated into the geodetic frame
+  const northGeocentric = -bTheta;
+  const downGeocentric = -bRadial;
+  const psi = geocentricLat - latRad;
+  const north = northGeocentric * Math.cos(psi) - downGeocentric * Math.sin(psi);
+  const east = bPhi;
+  const down = northGeocentric * Math.sin(psi) + downGeocentric * Math.cos(psi);
+
+  const horizontalIntensity = Math.sqrt(north * north + east * east);
+
+  return {
+    declination: toDegrees(Math.atan2(east, north)),
+    inclination: toDegrees(Math.atan2(down, horizontalIntensity)),
+    north,
+    east,
+    down,
+    horizontalIntensity,
+    totalIntensity: Math.sqrt(horizontalIntensity * horizontalIntensity + down * down),
+    extrapolated,
+  };
+}
+
+/**
+ * Calculate the magnetic declination (variation) at a location
+ * @param location Geodetic coordinate
+ * @param date Date of the evaluation (defaults to now)
+ * @returns Declination in degrees, positive when magnetic north is east of true north
+ */
+export function calculateDeclination(
+  location: Coordinates,
+  date: Date = new Date()
+): number {
+  return calculateMagneticField(location, date).declination;
+}
@@ -0,0 +1,324 @@
+import { MagnetometerCalibration, Vector3 } from '../types';
+
+/**
+ * Number of equal-area bands (by z) and azimuth sectors used to measure how
+ * much of the sphere of field directions the samples cover
+ */
+export const COVERAGE_BANDS = 6;
+export const COVERAGE_SECTORS = 12;
+
+/**
+ * Minimum requirements before an ellipsoid fit is attempted
+ */
+export const MIN_CALIBRATION_SAMPLES = 50;
+export const MIN_CALIBRATION_COVERAGE = 0.4;
+
+/**
+ * Relative radius error at which the fit quality drops to zero
+ */
+const MAX_ACCEPTABLE_RESIDUAL = 0.15;
+
+type Matrix3 = number[][];
+
+/**
+ * Apply hard-iron and soft-iron correction to a raw magnetometer sample
+ */
+export function applyMagnetometerCalibration(
+  sample: Vector3,
+  calibration: MagnetometerCalibration
+): Vector3 {
+  const { hardIron, softIron } = calibration;
+  const x = sample.x - hardIron.x;
+  const y = sample.y - hardIron.y;
+  const z = sample.z - hardIron.z;
+
+  return {
+    x: softIron[0][0] * x + softIron[0][1] * y + softIron[0][2] * z,
+    y: softIron[1][0] * x + softIron[1][1] * y + softIron[1][2] * z,
+    z: softIron[2][0] * x + softIron[2][1] * y + softIron[2][2] * z,
+  };
+}
+
+/**
+ * Rough hard-iron estimate from the per-axis extremes, used to visualise
+ * coverage while samples are still being collected
+ */
+export function estimateCenter(samples: Vector3[]): Vector3 {
+  if (samples.length === 0) return { x: 0, y: 0, z: 0 };
+
+  const min = { ...samples[0] };
+  const max = { ...samples[0] };
+  for (const s of samples) {
+    min.x = Math.min(min.x, s.x);
+    min.y = Math.min(min.y, s.y);
+    min.z = Math.min(min.z, s.z);
+    max.x = Math.max(max.x, s.x);
+    max.y = Math.max(max.y, s.y);
+    max.z = Math.max(max.z, s.z);
+  }
+
+  return {
+    x: (min.x + max.x) / 2,
+    y: (min.y + max.y) / 2,
+    z: (min.z + max.z) / 2,
+  };
+}
+
+/**
+ * Find which coverage cell a field direction falls into
+ * @returns Index into a COVERAGE_BANDS x COVERAGE_SECTORS grid (row-major), or -1
+ */
+export function coverageCell(direction: Vector3): number {
+  const length = Math.sqrt(
+    direction.x * direction.x + direction.y * direction.y + direction.z * direction.z
+  );
+  if (length === 0) return -1;
+
+  // Bands of equal height in z have equal area on the unit sphere
+  const z = direction.z / length;
+  const band = Math.min(COVERAGE_BANDS - 1, Math.floor(((z + 1) / 2) * COVERAGE_BANDS));
+
+  const azimuth = Math.atan2(direction.y, direction.x) + Math.PI;
+  const sector = Math.min(
+    COVERAGE_SECTORS - 1,
+    Math.floor((azimuth / (2 * Math.PI)) * COVERAGE_SECTORS)
+  );
+
+  return band * COVERAGE_SECTORS + sector;
+}
+
+/**
+ * Mark the coverage cells hit by a set of samples
+ * @param samples Raw or corrected samples
+ * @param center Point the directions are measured from
+ * @returns Boolean grid of COVERAGE_BANDS x COVERAGE_SECTORS cells (row-major)
+ */
+export function calculateCoverage(samples: Vector3[], center: Vector3): boolean[] {
+  const cells = new Array(COVERAGE_BANDS * COVERAGE_SECTORS).fill(false);
+
+  for (const s of samples) {
+    const cell = coverageCell({
+      x: s.x - center.x,
+      y: s.y - center.y,
+      z: s.z - center.z,
+    });
+    if (cell >= 0) cells[cell] = true;
+  }
+
+  return cells;
+}
+
+/**
+ * Fit an ellipsoid to raw magnetometer samples and derive the correction
+ * that maps it back onto a sphere.
+ *
+ * Solves  x'Mx + 2v'x = 1  by linear least squares, then takes the centre as
+ * the hard-iron bias and the symmetric square root of the shape matrix as the
+ * soft-iron correction (scaled so the corrected radius keeps the field strength).
+ *
+ * @param samples Raw magnetometer samples (any consistent unit, e.g. µT)
+ * @returns The calibration, or null if the samples do not describe an ellipsoid
+ */
+export function fitMagnetometerCalibration(
+  samples: Vector3[]
+): MagnetometerCalibration | null {
+  if (samples.length < MIN_CALIBRATION_SAMPLES) return null;
+
+  // Work around the mean for better conditioning
+  const mean = { x: 0, y: 0, z: 0 };
+  for (const s of samples) {
+    mean.x += s.x / samples.length;
+    mean.y += s.y / samples.length;
+    mean.z += s.z / samples.length;
+  }
+
+  // Accumulate normal equations for [A B C D E F G H I]
+  const normal: number[][] = Array.from({ length: 9 }, () => new Array(9).fill(0));
+  const rhs: number[] = new Array(9).fill(0);
+
+  for (const s of samples) {
+    const x = s.x - mean.x;
+    const y = s.y - mean.y;
+    const z = s.z - mean.z;
+    const row = [x * x, y * y, z * z, 2 * x * y, 2 * x * z, 2 * y * z, 2 * x, 2 * y, 2 * z];
+
+    for (let i = 0; i < 9; i++) {
+      rhs[i] += row[i];
+      for (let j = 0; j < 9; j++) {
+        normal[i][j] += row[i] * row[j];
+      }
+    }
+  }
+
+  const p = solveLinearSystem(normal, rhs);
+  if (!p) return null;
+
+  const [A, B, C, D, E, F, G, H, I] = p;
+  const shape: Matrix3 = [
+    [A, D, E],
+    [D, B, F],
+    [E, F, C],
+  ];
+
+  // Centre of the ellipsoid: c = -M^-1 v
+  const center = solveLinearSystem(shape, [-G, -H, -I]);
+  if (!center) return null;
+
+  // Normalise so that (x - c)'M(x - c) = 1
+  const k =
+    1 +
+    center[0] * (A * center[0] + D * center[1] + E * center[2]) +
+    center[1] * (D * center[0] + B * center[1] + F * center[2]) +
+    center[2] * (E * center[0] + F * center[1] + C * center[2]);
+  if (!(k > 0)) return null;
+
+  const { values, vectors } = symmetricEigen3(shape.map((r) => r.map((v) => v / k)));
+  if (values.some((v) => !(v > 0))) return null;
+
+  // Geometric mean of the semi-axes becomes the corrected field strength
+  const fieldStrength = Math.pow(values[0] * values[1] * values[2], -1 / 6);
+
+  // softIron = R * V diag(sqrt(lambda)) V'
+  const softIron: Matrix3 = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ];
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      let sum = 0;
+      for (let e = 0; e < 3; e++) {
+        sum += vectors[i][e] * Math.sqrt(values[e]) * vectors[j][e];
+      }
+      softIron[i][j] = fieldStrength * sum;
+    }
+  }
+
+  const calibration: MagnetometerCalibration = {
+    hardIron: {
+      x: mean.x + center[0],
+      y: mean.y + center[1],
+      z: mean.z + center[2],
+    },
+    softIron,
+    fieldStrength,
+    residual: 0,
+    coverage: 0,
+    quality: 0,
+    createdAt: Date.now(),
+  };
+
+  return { ...calibration, ...scoreCalibration(samples, calibration) };
+}
+
+/**
+ * Score how well a calibration maps the samples onto a sphere
+ * @returns Relative RMS radius error, sphere coverage (0-1) and overall quality (0-100)
+ */
+export function scoreCalibration(
+  samples: Vector3[],
+  calibration: MagnetometerCalibration
+): Pick<MagnetometerCalibration, 'residual' | 'coverage' | 'quality'> {
+  const corrected = samples.map((s) => applyMagnetometerCalibration(s, calibration));
+
+  let sumSquares = 0;
+  for (const c of corrected) {
+    const radius = Math.sqrt(c.x * c.x + c.y * c.y + c.z * c.z);
+    const error = (radius - calibration.fieldStrength) / calibration.fieldStrength;
+    sumSquares += error * error;
+  }
+  const residual = Math.sqrt(sumSquares / Math.max(1, corrected.length));
+
+  const cells = calculateCoverage(corrected, { x: 0, y: 0, z: 0 });
+  const coverage = cells.filter(Boolean).length / cells.length;
+
+  const fitScore = Math.max(0, 1 - residual / MAX_ACCEPTABLE_RESIDUAL);
+  const quality = Math.round(100 * fitScore * Math.min(1, coverage / 0.8));
+
+  return { residual, coverage, quality };
+}
+
+/**
+ * Solve A x = b with Gaussian elimination and partial pivoting
+ * @returns The solution, or null if A is singular
+ */
+function solveLinearSystem(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) {
+        m[row][k] -= factor * m[col][k];
+      }
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) {
+      sum -= m[row][k] * x[k];
+    }
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+/**
+ * Eigen-decomposition of a symmetric 3x3 matrix (cyclic Jacobi rotations)
+ * @returns Eigenvalues and eigenvectors as matrix columns
+ */
+function symmetricEigen3(input: Matrix3): { values: number[]; vectors: Matrix3 } {
+  const a = input.map((row) => [...row]);
+  const v: Matrix3 = [
+    [1, 0, 0],
+    [0, 1, 0],
+    [0, 0, 1],
+  ];
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    const offDiagonal = Math.abs(a[0][1]) + Math.abs(a[0][2]) + Math.abs(a[1][2]);
+    if (offDiagonal < 1e-15) break;
+
+    for (let p = 0; p < 2; p++) {
+      for (let q = p + 1; q < 3; q++) {
+        if (Math.abs(a[p][q]) < 1e-18) continue;
+
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < 3; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < 3; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < 3; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  return { values: [a[0][0], a[1][1], a[2][2]], vectors: v };
+}
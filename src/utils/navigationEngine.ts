@@ -0,0 +1,656 @@
+import {
+  AppError,
+  AppSettings,
+  Coordinates,
+  Destination,
+  HeadingSource,
+  LocationFix,
+  NavigationData,
+  ProximityEvent,
+  Route,
+  TripStats,
+} from '../types';
+import { angleDifference, calculateDistance, normalizeAngle } from './geolocation';
+import { geodesicInverse, rhumbBearing, rhumbDistance } from './geodesic';
+import { advanceLeg, calculateRemainingRouteDistance } from './route';
+import { calculateDeclination } from './magneticModel';
+import {
+  CourseBlend,
+  CourseHeadingBlender,
+  COURSE_MAX_AGE_MS,
+  blendHeading,
+} from './headingSource';
+import { TripStatsTracker } from './tripStats';
+import { ProximityTracker } from './proximity';
+import { createAppError } from './errors';
+
+// How long to wait for the first fix before warning about it
+const LOCATION_TIMEOUT = 30000; // ms
+
+// A sensor heading older than this is dropped: Android pauses the sensors
+// while the app is in the background, and the last heading soon points wrong
+const HEADING_MAX_AGE = 1000; // ms
+
+/**
+ * Where location fixes come from. LocationService is the app's implementation;
+ * tests can pass an object that emits fixes on demand.
+ */
+export interface LocationProvider {
+  hasPermissions(): Promise<boolean>;
+  requestPermissions(): Promise<boolean>;
+  hasServicesEnabled(): Promise<boolean>;
+  getCurrentLocation(): Promise<LocationFix | null>;
+  startWatching(): Promise<boolean>;
+  stopWatching(): void;
+  addListener(listener: (location: LocationFix) => void): () => void;
+}
+
+/**
+ * Where the magnetic heading comes from. SensorService is the app's implementation.
+ */
+export interface HeadingProvider {
+  checkAvailability(): Promise<{ deviceMotion: boolean; magnetometer: boolean }>;
+  startSensors(): Promise<boolean>;
+  stopSensors(): void;
+  addListener(
+    listener: (heading: number, pitch: number, roll: number, uncertainty: number | null) => void
+  ): () => void;
+}
+
+export type NavigationEngineSettings = Pick<
+  AppSettings,
+  | 'northReference'
+  | 'guidanceMode'
+  | 'courseHeading'
+  | 'courseSpeedThreshold'
+  | 'proximityAlerts'
+  | 'proximityRings'
+>;
+
+export interface NavigationEngineStatus {
+  isLocationPermissionGranted: boolean;
+  isSensorActive: boolean;
+  error: AppError | null;
+}
+
+export interface ProximityAlert {
+  event: ProximityEvent;
+  targetName: string; // the waypoint or destination the rings are around
+  isFinalTarget: boolean; // false for intermediate route waypoints
+}
+
+// Payload of each event the engine emits
+export interface NavigationEngineEvents {
+  data: NavigationData;
+  tripStats: TripStats;
+  proximity: ProximityAlert;
+  status: NavigationEngineStatus;
+}
+
+type Listener<K extends keyof NavigationEngineEvents> = (
+  payload: NavigationEngineEvents[K]
+) => void;
+
+/**
+ * Recalculate the target, distance, bearing and relative angle for the
+ * current destination or route leg, auto-advancing past reached waypoints.
+ * Heading and bearing are both expressed relative to the chosen north reference.
+ * While moving, the GPS course replaces or blends into the sensor heading.
+ * @param now Current time in milliseconds, to age the GPS course
+ */
+export function computeNavigationData(
+  state: NavigationData,
+  course: CourseBlend | null,
+  now: number
+): NavigationData {
+  const { userLocation, route, magneticHeading, northReference, guidanceMode } = state;
+  const declination = state.declination ?? 0;
+
+  // Combine in true north, since that is what the GPS course is reported in
+  let trueHeading =
+    magneticHeading !== null ? normalizeAngle(magneticHeading + declination) : null;
+  let headingSource: HeadingSource = 'sensor';
+
+  if (course && course.weight > 0 && now - course.timestamp <= COURSE_MAX_AGE_MS) {
+    if (trueHeading === null) {
+      trueHeading = course.heading;
+      headingSource = 'course';
+    } else {
+      const blended = blendHeading(trueHeading, course.heading, course.weight);
+      trueHeading = blended.heading;
+      headingSource = blended.source;
+    }
+  }
+
+  let deviceHeading: number | null = null;
+  if (trueHeading !== null) {
+    deviceHeading =
+      northReference === 'true' ? trueHeading : normalizeAngle(trueHeading - declination);
+  }
+
+  let currentLegIndex: number | null = null;
+  let targetLocation = state.destination?.coordinates ?? null;
+  let remainingRouteDistance: number | null = null;
+
+  if (route) {
+    const lastIndex = route.waypoints.length - 1;
+    currentLegIndex = Math.max(0, Math.min(state.currentLegIndex ?? 0, lastIndex));
+
+    if (lastIndex < 0) {
+      targetLocation = null;
+    } else {
+      if (userLocation) {
+        currentLegIndex = advanceLeg(userLocation, route.waypoints, currentLegIndex);
+        remainingRouteDistance = calculateRemainingRouteDistance(
+          userLocation,
+          route.waypoints,
+          currentLegIndex
+        );
+      }
+      targetLocation = route.waypoints[currentLegIndex].coordinates;
+    }
+  }
+
+  if (!userLocation || !targetLocation) {
+    return {
+      ...state,
+      currentLegIndex,
+      targetLocation,
+      deviceHeading,
+      headingSource,
+      distance: null,
+      distanceToWaypoint: null,
+      remainingRouteDistance: null,
+      bearing: null,
+      relativeAngle: null,
+    };
+  }
+
+  let distance: number;
+  let trueBearing: number;
+  if (guidanceMode === 'rhumb') {
+    distance = rhumbDistance(userLocation, targetLocation);
+    trueBearing = rhumbBearing(userLocation, targetLocation);
+  } else {
+    const geodesic = geodesicInverse(userLocation, targetLocation);
+    distance = geodesic.distance;
+    trueBearing = geodesic.initialBearing;
+  }
+  const bearing =
+    northReference === 'true' ? trueBearing : normalizeAngle(trueBearing - declination);
+
+  let relativeAngle = null;
+  if (deviceHeading !== null) {
+    relativeAngle = angleDifference(deviceHeading, bearing);
+  }
+
+  return {
+    ...state,
+    currentLegIndex,
+    targetLocation,
+    deviceHeading,
+    headingSource,
+    distance,
+    distanceToWaypoint: route ? distance : null,
+    remainingRouteDistance,
+    bearing,
+    relativeAngle,
+  };
+}
+
+/**
+ * Turns location fixes and compass headings into NavigationData for a
+ * destination or route, along with trip statistics and proximity ring
+ * crossings. Free of React and of the service singletons: location and
+ * heading come from injected providers and the clock is replaceable, so the
+ * same engine runs in the app, in a background task or in a test.
+ */
+export class NavigationEngine {
+  private locationProvider: LocationProvider;
+  private headingProvider: HeadingProvider;
+  private now: () => number;
+  private settings: NavigationEngineSettings;
+  private data: NavigationData;
+  private status: NavigationEngineStatus = {
+    isLocationPermissionGranted: false,
+    isSensorActive: false,
+    error: null,
+  };
+  private courseBlender: CourseHeadingBlender;
+  private course: CourseBlend | null = null;
+  private tripTracker: TripStatsTracker;
+  private tripKey: string = '';
+  private proximityTracker: ProximityTracker;
+  private proximityTargetKey: string | null = null;
+  private proximityArrived = false; // an arrival was reported for the current target
+  private run: number = 0; // bumped by start() and stop() so a stale start gives up
+  private unsubscribes: (() => void)[] = [];
+  private locationTimeout: ReturnType<typeof setTimeout> | null = null;
+  private warningBeforeTimeout: AppError | null = null; // shown again once a fix arrives
+  private headingTimeout: ReturnType<typeof setTimeout> | null = null;
+  private listeners: { [K in keyof NavigationEngineEvents]: Set<Listener<K>> } = {
+    data: new Set(),
+    tripStats: new Set(),
+    proximity: new Set(),
+    status: new Set(),
+  };
+
+  /**
+   * @param locationProvider Source of location fixes
+   * @param headingProvider Source of the magnetic heading
+   * @param settings Initial navigation settings
+   * @param now Clock in milliseconds, replaceable for tests
+   */
+  constructor(
+    locationProvider: LocationProvider,
+    headingProvider: HeadingProvider,
+    settings: NavigationEngineSettings,
+    now: () => number = Date.now
+  ) {
+    this.locationProvider = locationProvider;
+    this.headingProvider = headingProvider;
+    this.settings = settings;
+    this.now = now;
+    this.courseBlender = new CourseHeadingBlender(settings.courseSpeedThreshold);
+    this.tripTracker = new TripStatsTracker(now());
+    this.proximityTracker = new ProximityTracker(settings.proximityRings);
+    this.data = this.compute({
+      userLocation: null,
+      destination: null,
+      route: null,
+      currentLegIndex: null,
+      targetLocation: null,
+      distance: null,
+      distanceToWaypoint: null,
+      remainingRouteDistance: null,
+      bearing: null,
+      magneticHeading: null,
+      deviceHeading: null,
+      headingSource: 'sensor',
+      headingUncertainty: null,
+      relativeAngle: null,
+      declination: null,
+      northReference: settings.northReference,
+      guidanceMode: settings.guidanceMode,
+    });
+  }
+
+  /** Latest navigation data */
+  getData(): NavigationData {
+    return this.data;
+  }
+
+  /** Statistics of the current trip */
+  getTripStats(): TripStats {
+    return this.tripTracker.getStats();
+  }
+
+  /** Permission, sensor and error state of the providers */
+  getStatus(): NavigationEngineStatus {
+    return this.status;
+  }
+
+  /**
+   * Subscribe to an engine event
+   * @returns Unsubscribe function
+   */
+  on<K extends keyof NavigationEngineEvents>(type: K, listener: Listener<K>): () => void {
+    const listeners = this.listeners[type] as Set<Listener<K>>;
+    listeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Ask for permissions and start both providers. Calling start() again, or
+   * stop(), while this is still starting abandons it.
+   */
+  async start(): Promise<void> {
+    this.stop();
+    const run = this.run;
+    this.setStatus({ error: null });
+
+    const startedLocation = await this.startLocation(run);
+    if (!startedLocation || run !== this.run) return;
+    await this.startHeading(run);
+  }
+
+  /**
+   * Stop both providers and stop listening to them
+   */
+  stop(): void {
+    this.run++;
+    this.warningBeforeTimeout = null;
+    this.unsubscribes.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribes = [];
+    this.clearLocationTimeout();
+    this.clearHeadingTimeout();
+    this.locationProvider.stopWatching();
+    this.headingProvider.stopSensors();
+  }
+
+  /**
+   * Navigate to a destination, or along a route
+   * @param legIndex Leg to navigate to on the route; by default the current leg
+   * is kept on the same route and a different route starts from its first leg
+   */
+  setTarget(destination: Destination | null, route: Route | null, legIndex?: number | null): void {
+    const previous = this.data;
+    let currentLegIndex: number | null = null;
+    if (route) {
+      currentLegIndex =
+        legIndex ?? (previous.route?.id === route.id ? previous.currentLegIndex : 0);
+    }
+
+    this.publish(
+      this.compute({
+        ...previous,
+        destination: route ? null : destination,
+        route,
+        currentLegIndex,
+      })
+    );
+
+    // A new destination or route starts a new trip
+    const tripKey = `${destination?.id ?? ''}/${route?.id ?? ''}`;
+    if (tripKey !== this.tripKey) {
+      this.tripKey = tripKey;
+      this.emit('tripStats', this.tripTracker.reset(this.now()));
+    }
+
+    this.checkProximity();
+  }
+
+  /**
+   * Change how navigation is computed; takes effect immediately
+   */
+  updateSettings(changes: Partial<NavigationEngineSettings>): void {
+    const previous = this.settings;
+    this.settings = { ...previous, ...changes };
+    const settings = this.settings;
+
+    this.courseBlender.setSpeedThreshold(settings.courseSpeedThreshold);
+    if (!settings.courseHeading) {
+      this.courseBlender.reset();
+      this.course = null;
+    }
+
+    // Apply changed rings, or forget ring state while alerts are off
+    if (
+      settings.proximityAlerts !== previous.proximityAlerts ||
+      settings.proximityRings.join(',') !== previous.proximityRings.join(',')
+    ) {
+      this.proximityTracker.setRings(settings.proximityRings);
+      this.proximityTargetKey = null;
+    }
+
+    this.publish(
+      this.compute({
+        ...this.data,
+        northReference: settings.northReference,
+        guidanceMode: settings.guidanceMode,
+      })
+    );
+  }
+
+  /**
+   * Start a new trip from here
+   */
+  resetTrip(): void {
+    this.emit('tripStats', this.tripTracker.reset(this.now()));
+  }
+
+  /**
+   * Feed a location fix (normally called by the location provider)
+   */
+  updateLocation(location: LocationFix): void {
+    this.clearLocationTimeout();
+    if (this.status.error?.code === 'location-timeout') {
+      this.setStatus({ error: this.warningBeforeTimeout });
+    }
+    this.warningBeforeTimeout = null;
+
+    this.course = this.settings.courseHeading ? this.courseBlender.update(location) : null;
+
+    const previous = this.data;
+    this.publish(
+      this.compute({
+        ...this.data,
+        userLocation: location,
+        declination: calculateDeclination(location, new Date(this.now())),
+      })
+    );
+
+    const { remainingRouteDistance, distance } = this.data;
+    this.emit('tripStats', this.tripTracker.update(location, remainingRouteDistance ?? distance));
+    this.checkProximity(previous);
+  }
+
+  /**
+   * Feed a magnetic heading (normally called by the heading provider). Without
+   * a newer one within HEADING_MAX_AGE the heading is dropped again, leaving
+   * the GPS course if that is on, or no relative angle at all.
+   * @param uncertainty One-sigma degrees, when the heading mode estimates it
+   */
+  updateHeading(heading: number, uncertainty: number | null = null): void {
+    this.publish(
+      this.compute({
+        ...this.data,
+        magneticHeading: normalizeAngle(heading),
+        headingUncertainty: uncertainty,
+      })
+    );
+
+    this.clearHeadingTimeout();
+    this.headingTimeout = setTimeout(() => {
+      this.headingTimeout = null;
+      this.publish(this.compute({ ...this.data, magneticHeading: null, headingUncertainty: null }));
+    }, HEADING_MAX_AGE);
+  }
+
+  private async startLocation(run: number): Promise<boolean> {
+    try {
+      const provider = this.locationProvider;
+      const hasPermission = await provider.hasPermissions();
+
+      if (!hasPermission) {
+        const granted = await provider.requestPermissions();
+        if (run !== this.run) return false;
+        this.setStatus({ isLocationPermissionGranted: granted });
+
+        if (!granted) {
+          this.setStatus({ error: createAppError('location-permission-denied') });
+          return false;
+        }
+      } else {
+        this.setStatus({ isLocationPermissionGranted: true });
+      }
+
+      const servicesEnabled = await provider.hasServicesEnabled();
+      if (run !== this.run) return false;
+      if (!servicesEnabled) {
+        this.setStatus({ error: createAppError('location-services-disabled') });
+        return false;
+      }
+
+      // Get initial location, without letting a slow first fix hold up the rest
+      provider
+        .getCurrentLocation()
+        .then((location) => {
+          if (location && run === this.run && !this.data.userLocation) {
+            this.updateLocation(location);
+          }
+        })
+        .catch((err) => {
+          // The watch below still delivers fixes; the timeout covers it never doing so
+          console.error('Error getting initial location:', err);
+        });
+
+      // Start watching location
+      const started = await provider.startWatching();
+      if (run !== this.run) return false;
+      if (!started) {
+        this.setStatus({ error: createAppError('location-unavailable') });
+        return false;
+      }
+
+      this.unsubscribes.push(provider.addListener((fix) => this.updateLocation(fix)));
+      this.locationTimeout = setTimeout(() => {
+        this.locationTimeout = null;
+        // Having no position at all outranks any other warning, but not a fatal error
+        const { error } = this.status;
+        if (error?.severity === 'fatal') return;
+        this.warningBeforeTimeout = error;
+        this.setStatus({ error: createAppError('location-timeout') });
+      }, LOCATION_TIMEOUT);
+      return true;
+    } catch (err) {
+      this.setStatus({ error: createAppError('location-unavailable', err) });
+      console.error('Location initialization error:', err);
+      return false;
+    }
+  }
+
+  private async startHeading(run: number): Promise<void> {
+    try {
+      const provider = this.headingProvider;
+      const availability = await provider.checkAvailability();
+      if (run !== this.run) return;
+
+      if (!availability.deviceMotion && !availability.magnetometer) {
+        this.setStatus({ error: createAppError('sensors-unavailable') });
+        return;
+      }
+
+      const started = await provider.startSensors();
+      if (run !== this.run) return;
+      if (!started) {
+        this.setStatus({ error: createAppError('sensor-start-failed') });
+        return;
+      }
+
+      this.unsubscribes.push(
+        provider.addListener((heading, _pitch, _roll, uncertainty) => {
+          this.updateHeading(heading, uncertainty);
+        })
+      );
+      this.setStatus({ isSensorActive: true });
+    } catch (err) {
+      this.setStatus({ error: createAppError('sensor-start-failed', err) });
+      console.error('Sensor initialization error:', err);
+    }
+  }
+
+  /**
+   * Check the proximity rings around the target against the latest fix
+   * @param previous Data before the fix, to finish off the waypoints it passed
+   */
+  private checkProximity(previous: NavigationData | null = null): void {
+    const { userLocation, targetLocation, distance, destination, route, currentLegIndex } =
+      this.data;
+    if (!this.settings.proximityAlerts || !userLocation || !targetLocation || distance === null) {
+      return;
+    }
+
+    // The fix already moved the target on past any waypoints it reached, so
+    // check those first or their crossings would be measured to the next one
+    if (
+      route &&
+      currentLegIndex !== null &&
+      previous?.route?.id === route.id &&
+      previous.currentLegIndex !== null
+    ) {
+      for (let leg = previous.currentLegIndex; leg < currentLegIndex; leg++) {
+        const waypoint = route.waypoints[leg];
+        const passed = calculateDistance(userLocation, waypoint.coordinates);
+        const events = this.updateProximity(waypoint.coordinates, passed, userLocation.timestamp);
+        // Reaching the arrival radius is an arrival, even outside the innermost ring
+        if (!this.proximityArrived) {
+          events.push({
+            type: 'enter',
+            radius: waypoint.arrivalRadius,
+            distance: passed,
+            arrived: true,
+            timestamp: userLocation.timestamp,
+          });
+        }
+        events.forEach((event) => {
+          this.emit('proximity', { event, targetName: waypoint.name, isFinalTarget: false });
+        });
+      }
+    }
+
+    const events = this.updateProximity(targetLocation, distance, userLocation.timestamp);
+    if (events.length === 0) return;
+
+    const waypoint = route && currentLegIndex !== null ? route.waypoints[currentLegIndex] : null;
+    const targetName = waypoint?.name ?? destination?.name ?? 'target';
+    const isFinalTarget = !route || currentLegIndex === route.waypoints.length - 1;
+
+    events.forEach((event) => {
+      this.emit('proximity', { event, targetName, isFinalTarget });
+    });
+  }
+
+  /**
+   * Feed the distance to a target into the ring tracker
+   * @returns Crossings of the rings around that target
+   */
+  private updateProximity(
+    target: Coordinates,
+    distance: number,
+    timestamp: number
+  ): ProximityEvent[] {
+    // Rings are relative to one target; a new leg or destination starts over
+    const targetKey = `${target.latitude},${target.longitude}`;
+    if (targetKey !== this.proximityTargetKey) {
+      this.proximityTracker.reset();
+      this.proximityTargetKey = targetKey;
+      this.proximityArrived = false;
+    }
+
+    const events = this.proximityTracker.update(distance, timestamp);
+    if (events.some((event) => event.arrived)) this.proximityArrived = true;
+    return events;
+  }
+
+  private compute(state: NavigationData): NavigationData {
+    return computeNavigationData(state, this.course, this.now());
+  }
+
+  private publish(data: NavigationData): void {
+    this.data = data;
+    this.emit('data', data);
+  }
+
+  private clearLocationTimeout(): void {
+    if (this.locationTimeout) {
+      clearTimeout(this.locationTimeout);
+      this.locationTimeout = null;
+    }
+  }
+
+  private clearHeadingTimeout(): void {
+    if (this.headingTimeout) {
+      clearTimeout(this.headingTimeout);
+      this.headingTimeout = null;
+    }
+  }
+
+  private setStatus(changes: Partial<NavigationEngineStatus>): void {
+    this.status = { ...this.status, ...changes };
+    this.emit('status', this.status);
+  }
+
+  private emit<K extends keyof NavigationEngineEvents>(
+    type: K,
+    payload: NavigationEngineEvents[K]
+  ): void {
+    (this.listeners[type] as Set<Listener<K>>).forEach((listener) => {
+      listener(payload);
+    });
+  }
+}
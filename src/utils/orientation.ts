@@ -0,0 +1,47 @@
+import { Vector3 } from '../types';
+import { normalizeAngle, toDegrees } from './geolocation';
+
+/**
+ * Derive pitch and roll from the gravity vector measured by the accelerometer
+ * Device frame: x to the right, y towards the top edge, z out of the screen.
+ * @param gravity Accelerometer reading pointing up (+z when lying flat, screen up)
+ * @returns Pitch (top edge up = positive) and roll (right edge down = positive) in radians
+ */
+export function calculatePitchRoll(gravity: Vector3): { pitch: number; roll: number } {
+  const pitch = Math.atan2(gravity.y, Math.sqrt(gravity.x * gravity.x + gravity.z * gravity.z));
+  const roll = Math.atan2(-gravity.x, gravity.z);
+  return { pitch, roll };
+}
+
+/**
+ * Compute a compass heading that stays correct while the phone is tilted,
+ * by rotating the magnetic vector into the horizontal plane first
+ * @param magnetic Magnetometer reading in the device frame
+ * @param gravity Accelerometer reading pointing up, in the device frame
+ * @returns Heading of the top edge in degrees (0-360), pitch and roll in degrees
+ */
+export function calculateTiltCompensatedHeading(
+  magnetic: Vector3,
+  gravity: Vector3
+): { heading: number; pitch: number; roll: number } {
+  const { pitch, roll } = calculatePitchRoll(gravity);
+
+  const sinPitch = Math.sin(pitch);
+  const cosPitch = Math.cos(pitch);
+  const sinRoll = Math.sin(roll);
+  const cosRoll = Math.cos(roll);
+
+  // Undo roll (about y), then pitch (about x)
+  const horizontalX = cosRoll * magnetic.x + sinRoll * magnetic.z;
+  const horizontalY =
+    cosPitch * magnetic.y - sinPitch * (-sinRoll * magnetic.x + cosRoll * magnetic.z);
+
+  // Magnetic north lies along (horizontalX, horizontalY) in the levelled frame
+  const heading = normalizeAngle(toDegrees(Math.atan2(-horizontalX, horizontalY)));
+
+  return {
+    heading,
+    pitch: toDegrees(pitch),
+    roll: toDegrees(roll),
+  };
+}
@@ -0,0 +1,78 @@
+import { ProximityEvent } from '../types';
+
+// Leaving a ring needs this much extra distance, as a fraction of its radius
+const LEAVE_MARGIN_RATIO = 0.2;
+// ...but never less than this, so small rings are not at the mercy of GPS jitter
+const MIN_LEAVE_MARGIN = 5; // meters
+
+/**
+ * Distance at which the user counts as having left a ring again
+ * @param radius Ring radius in meters
+ */
+export function leaveDistance(radius: number): number {
+  return radius + Math.max(radius * LEAVE_MARGIN_RATIO, MIN_LEAVE_MARGIN);
+}
+
+/**
+ * Tracks which proximity rings around the target the user is inside and
+ * reports crossings. Entering happens at the ring's radius, leaving only past
+ * leaveDistance(), so a position hovering at the edge fires once.
+ */
+export class ProximityTracker {
+  private rings: number[];
+  private inside: Set<number> = new Set();
+  private initialized = false;
+
+  /**
+   * @param rings Ring radii in meters, in any order
+   */
+  constructor(rings: number[]) {
+    this.rings = [...rings].sort((a, b) => b - a);
+  }
+
+  /** Change the rings; starts over without firing events */
+  setRings(rings: number[]): void {
+    this.rings = [...rings].sort((a, b) => b - a);
+    this.reset();
+  }
+
+  /**
+   * Feed the latest distance to the target
+   * @param distance Meters to the target
+   * @param timestamp Time of the fix, epoch milliseconds
+   * @returns Crossings since the last update, in the order they happened.
+   * The first update after a reset only records where the user is.
+   */
+  update(distance: number, timestamp: number = Date.now()): ProximityEvent[] {
+    const events: ProximityEvent[] = [];
+    const innermost = this.rings[this.rings.length - 1];
+
+    // Leaving happens from the inside out
+    for (const radius of [...this.rings].reverse()) {
+      if (this.inside.has(radius) && distance > leaveDistance(radius)) {
+        this.inside.delete(radius);
+        events.push({ type: 'leave', radius, distance, arrived: false, timestamp });
+      }
+    }
+
+    // ...and entering from the outside in
+    for (const radius of this.rings) {
+      if (!this.inside.has(radius) && distance <= radius) {
+        this.inside.add(radius);
+        events.push({ type: 'enter', radius, distance, arrived: radius === innermost, timestamp });
+      }
+    }
+
+    if (!this.initialized) {
+      this.initialized = true;
+      return [];
+    }
+    return events;
+  }
+
+  /** Forget which rings the user is inside, e.g. for a new target */
+  reset(): void {
+    this.inside.clear();
+    this.initialized = false;
+  }
+}
@@ -0,0 +1,51 @@
+import { Coordinates, Waypoint } from '../types';
+import { calculateDistance } from './geolocation';
+
+export const DEFAULT_ARRIVAL_RADIUS = 20; // meters
+
+/**
+ * Advance past every waypoint the user is already inside the arrival radius of
+ * @param location Current user location
+ * @param waypoints Ordered route waypoints
+ * @param legIndex Index of the waypoint currently being navigated to
+ * @returns Index of the waypoint to navigate to next (never past the last one)
+ */
+export function advanceLeg(
+  location: Coordinates,
+  waypoints: Waypoint[],
+  legIndex: number
+): number {
+  let index = legIndex;
+  while (
+    index < waypoints.length - 1 &&
+    calculateDistance(location, waypoints[index].coordinates) <=
+      waypoints[index].arrivalRadius
+  ) {
+    index++;
+  }
+  return index;
+}
+
+/**
+ * Calculate the distance left along a route
+ * @param location Current user location
+ * @param waypoints Ordered route waypoints
+ * @param legIndex Index of the waypoint currently being navigated to
+ * @returns Distance in meters to the current waypoint plus all later legs
+ */
+export function calculateRemainingRouteDistance(
+  location: Coordinates,
+  waypoints: Waypoint[],
+  legIndex: number
+): number {
+  if (legIndex >= waypoints.length) return 0;
+
+  let remaining = calculateDistance(location, waypoints[legIndex].coordinates);
+  for (let i = legIndex; i < waypoints.length - 1; i++) {
+    remaining += calculateDistance(
+      waypoints[i].coordinates,
+      waypoints[i + 1].coordinates
+    );
+  }
+  return remaining;
+}
@@ -0,0 +1,108 @@
+import { RecordingSummary, SessionRecording } from '../types';
+import { SESSION_CSV_COLUMNS } from './simulation';
+
+// Replay columns first, so parseSession reads an exported CSV as it is
+export const RECORDING_CSV_COLUMNS = [
+  ...SESSION_CSV_COLUMNS,
+  'source',
+  'filteredLatitude',
+  'filteredLongitude',
+  'filteredHeading',
+  'calibrationOffset',
+  'headingMode',
+  'magneticX',
+  'magneticY',
+  'magneticZ',
+];
+
+/**
+ * Count the samples of a recording and measure how long it ran
+ * @param recording Recording to summarize
+ * @returns Summary with duration in seconds
+ */
+export function summarizeRecording(recording: SessionRecording): RecordingSummary {
+  const { fixes, orientation } = recording;
+  const first = Math.min(fixes[0]?.timestamp ?? Infinity, orientation[0]?.timestamp ?? Infinity);
+  const last = Math.max(
+    fixes[fixes.length - 1]?.timestamp ?? -Infinity,
+    orientation[orientation.length - 1]?.timestamp ?? -Infinity
+  );
+
+  return {
+    id: recording.id,
+    name: recording.name,
+    createdAt: recording.createdAt,
+    duration: last > first ? (last - first) / 1000 : 0,
+    fixCount: fixes.length,
+    sampleCount: orientation.length,
+    dropped: recording.dropped,
+  };
+}
+
+/**
+ * Serialize a recording as JSON ({ fixes, orientation } plus metadata)
+ */
+export function toSessionJson(recording: SessionRecording): string {
+  return JSON.stringify(recording, null, 2);
+}
+
+function formatCell(value: number | string | null | undefined): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+/**
+ * Serialize a recording as CSV with one row per fix or sensor sample, in time
+ * order. Fix rows carry the GPS course in "course"; sample rows carry the
+ * compass in "heading".
+ */
+export function toSessionCsv(recording: SessionRecording): string {
+  const rows: { timestamp: number; cells: Record<string, number | string | null> }[] = [];
+
+  for (const fix of recording.fixes) {
+    rows.push({
+      timestamp: fix.timestamp,
+      cells: {
+        type: 'fix',
+        timestamp: fix.timestamp,
+        latitude: fix.latitude,
+        longitude: fix.longitude,
+        accuracy: fix.accuracy,
+        altitude: fix.altitude,
+        altitudeAccuracy: fix.altitudeAccuracy,
+        speed: fix.speed,
+        course: fix.heading,
+        filteredLatitude: fix.filteredLatitude,
+        filteredLongitude: fix.filteredLongitude,
+      },
+    });
+  }
+
+  for (const sample of recording.orientation) {
+    rows.push({
+      timestamp: sample.timestamp,
+      cells: {
+        type: 'orientation',
+        timestamp: sample.timestamp,
+        heading: sample.heading,
+        pitch: sample.pitch,
+        roll: sample.roll,
+        source: sample.source,
+        filteredHeading: sample.filteredHeading,
+        calibrationOffset: sample.calibrationOffset,
+        headingMode: sample.headingMode,
+        magneticX: sample.magneticField?.x ?? null,
+        magneticY: sample.magneticField?.y ?? null,
+        magneticZ: sample.magneticField?.z ?? null,
+      },
+    });
+  }
+
+  // Stable sort keeps a fix ahead of a sample with the same timestamp
+  rows.sort((a, b) => a.timestamp - b.timestamp);
+
+  const lines = [RECORDING_CSV_COLUMNS.join(',')];
+  for (const row of rows) {
+    lines.push(RECORDING_CSV_COLUMNS.map((column) => formatCell(row.cells[column])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
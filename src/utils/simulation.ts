@@ -0,0 +1,496 @@
+import {
+  Coordinates,
+  LocationFix,
+  OrientationSample,
+  ReplaySession,
+  SimulationOptions,
+} from '../types';
+import { calculateBearing, calculateDistance, fromLocalENU, normalizeAngle } from './geolocation';
+import { geodesicDirect } from './geodesic';
+import { calculateDeclination } from './magneticModel';
+
+export interface Subscription {
+  remove: () => void;
+}
+
+/**
+ * Something that produces raw location fixes in place of the GPS
+ */
+export interface LocationSource {
+  getCurrentFix(): LocationFix | null;
+  watchLocation(onFix: (fix: LocationFix) => void): Subscription;
+}
+
+/**
+ * Something that produces raw orientation samples in place of DeviceMotion
+ */
+export interface OrientationSource {
+  watchOrientation(onSample: (sample: OrientationSample) => void): Subscription;
+}
+
+const TICK_INTERVAL = 50; // ms
+const WALK_FIX_INTERVAL = 1000; // ms between simulated GPS fixes
+const WALK_ORIENTATION_INTERVAL = 100; // ms between simulated compass samples
+const WALK_ARRIVAL_DISTANCE = 1; // meters; the walk stops this close to its last point
+
+// Columns of the session CSV format; "type" is "fix" or "orientation"
+export const SESSION_CSV_COLUMNS = [
+  'type',
+  'timestamp',
+  'latitude',
+  'longitude',
+  'accuracy',
+  'altitude',
+  'altitudeAccuracy',
+  'speed',
+  'course',
+  'heading',
+  'pitch',
+  'roll',
+];
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32), so simulated runs repeat exactly
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Normally distributed noise (Box–Muller)
+ * @param random Uniform random source
+ * @param sigma Standard deviation
+ */
+function gaussian(random: () => number, sigma: number): number {
+  if (sigma === 0) return 0;
+  const u = 1 - random();
+  const v = random();
+  return sigma * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function toNumberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function toTimestamp(value: unknown): number | null {
+  const number = toNumberOrNull(value);
+  if (number !== null) return number;
+  if (typeof value !== 'string') return null;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function readFix(record: Record<string, unknown>): LocationFix | string {
+  const latitude = toNumberOrNull(record.latitude);
+  const longitude = toNumberOrNull(record.longitude);
+  const timestamp = toTimestamp(record.timestamp);
+  if (latitude === null || longitude === null || timestamp === null) {
+    return 'a fix needs latitude, longitude and timestamp';
+  }
+  return {
+    latitude,
+    longitude,
+    accuracy: toNumberOrNull(record.accuracy),
+    altitude: toNumberOrNull(record.altitude),
+    altitudeAccuracy: toNumberOrNull(record.altitudeAccuracy),
+    speed: toNumberOrNull(record.speed),
+    heading: toNumberOrNull(record.course ?? record.heading),
+    timestamp,
+  };
+}
+
+function readSample(record: Record<string, unknown>): OrientationSample | string {
+  const heading = toNumberOrNull(record.heading);
+  const timestamp = toTimestamp(record.timestamp);
+  if (heading === null || timestamp === null) {
+    return 'an orientation sample needs heading and timestamp';
+  }
+  return {
+    heading,
+    pitch: toNumberOrNull(record.pitch) ?? 0,
+    roll: toNumberOrNull(record.roll) ?? 0,
+    timestamp,
+  };
+}
+
+function parseCsvSession(content: string): { fixes: unknown[]; orientation: unknown[] } | string {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length === 0) return 'The file is empty';
+
+  const header = lines[0].split(',').map((column) => column.trim());
+  if (!header.includes('type') || !header.includes('timestamp')) {
+    return `CSV header must include "type" and "timestamp" (${SESSION_CSV_COLUMNS.join(',')})`;
+  }
+
+  const fixes: Record<string, string>[] = [];
+  const orientation: Record<string, string>[] = [];
+  for (const line of lines.slice(1)) {
+    const cells = line.split(',');
+    const record: Record<string, string> = {};
+    header.forEach((column, index) => {
+      record[column] = (cells[index] ?? '').trim();
+    });
+
+    if (record.type === 'fix') {
+      // In CSV "heading" is the compass; the GPS course has its own column
+      fixes.push({ ...record, heading: '' });
+    } else if (record.type === 'orientation') {
+      orientation.push(record);
+    }
+  }
+  return { fixes, orientation };
+}
+
+/**
+ * Parse a recorded session for replay, from JSON ({ fixes, orientation }) or
+ * CSV (one row per fix or orientation sample, see SESSION_CSV_COLUMNS)
+ * @param content File contents
+ * @param name Name to show for the session
+ * @returns The session with both streams sorted by time, or an error message
+ */
+export function parseSession(content: string, name: string): ReplaySession | string {
+  let raw: { fixes?: unknown; orientation?: unknown };
+  if (content.trimStart().startsWith('{')) {
+    try {
+      raw = JSON.parse(content);
+    } catch (error) {
+      return `Invalid JSON: ${(error as Error).message}`;
+    }
+  } else {
+    const csv = parseCsvSession(content);
+    if (typeof csv === 'string') return csv;
+    raw = csv;
+  }
+
+  const fixes: LocationFix[] = [];
+  const orientation: OrientationSample[] = [];
+
+  if (Array.isArray(raw.fixes)) {
+    for (const [index, record] of raw.fixes.entries()) {
+      const fix = readFix(record ?? {});
+      if (typeof fix === 'string') return `Fix ${index + 1}: ${fix}`;
+      fixes.push(fix);
+    }
+  }
+  if (Array.isArray(raw.orientation)) {
+    for (const [index, record] of raw.orientation.entries()) {
+      const sample = readSample(record ?? {});
+      if (typeof sample === 'string') return `Orientation sample ${index + 1}: ${sample}`;
+      orientation.push(sample);
+    }
+  }
+
+  if (fixes.length === 0 && orientation.length === 0) {
+    return 'The session has no fixes or orientation samples';
+  }
+
+  fixes.sort((a, b) => a.timestamp - b.timestamp);
+  orientation.sort((a, b) => a.timestamp - b.timestamp);
+  return { name, fixes, orientation };
+}
+
+/**
+ * Plays a recorded session back in real time (or faster). Fixes and samples
+ * keep their recorded spacing but are stamped with the time they are played,
+ * so everything downstream sees a live stream.
+ */
+export class ReplayPlayer implements LocationSource, OrientationSource {
+  private session: ReplaySession;
+  private playbackSpeed: number;
+  private loop: boolean;
+  private now: () => number;
+  private fixListeners: Set<(fix: LocationFix) => void> = new Set();
+  private sampleListeners: Set<(sample: OrientationSample) => void> = new Set();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private startedAt = 0;
+  private sessionStart: number; // timestamp of the first event in the session
+  private startTime: number; // session time at startedAt
+  private fixIndex = 0;
+  private sampleIndex = 0;
+  private lastFix: LocationFix | null = null;
+
+  /**
+   * @param session Recorded session
+   * @param playbackSpeed Speed multiplier
+   * @param loop Start over after the last event
+   * @param now Clock in milliseconds, replaceable for tests
+   */
+  constructor(
+    session: ReplaySession,
+    playbackSpeed: number = 1,
+    loop: boolean = false,
+    now: () => number = Date.now
+  ) {
+    this.session = session;
+    this.playbackSpeed = playbackSpeed;
+    this.loop = loop;
+    this.now = now;
+    this.sessionStart = Math.min(
+      session.fixes[0]?.timestamp ?? Infinity,
+      session.orientation[0]?.timestamp ?? Infinity
+    );
+    this.startTime = this.sessionStart;
+  }
+
+  /** Change speed or looping without restarting the replay */
+  setPlayback(playbackSpeed: number, loop: boolean): void {
+    if (this.timer) {
+      // Carry on from the current point in the session at the new speed
+      const now = this.now();
+      this.startTime += (now - this.startedAt) * this.playbackSpeed;
+      this.startedAt = now;
+    }
+    this.playbackSpeed = playbackSpeed;
+    this.loop = loop;
+  }
+
+  getCurrentFix(): LocationFix | null {
+    const first = this.session.fixes[0];
+    return this.lastFix ?? (first ? { ...first, timestamp: this.now() } : null);
+  }
+
+  watchLocation(onFix: (fix: LocationFix) => void): Subscription {
+    this.fixListeners.add(onFix);
+    this.start();
+    return {
+      remove: () => {
+        this.fixListeners.delete(onFix);
+        this.stopIfIdle();
+      },
+    };
+  }
+
+  watchOrientation(onSample: (sample: OrientationSample) => void): Subscription {
+    this.sampleListeners.add(onSample);
+    this.start();
+    return {
+      remove: () => {
+        this.sampleListeners.delete(onSample);
+        this.stopIfIdle();
+      },
+    };
+  }
+
+  /** Emit everything due up to the current time; called by the timer */
+  tick(): void {
+    const now = this.now();
+    const sessionTime = this.startTime + (now - this.startedAt) * this.playbackSpeed;
+    const { fixes, orientation } = this.session;
+
+    while (this.fixIndex < fixes.length && fixes[this.fixIndex].timestamp <= sessionTime) {
+      const fix = { ...fixes[this.fixIndex++], timestamp: now };
+      this.lastFix = fix;
+      this.fixListeners.forEach((listener) => listener(fix));
+    }
+    while (
+      this.sampleIndex < orientation.length &&
+      orientation[this.sampleIndex].timestamp <= sessionTime
+    ) {
+      const sample = { ...orientation[this.sampleIndex++], timestamp: now };
+      this.sampleListeners.forEach((listener) => listener(sample));
+    }
+
+    if (this.fixIndex >= fixes.length && this.sampleIndex >= orientation.length) {
+      if (this.loop) {
+        this.rewind();
+      } else if (this.timer) {
+        clearInterval(this.timer);
+        this.timer = null;
+      }
+    }
+  }
+
+  private rewind(): void {
+    this.startedAt = this.now();
+    this.startTime = this.sessionStart;
+    this.fixIndex = 0;
+    this.sampleIndex = 0;
+  }
+
+  private start(): void {
+    if (this.timer) return;
+    this.rewind();
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL);
+  }
+
+  private stopIfIdle(): void {
+    if (this.fixListeners.size > 0 || this.sampleListeners.size > 0 || !this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+/**
+ * Walks from a start point through a list of points at a steady speed,
+ * producing GPS fixes once a second and compass samples ten times a second
+ * that face the direction of travel, both with configurable noise.
+ */
+export class ScriptedWalk implements LocationSource, OrientationSource {
+  private path: Coordinates[];
+  private options: SimulationOptions;
+  private now: () => number;
+  private random: () => number;
+  private position: Coordinates;
+  private nextPoint = 0;
+  private heading = 0; // true heading of travel, degrees
+  private fixListeners: Set<(fix: LocationFix) => void> = new Set();
+  private sampleListeners: Set<(sample: OrientationSample) => void> = new Set();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastStepAt = 0;
+  private lastFixAt = -Infinity;
+  private lastSampleAt = -Infinity;
+  private lastFix: LocationFix | null = null;
+
+  /**
+   * @param start Where the walk begins
+   * @param path Points to walk to, in order
+   * @param options Speed, noise and random seed
+   * @param now Clock in milliseconds, replaceable for tests
+   */
+  constructor(
+    start: Coordinates,
+    path: Coordinates[],
+    options: SimulationOptions,
+    now: () => number = Date.now
+  ) {
+    this.position = { latitude: start.latitude, longitude: start.longitude };
+    this.path = path;
+    this.options = options;
+    this.now = now;
+    this.random = createRandom(options.seed);
+    if (path.length > 0) this.heading = calculateBearing(start, path[0]);
+  }
+
+  /** Walk to a new list of points from wherever the walk is now */
+  setPath(path: Coordinates[]): void {
+    this.path = path;
+    this.nextPoint = 0;
+  }
+
+  /** Change speed and noise on the fly; the seed only applies to a new walk */
+  setOptions(options: SimulationOptions): void {
+    this.options = options;
+  }
+
+  getCurrentFix(): LocationFix | null {
+    return this.lastFix ?? this.makeFix(this.now(), 0);
+  }
+
+  watchLocation(onFix: (fix: LocationFix) => void): Subscription {
+    this.fixListeners.add(onFix);
+    this.start();
+    return {
+      remove: () => {
+        this.fixListeners.delete(onFix);
+        this.stopIfIdle();
+      },
+    };
+  }
+
+  watchOrientation(onSample: (sample: OrientationSample) => void): Subscription {
+    this.sampleListeners.add(onSample);
+    this.start();
+    return {
+      remove: () => {
+        this.sampleListeners.delete(onSample);
+        this.stopIfIdle();
+      },
+    };
+  }
+
+  /** Move along the path and emit whatever is due; called by the timer */
+  tick(): void {
+    const now = this.now();
+    const dt = (now - this.lastStepAt) / 1000;
+    this.lastStepAt = now;
+    const speed = this.advance(this.options.walkSpeed * dt) ? this.options.walkSpeed : 0;
+
+    if (now - this.lastFixAt >= WALK_FIX_INTERVAL) {
+      this.lastFixAt = now;
+      const fix = this.makeFix(now, speed);
+      this.lastFix = fix;
+      this.fixListeners.forEach((listener) => listener(fix));
+    }
+
+    if (now - this.lastSampleAt >= WALK_ORIENTATION_INTERVAL) {
+      this.lastSampleAt = now;
+      // DeviceMotion reports magnetic heading; navigation adds the declination back
+      const magnetic = this.heading - calculateDeclination(this.position);
+      const sample: OrientationSample = {
+        heading: normalizeAngle(magnetic + gaussian(this.random, this.options.headingNoise)),
+        pitch: 0,
+        roll: 0,
+        timestamp: now,
+      };
+      this.sampleListeners.forEach((listener) => listener(sample));
+    }
+  }
+
+  /**
+   * Move up to a distance along the path
+   * @returns false once the end of the path is reached
+   */
+  private advance(distance: number): boolean {
+    let remaining = distance;
+    while (this.nextPoint < this.path.length) {
+      const target = this.path[this.nextPoint];
+      const toTarget = calculateDistance(this.position, target);
+      if (toTarget <= WALK_ARRIVAL_DISTANCE) {
+        this.nextPoint++;
+        continue;
+      }
+
+      this.heading = calculateBearing(this.position, target);
+      if (remaining <= 0) return true;
+
+      if (remaining >= toTarget) {
+        this.position = { latitude: target.latitude, longitude: target.longitude };
+        remaining -= toTarget;
+        this.nextPoint++;
+      } else {
+        this.position = geodesicDirect(this.position, this.heading, remaining).coordinates;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private makeFix(timestamp: number, speed: number): LocationFix {
+    const { positionNoise } = this.options;
+    const noisy = fromLocalENU(
+      this.position,
+      gaussian(this.random, positionNoise),
+      gaussian(this.random, positionNoise)
+    );
+    return {
+      ...noisy,
+      accuracy: Math.max(3, positionNoise * 2),
+      altitude: null,
+      altitudeAccuracy: null,
+      speed,
+      heading: speed > 0 ? this.heading : null,
+      timestamp,
+    };
+  }
+
+  private start(): void {
+    if (this.timer) return;
+    this.lastStepAt = this.now();
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL);
+  }
+
+  private stopIfIdle(): void {
+    if (this.fixListeners.size > 0 || this.sampleListeners.size > 0 || !this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+}
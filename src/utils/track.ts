@@ -0,0 +1,163 @@
+import { Track, TrackPoint, TrackSummary } from '../types';
+import { calculateDistance } from './geolocation';
+
+// Namespace for the per-point values GPX has no element for
+const GPX_EXTENSION_NAMESPACE = 'urn:compass-navigate:gpx:1';
+
+/**
+ * Compute the distance and moving time of a track
+ * @param track Track to summarize
+ * @returns Summary with distance in meters and duration in seconds
+ */
+export function summarizeTrack(track: Track): TrackSummary {
+  let distance = 0;
+  let duration = 0;
+  let pointCount = 0;
+
+  for (const segment of track.segments) {
+    pointCount += segment.length;
+    for (let i = 1; i < segment.length; i++) {
+      distance += calculateDistance(segment[i - 1], segment[i]);
+    }
+    if (segment.length > 1) {
+      duration += (segment[segment.length - 1].timestamp - segment[0].timestamp) / 1000;
+    }
+  }
+
+  return {
+    id: track.id,
+    name: track.name,
+    createdAt: track.createdAt,
+    distance,
+    duration,
+    pointCount,
+  };
+}
+
+/**
+ * Add a point to a track summary without walking the whole track again
+ * @param summary Summary of the track so far
+ * @param previous Last point of the segment the point is added to, if any
+ * @param point The new point
+ * @returns Updated summary
+ */
+export function extendTrackSummary(
+  summary: TrackSummary,
+  previous: TrackPoint | undefined,
+  point: TrackPoint
+): TrackSummary {
+  return {
+    ...summary,
+    distance: summary.distance + (previous ? calculateDistance(previous, point) : 0),
+    duration: summary.duration + (previous ? (point.timestamp - previous.timestamp) / 1000 : 0),
+    pointCount: summary.pointCount + 1,
+  };
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function formatGpxPoint(point: TrackPoint): string {
+  const lines = [`      <trkpt lat="${point.latitude.toFixed(7)}" lon="${point.longitude.toFixed(7)}">`];
+  if (point.altitude !== null) {
+    lines.push(`        <ele>${point.altitude.toFixed(1)}</ele>`);
+  }
+  lines.push(`        <time>${new Date(point.timestamp).toISOString()}</time>`);
+
+  const extensions: string[] = [];
+  if (point.heading !== null) {
+    extensions.push(`<cn:heading>${point.heading.toFixed(1)}</cn:heading>`);
+  }
+  if (point.course !== null) {
+    extensions.push(`<cn:course>${point.course.toFixed(1)}</cn:course>`);
+  }
+  if (point.speed !== null) {
+    extensions.push(`<cn:speed>${point.speed.toFixed(2)}</cn:speed>`);
+  }
+  if (point.accuracy !== null) {
+    extensions.push(`<cn:accuracy>${point.accuracy.toFixed(1)}</cn:accuracy>`);
+  }
+  if (extensions.length > 0) {
+    lines.push(`        <extensions>${extensions.join('')}</extensions>`);
+  }
+
+  lines.push('      </trkpt>');
+  return lines.join('\n');
+}
+
+/**
+ * Serialize a track as GPX 1.1. Heading, course, speed and accuracy go into a
+ * private extension namespace, which other apps safely ignore.
+ * @param track Track to export
+ * @returns GPX document
+ */
+export function toGpx(track: Track): string {
+  const segments = track.segments
+    .filter((segment) => segment.length > 0)
+    .map((segment) => ['    <trkseg>', ...segment.map(formatGpxPoint), '    </trkseg>'].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Compass Navigate"',
+    '  xmlns="http://www.topografix.com/GPX/1/1"',
+    '  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    `  xmlns:cn="${GPX_EXTENSION_NAMESPACE}"`,
+    '  xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">',
+    '  <metadata>',
+    `    <name>${escapeXml(track.name)}</name>`,
+    `    <time>${new Date(track.createdAt).toISOString()}</time>`,
+    '  </metadata>',
+    '  <trk>',
+    `    <name>${escapeXml(track.name)}</name>`,
+    ...segments,
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Serialize a track as a GeoJSON FeatureCollection with one MultiLineString.
+ * Per-point values are listed in coordinateProperties, parallel to the coordinates.
+ * @param track Track to export
+ * @returns GeoJSON document
+ */
+export function toGeoJson(track: Track): string {
+  const segments = track.segments.filter((segment) => segment.length > 0);
+
+  const feature = {
+    type: 'Feature',
+    properties: {
+      name: track.name,
+      time: new Date(track.createdAt).toISOString(),
+      coordinateProperties: {
+        times: segments.map((segment) =>
+          segment.map((point) => new Date(point.timestamp).toISOString())
+        ),
+        headings: segments.map((segment) => segment.map((point) => point.heading)),
+        courses: segments.map((segment) => segment.map((point) => point.course)),
+        speeds: segments.map((segment) => segment.map((point) => point.speed)),
+        accuracies: segments.map((segment) => segment.map((point) => point.accuracy)),
+      },
+    },
+    geometry: {
+      type: 'MultiLineString',
+      // GeoJSON positions are [longitude, latitude, altitude]
+      coordinates: segments.map((segment) =>
+        segment.map((point) =>
+          point.altitude !== null
+            ? [point.longitude, point.latitude, point.altitude]
+            : [point.longitude, point.latitude]
+        )
+      ),
+    },
+  };
+
+  return JSON.stringify({ type: 'FeatureCollection', features: [feature] }, null, 2);
+}
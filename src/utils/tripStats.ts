@@ -0,0 +1,123 @@
+import { LocationFix, TripStats } from '../types';
+import { calculateDistance } from './geolocation';
+import { LowPassFilter } from './filters';
+
+// Movement shorter than this (or the fix accuracy) is treated as GPS jitter
+const MIN_STEP_METERS = 3;
+
+// Below this closing speed an ETA would be meaningless
+const MIN_CLOSING_SPEED = 0.2;
+
+/**
+ * Accumulates speed, distance and progress statistics for one trip from
+ * successive location fixes. Call reset() to start a new trip.
+ */
+export class TripStatsTracker {
+  private startedAt: number;
+  private lastFix: LocationFix | null = null;
+  private anchor: LocationFix | null = null; // last point counted toward the distance
+  private distanceTraveled: number = 0;
+  private lastRemaining: number | null = null;
+  private closestApproach: number | null = null;
+  private closingSpeedFilter = new LowPassFilter(0.3);
+  private stats: TripStats;
+
+  constructor(now: number = Date.now()) {
+    this.startedAt = now;
+    this.stats = this.createEmptyStats();
+  }
+
+  /**
+   * @param fix Latest location fix
+   * @param remainingDistance Distance still to go to the target in meters, if there is one
+   * @returns Updated trip statistics
+   */
+  update(fix: LocationFix, remainingDistance: number | null): TripStats {
+    // The same fix can be delivered twice; only newer fixes add information
+    if (this.lastFix && fix.timestamp <= this.lastFix.timestamp) {
+      return this.stats;
+    }
+
+    const dt = this.lastFix ? (fix.timestamp - this.lastFix.timestamp) / 1000 : 0;
+
+    if (!this.anchor) {
+      this.anchor = fix;
+    } else {
+      const step = calculateDistance(this.anchor, fix);
+      if (step >= Math.max(MIN_STEP_METERS, fix.accuracy ?? 0)) {
+        this.distanceTraveled += step;
+        this.anchor = fix;
+      }
+    }
+
+    let currentSpeed = fix.speed;
+    if (currentSpeed === null && this.lastFix && dt > 0) {
+      currentSpeed = calculateDistance(this.lastFix, fix) / dt;
+    }
+
+    let closingSpeed: number | null = null;
+    if (remainingDistance === null) {
+      this.closingSpeedFilter.reset();
+    } else {
+      if (this.lastRemaining !== null && dt > 0) {
+        this.closingSpeedFilter.update((this.lastRemaining - remainingDistance) / dt);
+      }
+      closingSpeed = this.closingSpeedFilter.getValue();
+      this.closestApproach =
+        this.closestApproach === null
+          ? remainingDistance
+          : Math.min(this.closestApproach, remainingDistance);
+    }
+
+    const elapsedTime = Math.max(0, (fix.timestamp - this.startedAt) / 1000);
+
+    this.lastFix = fix;
+    this.lastRemaining = remainingDistance;
+    this.stats = {
+      startedAt: this.startedAt,
+      elapsedTime,
+      distanceTraveled: this.distanceTraveled,
+      currentSpeed,
+      averageSpeed: elapsedTime > 0 ? this.distanceTraveled / elapsedTime : null,
+      closingSpeed,
+      eta:
+        remainingDistance !== null && closingSpeed !== null && closingSpeed > MIN_CLOSING_SPEED
+          ? remainingDistance / closingSpeed
+          : null,
+      closestApproach: this.closestApproach,
+    };
+    return this.stats;
+  }
+
+  getStats(): TripStats {
+    return this.stats;
+  }
+
+  /**
+   * Start a new trip
+   */
+  reset(now: number = Date.now()): TripStats {
+    this.startedAt = now;
+    this.lastFix = null;
+    this.anchor = null;
+    this.distanceTraveled = 0;
+    this.lastRemaining = null;
+    this.closestApproach = null;
+    this.closingSpeedFilter.reset();
+    this.stats = this.createEmptyStats();
+    return this.stats;
+  }
+
+  private createEmptyStats(): TripStats {
+    return {
+      startedAt: this.startedAt,
+      elapsedTime: 0,
+      distanceTraveled: 0,
+      currentSpeed: null,
+      averageSpeed: null,
+      closingSpeed: null,
+      eta: null,
+      closestApproach: null,
+    };
+  }
+}
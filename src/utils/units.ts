@@ -0,0 +1,181 @@
+import { AngleUnits, DistanceUnits } from '../types';
+
+const METERS_PER_FOOT = 0.3048;
+const METERS_PER_MILE = 1609.344;
+const METERS_PER_NAUTICAL_MILE = 1852;
+const MILS_PER_DEGREE = 6400 / 360; // NATO mils
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Format a number with locale-specific grouping and decimal separators
+ * @param value Number to format
+ * @param fractionDigits Digits after the decimal separator
+ * @param locale BCP 47 locale; the device locale when omitted
+ */
+export function formatNumber(value: number, fractionDigits: number = 0, locale?: string): string {
+  const key = `${locale ?? ''}|${fractionDigits}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, {
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    });
+    numberFormats.set(key, format);
+  }
+  return format.format(value);
+}
+
+/**
+ * Format distance for display, switching to the larger unit when it reads better
+ * @param meters Distance in meters
+ * @param units Unit system
+ * @param locale BCP 47 locale; the device locale when omitted
+ * @returns Formatted string with appropriate units
+ */
+export function formatDistance(
+  meters: number,
+  units: DistanceUnits = 'metric',
+  locale?: string
+): string {
+  if (units === 'imperial') {
+    const miles = meters / METERS_PER_MILE;
+    if (miles < 0.1) {
+      return `${formatNumber(meters / METERS_PER_FOOT, 0, locale)}ft`;
+    }
+    return `${formatNumber(miles, miles < 10 ? 1 : 0, locale)}mi`;
+  }
+
+  if (units === 'nautical') {
+    const nauticalMiles = meters / METERS_PER_NAUTICAL_MILE;
+    // Mariners give short ranges in meters
+    if (nauticalMiles < 0.1) {
+      return `${formatNumber(meters, 0, locale)}m`;
+    }
+    return `${formatNumber(nauticalMiles, nauticalMiles < 10 ? 2 : 1, locale)}NM`;
+  }
+
+  if (meters < 1000) {
+    return `${formatNumber(meters, 0, locale)}m`;
+  }
+  const km = meters / 1000;
+  return `${formatNumber(km, km < 10 ? 1 : 0, locale)}km`;
+}
+
+/**
+ * Format distance in the smallest unit of the system, for exact readouts
+ * @param meters Distance in meters
+ * @param units Unit system
+ * @param locale BCP 47 locale; the device locale when omitted
+ * @returns Formatted string such as "1,234 meters" or "4,049 feet"
+ */
+export function formatDistanceExact(
+  meters: number,
+  units: DistanceUnits = 'metric',
+  locale?: string
+): string {
+  if (units === 'imperial') {
+    return `${formatNumber(meters / METERS_PER_FOOT, 0, locale)} feet`;
+  }
+  return `${formatNumber(meters, 0, locale)} meters`;
+}
+
+/**
+ * Phrase a distance for text-to-speech, rounded to what is worth hearing
+ * @param meters Distance in meters
+ * @param units Unit system
+ * @returns Words such as "340 meters" or "1.2 miles"
+ */
+export function formatSpokenDistance(meters: number, units: DistanceUnits = 'metric'): string {
+  const plural = (value: number, unit: string) => `${value} ${unit}${value === 1 ? '' : 's'}`;
+  const roundTo = (value: number, step: number) => Math.max(step, Math.round(value / step) * step);
+
+  if (units === 'imperial') {
+    const miles = meters / METERS_PER_MILE;
+    if (miles < 0.1) {
+      const feet = meters / METERS_PER_FOOT;
+      return `${roundTo(feet, feet < 100 ? 5 : 50)} feet`;
+    }
+    return plural(Math.round(miles * 10) / 10, 'mile');
+  }
+
+  if (units === 'nautical') {
+    const nauticalMiles = meters / METERS_PER_NAUTICAL_MILE;
+    if (nauticalMiles >= 0.1) {
+      return plural(Math.round(nauticalMiles * 10) / 10, 'nautical mile');
+    }
+  }
+
+  const rounded =
+    meters < 20 ? Math.max(1, Math.round(meters)) : roundTo(meters, meters < 100 ? 5 : 10);
+  if (units === 'metric' && rounded >= 1000) {
+    return plural(Math.round(meters / 100) / 10, 'kilometer');
+  }
+  return plural(rounded, 'meter');
+}
+
+/**
+ * Format speed for display
+ * @param metersPerSecond Speed in m/s
+ * @param units Unit system
+ * @param locale BCP 47 locale; the device locale when omitted
+ * @returns Formatted string in km/h, mph or knots
+ */
+export function formatSpeed(
+  metersPerSecond: number,
+  units: DistanceUnits = 'metric',
+  locale?: string
+): string {
+  const perHour = metersPerSecond * 3600;
+  let value: number;
+  let unit: string;
+  if (units === 'imperial') {
+    value = perHour / METERS_PER_MILE;
+    unit = 'mph';
+  } else if (units === 'nautical') {
+    value = perHour / METERS_PER_NAUTICAL_MILE;
+    unit = 'kn';
+  } else {
+    value = perHour / 1000;
+    unit = 'km/h';
+  }
+  return `${formatNumber(value, value < 10 ? 1 : 0, locale)}${unit}`;
+}
+
+/**
+ * Format an angle for display
+ * @param degrees Angle in degrees
+ * @param units Degrees or NATO mils (6400 per circle)
+ * @param fractionDigits Digits after the decimal separator when showing degrees
+ * @param locale BCP 47 locale; the device locale when omitted
+ * @returns Formatted string such as "123°" or "2187 mil"
+ */
+export function formatAngle(
+  degrees: number,
+  units: AngleUnits = 'degrees',
+  fractionDigits: number = 0,
+  locale?: string
+): string {
+  if (units === 'mils') {
+    // Mils are already fine-grained; grouping separators would look like a bearing pair
+    return `${Math.round(degrees * MILS_PER_DEGREE)} mil`;
+  }
+  return `${formatNumber(degrees, fractionDigits, locale)}°`;
+}
+
+/**
+ * Format a duration for display
+ * @param seconds Duration in seconds
+ * @returns Formatted string such as 45s, 12min or 1h 05min
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  if (total < 60) {
+    return `${total}s`;
+  }
+  const minutes = Math.round(total / 60);
+  if (minutes < 60) {
+    return `${minutes}min`;
+  }
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}min`;
+}
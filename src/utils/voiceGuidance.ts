@@ -0,0 +1,255 @@
+import { DistanceUnits, NavigationData, VoiceVerbosity } from '../types';
+import { angleDifference } from './geolocation';
+import { leaveDistance } from './proximity';
+import { formatSpokenDistance } from './units';
+
+/**
+ * Where announcements are spoken. The app uses text-to-speech; tests can pass
+ * an object that records the phrases instead.
+ */
+export interface SpeechBackend {
+  speak(text: string): void;
+  stop(): void;
+}
+
+interface VerbosityProfile {
+  correctionInterval: number; // ms between direction corrections
+  minCorrectionAngle: number; // degrees off course before a correction is spoken
+  statusInterval: number | null; // ms between unprompted status updates
+}
+
+const PROFILES: Record<Exclude<VoiceVerbosity, 'off'>, VerbosityProfile> = {
+  minimal: { correctionInterval: 20000, minCorrectionAngle: 60, statusInterval: null },
+  normal: { correctionInterval: 8000, minCorrectionAngle: 0, statusInterval: null },
+  detailed: { correctionInterval: 4000, minCorrectionAngle: 0, statusInterval: 30000 },
+};
+
+// Distances announced once on the way in, meters
+const MILESTONES = [5000, 2000, 1000, 500, 200, 100, 50];
+
+// Quiet time after any announcement, so phrases never pile up
+const MIN_GAP = 3000; // ms
+
+// A clock position only changes once the angle is this far past the half-hour
+const CLOCK_HYSTERESIS = 7.5; // degrees
+
+/**
+ * Clock position of a relative angle, 12 being straight ahead
+ * @param relativeAngle Degrees, positive clockwise
+ */
+export function clockPosition(relativeAngle: number): number {
+  const hour = Math.round(relativeAngle / 30) % 12;
+  return hour <= 0 ? hour + 12 : hour;
+}
+
+/**
+ * Turns a stream of NavigationData into short spoken announcements: direction
+ * corrections as clock positions, distance milestones, waypoints and arrival.
+ * Every announcement is rate limited, and clock positions, milestones and
+ * arrival all have hysteresis so GPS and compass jitter stay quiet.
+ */
+export class VoiceGuidance {
+  private backend: SpeechBackend;
+  private now: () => number;
+  private profile: VerbosityProfile | null = null;
+  private arrivalRadius = 10;
+  private targetKey: string | null = null;
+  private routeId: string | null = null;
+  private legIndex: number | null = null;
+  private spokenClock: number | null = null;
+  private passedMilestones: Set<number> = new Set();
+  private arrived = false;
+  private lastSpokenAt = -Infinity;
+  private lastCorrectionAt = -Infinity;
+  private lastStatusAt = -Infinity;
+
+  /**
+   * @param backend Where to speak
+   * @param now Clock in milliseconds, replaceable for tests
+   */
+  constructor(backend: SpeechBackend, now: () => number = Date.now) {
+    this.backend = backend;
+    this.now = now;
+  }
+
+  /** Change how much is announced; 'off' silences immediately */
+  setVerbosity(verbosity: VoiceVerbosity): void {
+    this.profile = verbosity === 'off' ? null : PROFILES[verbosity];
+    if (!this.profile) this.backend.stop();
+  }
+
+  /** Distance in meters that counts as having arrived at the final target */
+  setArrivalRadius(radius: number): void {
+    this.arrivalRadius = radius;
+  }
+
+  /**
+   * Consider the latest navigation data and speak if something is worth saying
+   * @param data Current navigation data
+   * @param units Units to speak distances in
+   * @returns The announcement that was spoken, or null
+   */
+  update(data: NavigationData, units: DistanceUnits): string | null {
+    const { targetLocation, distance, relativeAngle, route, currentLegIndex } = data;
+    if (!this.profile || !targetLocation || distance === null) return null;
+
+    const now = this.now();
+    const spokenDistance = formatSpokenDistance(distance, units);
+    const direction = relativeAngle !== null ? this.describeDirection(relativeAngle) : null;
+
+    // New target: either the next route leg or a different destination altogether
+    const targetKey = `${targetLocation.latitude},${targetLocation.longitude}`;
+    if (targetKey !== this.targetKey) {
+      const previousLeg = this.routeId === route?.id ? this.legIndex : null;
+      const advancedLeg =
+        currentLegIndex !== null && previousLeg !== null && currentLegIndex > previousLeg;
+      const isFirstUpdate = this.targetKey === null;
+
+      this.startTarget(targetKey, route?.id ?? null, currentLegIndex, distance, relativeAngle);
+      if (route && currentLegIndex !== null && advancedLeg) {
+        const name = route.waypoints[currentLegIndex].name;
+        const parts = ['Waypoint reached', `Next, ${name}`];
+        if (direction) parts.push(direction);
+        parts.push(spokenDistance);
+        return this.say(parts.join('. '), now, true);
+      }
+      if (!isFirstUpdate) {
+        return this.say(this.describeStatus(data, spokenDistance, direction), now, true);
+      }
+      return null;
+    }
+    this.legIndex = currentLegIndex;
+
+    // Arrival only counts at the end of a route
+    const isFinalTarget = !route || currentLegIndex === route.waypoints.length - 1;
+    if (isFinalTarget) {
+      if (!this.arrived && distance <= this.arrivalRadius) {
+        this.arrived = true;
+        const name = route ? route.name : (data.destination?.name ?? 'your destination');
+        return this.say(`Arrived at ${name}`, now, true);
+      }
+      if (this.arrived && distance > leaveDistance(this.arrivalRadius)) {
+        this.arrived = false;
+      }
+      if (this.arrived) return null;
+    }
+
+    // Re-arm milestones that were left behind again
+    this.passedMilestones.forEach((milestone) => {
+      if (distance > leaveDistance(milestone)) this.passedMilestones.delete(milestone);
+    });
+    const crossed = MILESTONES.filter(
+      (milestone) => distance <= milestone && !this.passedMilestones.has(milestone)
+    );
+    if (crossed.length > 0 && now - this.lastSpokenAt >= MIN_GAP) {
+      crossed.forEach((milestone) => this.passedMilestones.add(milestone));
+      return this.say(
+        direction ? `${spokenDistance} to go. ${direction}` : `${spokenDistance} to go`,
+        now
+      );
+    }
+
+    if (relativeAngle !== null) {
+      const correction = this.correction(relativeAngle, spokenDistance, now);
+      if (correction) return correction;
+    }
+
+    const { statusInterval } = this.profile;
+    if (statusInterval !== null && now - this.lastStatusAt >= statusInterval) {
+      return this.say(this.describeStatus(data, spokenDistance, direction), now);
+    }
+    return null;
+  }
+
+  /** Forget everything said so far, e.g. when guidance is switched back on */
+  reset(): void {
+    this.targetKey = null;
+    this.routeId = null;
+    this.legIndex = null;
+    this.spokenClock = null;
+    this.passedMilestones.clear();
+    this.arrived = false;
+    this.lastSpokenAt = -Infinity;
+    this.lastCorrectionAt = -Infinity;
+    this.lastStatusAt = -Infinity;
+  }
+
+  private startTarget(
+    targetKey: string,
+    routeId: string | null,
+    legIndex: number | null,
+    distance: number,
+    relativeAngle: number | null
+  ): void {
+    this.targetKey = targetKey;
+    this.routeId = routeId;
+    this.legIndex = legIndex;
+    this.arrived = distance <= this.arrivalRadius;
+    this.spokenClock = relativeAngle !== null ? clockPosition(relativeAngle) : null;
+    // Milestones already inside of are not news
+    this.passedMilestones = new Set(MILESTONES.filter((milestone) => distance <= milestone));
+  }
+
+  /**
+   * Speak a direction correction once the clock position has really changed
+   */
+  private correction(relativeAngle: number, spokenDistance: string, now: number): string | null {
+    const { correctionInterval, minCorrectionAngle } = this.profile!;
+
+    let clock = clockPosition(relativeAngle);
+    if (
+      this.spokenClock !== null &&
+      Math.abs(angleDifference(this.spokenClock * 30, relativeAngle)) <= 15 + CLOCK_HYSTERESIS
+    ) {
+      clock = this.spokenClock;
+    }
+    if (clock === this.spokenClock) return null;
+
+    // Below the verbosity's threshold, follow along silently
+    if (Math.abs(relativeAngle) < minCorrectionAngle) {
+      this.spokenClock = clock;
+      return null;
+    }
+
+    if (now - this.lastCorrectionAt < correctionInterval || now - this.lastSpokenAt < MIN_GAP) {
+      return null;
+    }
+
+    this.spokenClock = clock;
+    this.lastCorrectionAt = now;
+    return this.say(
+      clock === 12 ? 'On course' : `${this.describeDirection(relativeAngle)}, ${spokenDistance}`,
+      now
+    );
+  }
+
+  private describeDirection(relativeAngle: number): string {
+    const clock = clockPosition(relativeAngle);
+    return clock === 12 ? 'Target ahead' : `Target at ${clock} o'clock`;
+  }
+
+  private describeStatus(
+    data: NavigationData,
+    spokenDistance: string,
+    direction: string | null
+  ): string {
+    const { route, currentLegIndex, destination } = data;
+    const name =
+      route && currentLegIndex !== null
+        ? route.waypoints[currentLegIndex].name
+        : (destination?.name ?? 'target');
+    return direction
+      ? `${name}, ${spokenDistance}. ${direction}`
+      : `${name}, ${spokenDistance}`;
+  }
+
+  private say(text: string, now: number, interrupt: boolean = false): string | null {
+    if (!interrupt && now - this.lastSpokenAt < MIN_GAP) return null;
+
+    if (interrupt) this.backend.stop();
+    this.backend.speak(text);
+    this.lastSpokenAt = now;
+    this.lastStatusAt = now;
+    return text;
+  }
+}
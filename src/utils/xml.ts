@@ -0,0 +1,143 @@
+/*
+ * Minimal XML reader for the GPX and KML files we import. React Native has no
+ * DOMParser; this handles elements, attributes, text, CDATA, comments and the
+ * predefined and numeric entities, which is all those formats use.
+ */
+
+export interface XmlElement {
+  name: string; // local name, without any namespace prefix
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // concatenated text directly inside this element
+}
+
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'lt':
+        return '<';
+      case 'gt':
+        return '>';
+      case 'amp':
+        return '&';
+      case 'quot':
+        return '"';
+      case 'apos':
+        return "'";
+      default: {
+        const codePoint =
+          entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        // Out-of-range references become the replacement character rather than throwing
+        return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '\uFFFD';
+      }
+    }
+  });
+}
+
+/**
+ * Parse an XML document
+ * @param source XML text
+ * @returns The root element, or an error message
+ */
+export function parseXml(source: string): XmlElement | string {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  let index = 0;
+
+  while (index < source.length) {
+    const current = stack[stack.length - 1];
+    const next = source.indexOf('<', index);
+
+    if (next === -1) {
+      current.text += decodeEntities(source.slice(index));
+      break;
+    }
+    if (next > index) {
+      current.text += decodeEntities(source.slice(index, next));
+    }
+
+    if (source.startsWith('<!--', next)) {
+      const end = source.indexOf('-->', next + 4);
+      if (end === -1) return 'Unterminated comment';
+      index = end + 3;
+    } else if (source.startsWith('<![CDATA[', next)) {
+      const end = source.indexOf(']]>', next + 9);
+      if (end === -1) return 'Unterminated CDATA section';
+      current.text += source.slice(next + 9, end);
+      index = end + 3;
+    } else if (source.startsWith('<?', next)) {
+      const end = source.indexOf('?>', next + 2);
+      if (end === -1) return 'Unterminated processing instruction';
+      index = end + 2;
+    } else if (source.startsWith('<!', next)) {
+      const end = source.indexOf('>', next + 2);
+      if (end === -1) return 'Unterminated declaration';
+      index = end + 1;
+    } else if (source.startsWith('</', next)) {
+      const end = source.indexOf('>', next + 2);
+      if (end === -1) return 'Unterminated closing tag';
+      const name = localName(source.slice(next + 2, end).trim());
+      if (stack.length === 1 || current.name !== name) {
+        return `Unexpected closing tag </${name}>`;
+      }
+      stack.pop();
+      index = end + 1;
+    } else {
+      const end = source.indexOf('>', next + 1);
+      if (end === -1) return 'Unterminated tag';
+      let tag = source.slice(next + 1, end);
+      const selfClosing = tag.endsWith('/');
+      if (selfClosing) tag = tag.slice(0, -1);
+
+      const nameMatch = tag.match(/^[^\s/>]+/);
+      if (!nameMatch) return 'Malformed tag';
+
+      const element: XmlElement = {
+        name: localName(nameMatch[0]),
+        attributes: {},
+        children: [],
+        text: '',
+      };
+      for (const match of tag.slice(nameMatch[0].length).matchAll(ATTRIBUTE_PATTERN)) {
+        element.attributes[localName(match[1])] = decodeEntities(match[2] ?? match[3] ?? '');
+      }
+
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+      index = end + 1;
+    }
+  }
+
+  if (stack.length > 1) {
+    return `Missing closing tag for <${stack[stack.length - 1].name}>`;
+  }
+  const documentElement = root.children[0];
+  return documentElement ?? 'The file contains no XML elements';
+}
+
+/**
+ * Find all descendants with a given local name, in document order
+ */
+export function findElements(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  for (const child of element.children) {
+    if (child.name === name) found.push(child);
+    found.push(...findElements(child, name));
+  }
+  return found;
+}
+
+/**
+ * Trimmed text of the first direct child with a given local name
+ */
+export function childText(element: XmlElement, name: string): string | null {
+  const child = element.children.find((candidate) => candidate.name === name);
+  return child ? child.text.trim() : null;
+}